@@ -14,6 +14,7 @@ import React from "react";
 import { useDebouncedCallback } from "use-debounce";
 import { showImageModal } from "./ui-lib";
 import { PluggableList } from "react-markdown/lib";
+import { formatAtomeseSource, formatMettaSource } from "../opencog/formatter";
 
 export function Mermaid(props: { code: string }) {
   const ref = useRef<HTMLDivElement>(null);
@@ -135,9 +136,30 @@ function escapeBrackets(text: string) {
   );
 }
 
+/**
+ * Re-indent fenced atomese/metta code blocks. Only whitespace changes;
+ * blocks that fail to parse are left untouched.
+ */
+function formatOpenCogCodeBlocks(text: string) {
+  const pattern = /```(atomese|metta)([ \t]*\n)([\s\S]*?)```/gi;
+  return text.replace(pattern, (match, lang, newline, code) => {
+    try {
+      const formatted =
+        lang.toLowerCase() === "metta"
+          ? formatMettaSource(code)
+          : formatAtomeseSource(code);
+      return "```" + lang + newline + formatted + "\n```";
+    } catch {
+      return match;
+    }
+  });
+}
+
 function _MarkDownContent(props: { content: string }) {
   const escapedContent = useMemo(() => {
-    return escapeBrackets(escapeDollarNumber(props.content));
+    return escapeBrackets(
+      escapeDollarNumber(formatOpenCogCodeBlocks(props.content)),
+    );
   }, [props.content]);
 
   return (
@@ -9,10 +9,65 @@ import React, { useEffect } from "react";
 import { useOpenCogStore } from "../../store/opencog";
 import styles from "./opencog.module.scss";
 import { Agent, AgentStatus } from "../../opencog/types";
+import { ROUTING_LEARNER } from "../../opencog/orchestrator";
+import {
+  AgentLearning,
+  BANDIT_ALGORITHMS,
+  BanditAlgorithm,
+} from "../../opencog/memory";
+import { ProofTreeView } from "./proof-tree";
+
+/**
+ * Routing bandit of one learner, with the regret it has had so far
+ */
+function RoutingLearning({
+  agentId,
+  learning,
+}: {
+  agentId: string;
+  learning: AgentLearning;
+}) {
+  const setLearningAlgorithm = useOpenCogStore(
+    (state) => state.setLearningAlgorithm,
+  );
+  const statistics = learning.getStatistics();
+
+  return (
+    <div className={styles["agent-learning"]}>
+      <select
+        value={statistics.algorithm}
+        onChange={(e) =>
+          setLearningAlgorithm(agentId, e.target.value as BanditAlgorithm)
+        }
+        className={styles.formatSelect}
+        title="Routing algorithm"
+      >
+        {BANDIT_ALGORITHMS.map((algorithm) => (
+          <option key={algorithm} value={algorithm}>
+            {algorithm}
+          </option>
+        ))}
+      </select>
+      <span>
+        {statistics.decisions} routed, regret{" "}
+        {statistics.averageRegret.toFixed(3)} average,{" "}
+        {statistics.recentRegret.toFixed(3)} recent
+      </span>
+    </div>
+  );
+}
 
 export function AgentPanel() {
   const openCogStore = useOpenCogStore();
-  const { agents, initialized, showAgentPanel } = openCogStore;
+  const {
+    agents,
+    initialized,
+    showAgentPanel,
+    inferenceTraces,
+    plnReasoner,
+    agentLearning,
+  } = openCogStore;
+  const routingLearning = agentLearning?.get(ROUTING_LEARNER);
 
   useEffect(() => {
     if (!initialized) {
@@ -61,6 +116,15 @@ export function AgentPanel() {
       </div>
 
       <div className={styles["agent-list"]}>
+        {routingLearning && (
+          <div className={styles["agent-card"]}>
+            <div className={styles["agent-name"]}>Orchestrator routing</div>
+            <RoutingLearning
+              agentId={ROUTING_LEARNER}
+              learning={routingLearning}
+            />
+          </div>
+        )}
         {agents.length === 0 ? (
           <div className={styles["no-agents"]}>No agents registered</div>
         ) : (
@@ -84,10 +148,33 @@ export function AgentPanel() {
                   </span>
                 ))}
               </div>
+              {agentLearning?.has(agent.id) && (
+                <RoutingLearning
+                  agentId={agent.id}
+                  learning={agentLearning.get(agent.id)!}
+                />
+              )}
             </div>
           ))
         )}
       </div>
+
+      {plnReasoner && inferenceTraces.length > 0 && (
+        <div className={styles["inference-traces"]}>
+          <h4>Recent Inferences ({inferenceTraces.length})</h4>
+          <div className={styles.inferenceList}>
+            {inferenceTraces
+              .slice(-20)
+              .reverse()
+              .map((trace, index) => (
+                <ProofTreeView
+                  key={index}
+                  tree={plnReasoner.getProofTree(trace.atom)}
+                />
+              ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
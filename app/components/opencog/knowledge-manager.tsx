@@ -3,22 +3,51 @@
  * Provides UI for importing/exporting knowledge bases
  */
 
-import React, { useState, useRef } from "react";
+import React, { useState, useRef, useContext } from "react";
 import { useOpenCogStore } from "../../store/opencog";
+import { WebLLMContext } from "../../context";
 import {
   downloadKnowledgeBase,
   uploadKnowledgeBase,
 } from "../../opencog/knowledge";
+import {
+  Candidate,
+  DataTable,
+  FitnessTaskKind,
+  formatProgram,
+  modelToAtomese,
+  modelToMetta,
+  parseTable,
+} from "../../opencog/reasoning";
+import {
+  ConsolidationConfig,
+  ConsolidationReport,
+  DecayCurve,
+  contentText,
+} from "../../opencog/memory";
 import styles from "./opencog.module.scss";
 
+const DAY = 24 * 60 * 60 * 1000;
+
 export function KnowledgeBaseManager() {
   const openCogStore = useOpenCogStore();
   const [importing, setImporting] = useState(false);
   const [exportFormat, setExportFormat] = useState<
-    "json" | "atomese" | "metta"
+    "json" | "atomese" | "metta" | "scheme"
   >("json");
   const [message, setMessage] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const dataInputRef = useRef<HTMLInputElement>(null);
+  const [dataTable, setDataTable] = useState<DataTable | null>(null);
+  const [target, setTarget] = useState("");
+  const [taskKind, setTaskKind] = useState<FitnessTaskKind>("classification");
+  const [training, setTraining] = useState(false);
+  const [model, setModel] = useState<{ program: string; fitness: number }>();
+  const [modelFormat, setModelFormat] = useState<"atomese" | "metta">();
+  const webllm = useContext(WebLLMContext);
+  const [consolidating, setConsolidating] = useState(false);
+  const [consolidationReport, setConsolidationReport] =
+    useState<ConsolidationReport>();
 
   const handleExport = () => {
     try {
@@ -29,7 +58,12 @@ export function KnowledgeBaseManager() {
         return;
       }
 
-      downloadKnowledgeBase(atoms, exportFormat);
+      downloadKnowledgeBase(
+        atoms,
+        exportFormat,
+        undefined,
+        openCogStore.formatOptions,
+      );
       setMessage(`Exported ${atoms.length} atoms as ${exportFormat}`);
 
       setTimeout(() => setMessage(""), 3000);
@@ -71,6 +105,144 @@ export function KnowledgeBaseManager() {
     }
   };
 
+  const handleDataSelect = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    try {
+      const table = parseTable(await file.text());
+      const last = table.columns[table.columns.length - 1];
+
+      setDataTable(table);
+      setTarget(last.name);
+      setTaskKind(last.type === "boolean" ? "classification" : "regression");
+      setModel(undefined);
+      setMessage(
+        `Loaded ${table.rows.length} rows with ${table.columns.length} columns`,
+      );
+      setTimeout(() => setMessage(""), 3000);
+    } catch (error) {
+      setMessage(
+        `Data load failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      if (dataInputRef.current) {
+        dataInputRef.current.value = "";
+      }
+    }
+  };
+
+  const runTraining = async (train: () => Promise<Candidate | null>) => {
+    setTraining(true);
+    try {
+      const best = await train();
+      if (best) {
+        setModel({
+          program: formatProgram(best.program),
+          fitness: best.fitness,
+        });
+        setModelFormat(undefined);
+      }
+    } catch (error) {
+      setMessage(
+        `Training failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setTraining(false);
+    }
+  };
+
+  const handleTrain = () => {
+    if (!dataTable) return;
+    runTraining(() =>
+      openCogStore.trainMOSESModel(dataTable, target, taskKind),
+    );
+  };
+
+  const handleResume = async () => {
+    if (openCogStore.mosesWorker?.isRunning()) {
+      try {
+        await openCogStore.resumeMOSES();
+      } catch (error) {
+        setMessage(
+          `Resume failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+        );
+      }
+      return;
+    }
+
+    // Restart a run saved before the page was reloaded
+    runTraining(async () => {
+      await openCogStore.resumeMOSES();
+      return useOpenCogStore.getState().mosesEngine?.getBest() ?? null;
+    });
+  };
+
+  const handleCancel = async () => {
+    try {
+      await openCogStore.cancelMOSES();
+    } catch (error) {
+      setMessage(
+        `Cancel failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const handleInsertModel = () => {
+    try {
+      const handles = openCogStore.insertMOSESModel();
+      setMessage(`Added ${handles.length} model atoms to the AtomSpace`);
+      setTimeout(() => setMessage(""), 3000);
+    } catch (error) {
+      setMessage(
+        `Insert failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    }
+  };
+
+  const getModelSource = () => {
+    const best = openCogStore.mosesEngine?.getBest();
+    const options = openCogStore.mosesModel;
+    if (!best || !options) return "";
+
+    return modelFormat === "metta"
+      ? modelToMetta(best, options)
+      : modelToAtomese(best, options);
+  };
+
+  const consolidationConfig = openCogStore.consolidationConfig;
+  const updateConsolidationConfig = (update: Partial<ConsolidationConfig>) =>
+    openCogStore.setConsolidationConfig({ ...consolidationConfig, ...update });
+  const { threshold, decay, retention, capacity } = consolidationConfig;
+
+  const runConsolidation = async (dryRun: boolean) => {
+    setConsolidating(true);
+    try {
+      const report = await openCogStore.consolidateMemory({
+        dryRun,
+        llm: webllm,
+      });
+      setConsolidationReport(report);
+      setMessage(
+        `${dryRun ? "Would forget" : "Forgot"} ${report.forgotten.length} of ${report.examined} memories`,
+      );
+    } catch (error) {
+      setMessage(
+        `Consolidation failed: ${error instanceof Error ? error.message : "Unknown error"}`,
+      );
+    } finally {
+      setConsolidating(false);
+    }
+  };
+
+  const handleConsolidate = () => {
+    if (
+      confirm("Forget the memories selected by the consolidation policies?")
+    ) {
+      runConsolidation(false);
+    }
+  };
+
   const handleClearAtomSpace = () => {
     if (
       confirm(
@@ -109,6 +281,7 @@ export function KnowledgeBaseManager() {
             <option value="json">JSON</option>
             <option value="atomese">Atomese (.scm)</option>
             <option value="metta">MeTTa (.metta)</option>
+            <option value="scheme">Scheme (.scm)</option>
           </select>
           <button
             onClick={handleExport}
@@ -140,6 +313,332 @@ export function KnowledgeBaseManager() {
         </div>
       </div>
 
+      <div className={styles.managerSection}>
+        <h5>Learn from Data (MOSES)</h5>
+        <div className={styles.importControls}>
+          <input
+            ref={dataInputRef}
+            type="file"
+            accept=".csv,.json"
+            onChange={handleDataSelect}
+            style={{ display: "none" }}
+          />
+          <button
+            onClick={() => dataInputRef.current?.click()}
+            disabled={training}
+            className={styles.importButton}
+          >
+            Load CSV/JSON
+          </button>
+          {dataTable && (
+            <>
+              <select
+                value={target}
+                onChange={(e) => setTarget(e.target.value)}
+                className={styles.formatSelect}
+              >
+                {dataTable.columns.map((column) => (
+                  <option key={column.name} value={column.name}>
+                    {column.name} ({column.type})
+                  </option>
+                ))}
+              </select>
+              <select
+                value={taskKind}
+                onChange={(e) => setTaskKind(e.target.value as FitnessTaskKind)}
+                className={styles.formatSelect}
+              >
+                <option value="classification">Classification</option>
+                <option value="regression">Regression</option>
+              </select>
+              <button
+                onClick={handleTrain}
+                disabled={training || !openCogStore.mosesEngine}
+                className={styles.importButton}
+              >
+                {training ? "Training..." : "Train"}
+              </button>
+            </>
+          )}
+        </div>
+        {openCogStore.mosesRun && (
+          <div className={styles.mosesProgress}>
+            <progress
+              value={openCogStore.mosesRun.generation}
+              max={openCogStore.mosesRun.generations}
+            />
+            <span>
+              Generation {openCogStore.mosesRun.generation}/
+              {openCogStore.mosesRun.generations}
+              {openCogStore.mosesRun.status === "paused" && " (paused)"}
+            </span>
+            {openCogStore.mosesRun.status === "running" ? (
+              <button
+                onClick={openCogStore.pauseMOSES}
+                className={styles.importButton}
+              >
+                Pause
+              </button>
+            ) : (
+              <button onClick={handleResume} className={styles.importButton}>
+                Resume
+              </button>
+            )}
+            <button onClick={handleCancel} className={styles.importButton}>
+              Cancel
+            </button>
+          </div>
+        )}
+        {model && (
+          <div className={styles.mosesModel}>
+            <code>{model.program}</code>
+            <span>fitness {model.fitness.toFixed(3)}</span>
+          </div>
+        )}
+        {model && (
+          <div className={styles.importControls}>
+            <select
+              value={modelFormat || ""}
+              onChange={(e) =>
+                setModelFormat(
+                  (e.target.value || undefined) as "atomese" | "metta",
+                )
+              }
+              className={styles.formatSelect}
+            >
+              <option value="">Hide Source</option>
+              <option value="atomese">Show Atomese</option>
+              <option value="metta">Show MeTTa</option>
+            </select>
+            <button
+              onClick={handleInsertModel}
+              disabled={training}
+              className={styles.importButton}
+            >
+              Add to AtomSpace
+            </button>
+          </div>
+        )}
+        {model && modelFormat && (
+          <pre className={styles.mosesSource}>{getModelSource()}</pre>
+        )}
+      </div>
+
+      <div className={styles.managerSection}>
+        <h5>Memory Consolidation</h5>
+        <div className={styles.policyControls}>
+          <label>
+            <input
+              type="checkbox"
+              checked={!!threshold}
+              onChange={(e) =>
+                updateConsolidationConfig({
+                  threshold: e.target.checked ? {} : undefined,
+                })
+              }
+            />
+            Forget unimportant memories idle for a week
+          </label>
+          <div>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!decay}
+                onChange={(e) =>
+                  updateConsolidationConfig({
+                    decay: e.target.checked ? {} : undefined,
+                  })
+                }
+              />
+              Decay
+            </label>
+            {decay && (
+              <>
+                <select
+                  value={decay.curve ?? "exponential"}
+                  onChange={(e) =>
+                    updateConsolidationConfig({
+                      decay: { ...decay, curve: e.target.value as DecayCurve },
+                    })
+                  }
+                >
+                  <option value="exponential">Exponential</option>
+                  <option value="hyperbolic">Hyperbolic</option>
+                  <option value="linear">Linear</option>
+                </select>
+                <label>
+                  Half-life (days)
+                  <input
+                    type="number"
+                    min={1}
+                    value={(decay.halfLife ?? 14 * DAY) / DAY}
+                    onChange={(e) =>
+                      updateConsolidationConfig({
+                        decay: {
+                          ...decay,
+                          halfLife:
+                            Math.max(1, Number(e.target.value) || 0) * DAY,
+                        },
+                      })
+                    }
+                  />
+                </label>
+                <label>
+                  Forget below
+                  <input
+                    type="number"
+                    min={0}
+                    max={1}
+                    step={0.01}
+                    value={decay.threshold ?? 0.05}
+                    onChange={(e) =>
+                      updateConsolidationConfig({
+                        decay: {
+                          ...decay,
+                          threshold: Math.min(
+                            1,
+                            Math.max(0, Number(e.target.value) || 0),
+                          ),
+                        },
+                      })
+                    }
+                  />
+                </label>
+              </>
+            )}
+          </div>
+          <div>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!retention}
+                onChange={(e) =>
+                  updateConsolidationConfig({
+                    retention: e.target.checked
+                      ? { maxAge: { experience: 30 * DAY } }
+                      : undefined,
+                  })
+                }
+              />
+              Retention
+            </label>
+            {retention && (
+              <label>
+                Forget experiences after (days)
+                <input
+                  type="number"
+                  min={1}
+                  value={(retention.maxAge?.experience ?? 30 * DAY) / DAY}
+                  onChange={(e) =>
+                    updateConsolidationConfig({
+                      retention: {
+                        ...retention,
+                        maxAge: {
+                          ...retention.maxAge,
+                          experience:
+                            Math.max(1, Number(e.target.value) || 0) * DAY,
+                        },
+                      },
+                    })
+                  }
+                />
+              </label>
+            )}
+          </div>
+          <div>
+            <label>
+              <input
+                type="checkbox"
+                checked={!!capacity}
+                onChange={(e) =>
+                  updateConsolidationConfig({
+                    capacity: e.target.checked
+                      ? { maxEntries: 1000 }
+                      : undefined,
+                  })
+                }
+              />
+              Capacity
+            </label>
+            {capacity && (
+              <>
+                <label>
+                  Max memories
+                  <input
+                    type="number"
+                    min={0}
+                    value={capacity.maxEntries}
+                    onChange={(e) =>
+                      updateConsolidationConfig({
+                        capacity: {
+                          ...capacity,
+                          maxEntries: Math.max(0, Number(e.target.value) || 0),
+                        },
+                      })
+                    }
+                  />
+                </label>
+                <label>
+                  <input
+                    type="checkbox"
+                    checked={!!capacity.perAgent}
+                    onChange={(e) =>
+                      updateConsolidationConfig({
+                        capacity: { ...capacity, perAgent: e.target.checked },
+                      })
+                    }
+                  />
+                  Per agent
+                </label>
+              </>
+            )}
+          </div>
+        </div>
+        <div className={styles.importControls}>
+          <label>
+            <input
+              type="checkbox"
+              checked={!!consolidationConfig.summarize}
+              onChange={(e) =>
+                updateConsolidationConfig({ summarize: e.target.checked })
+              }
+            />
+            Summarize experiences before forgetting
+          </label>
+          <button
+            onClick={() => runConsolidation(true)}
+            disabled={consolidating || !openCogStore.memory}
+            className={styles.importButton}
+          >
+            Preview
+          </button>
+          <button
+            onClick={handleConsolidate}
+            disabled={consolidating || !openCogStore.memory}
+            className={styles.importButton}
+          >
+            {consolidating ? "Consolidating..." : "Consolidate"}
+          </button>
+        </div>
+        {consolidationReport && (
+          <ul className={styles.consolidationReport}>
+            {consolidationReport.summaries.map((summary) => (
+              <li key={summary.sourceIds[0]}>
+                {consolidationReport.dryRun ? "Would merge" : "Merged"}{" "}
+                {summary.sourceIds.length} experiences of {summary.agentId}
+                {summary.summary && `: ${summary.summary}`}
+              </li>
+            ))}
+            {consolidationReport.forgotten.map(({ entry, reason }) => (
+              <li key={entry.id}>
+                [{entry.type}] {contentText(entry.content).slice(0, 80)} —{" "}
+                {reason}
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
       <div className={styles.managerSection}>
         <h5>Manage AtomSpace</h5>
         <button
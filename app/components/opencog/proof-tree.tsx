@@ -0,0 +1,69 @@
+/**
+ * Proof Tree Component
+ * Expandable explanation of how PLN derived an atom
+ */
+
+import React from "react";
+import { AtomNode, TruthValue } from "../../opencog/types";
+import { ProofTree } from "../../opencog/reasoning";
+import styles from "./opencog.module.scss";
+
+/**
+ * Compact one-line rendering, e.g. (Inheritance cat animal)
+ */
+function atomLabel(atom: AtomNode): string {
+  if (!atom.children?.length) return atom.name ?? atom.type;
+
+  const head = atom.type.replace(/Link$/, "");
+  return `(${head} ${atom.children.map(atomLabel).join(" ")})`;
+}
+
+function formatTV(tv?: TruthValue): string {
+  return tv ? `(${tv.strength.toFixed(3)}, ${tv.confidence.toFixed(3)})` : "";
+}
+
+export function ProofTreeView({
+  tree,
+  depth = 0,
+}: {
+  tree: ProofTree;
+  depth?: number;
+}) {
+  if (tree.steps.length === 0) {
+    return (
+      <div className={styles.proofLeaf}>
+        <code>{atomLabel(tree.atom)}</code>
+        <span className={styles.proofTruth}>
+          {formatTV(tree.atom.truthValue)}
+        </span>
+        <span className={styles.proofFact}>fact</span>
+      </div>
+    );
+  }
+
+  return (
+    <details className={styles.proofNode} open={depth === 0}>
+      <summary>
+        <code>{atomLabel(tree.atom)}</code>
+        <span className={styles.proofTruth}>
+          {formatTV(tree.atom.truthValue)}
+        </span>
+      </summary>
+      {tree.steps.map((step, index) => (
+        <div key={index} className={styles.proofStep}>
+          <div className={styles.proofRule}>
+            {step.rule} → {formatTV(step.truthValue)}, iteration{" "}
+            {step.iteration + 1}
+          </div>
+          {step.premises.map((premise, premiseIndex) => (
+            <ProofTreeView
+              key={premiseIndex}
+              tree={premise}
+              depth={depth + 1}
+            />
+          ))}
+        </div>
+      ))}
+    </details>
+  );
+}
@@ -3,16 +3,28 @@
  * Visual interface for building and executing AtomSpace queries
  */
 
-import React, { useState } from "react";
+import React, { useRef, useState } from "react";
 import { useOpenCogStore } from "../../store/opencog";
 import {
   AtomQueryBuilder,
+  PatternMatcher,
   QueryCriteria,
   QueryResult,
+  QueryResultTable,
+  QueryCompletion,
+  applyQueryCompletion,
+  getQueryCompletions,
 } from "../../opencog/knowledge";
-import { AtomType } from "../../opencog/types";
+import { atomTypes } from "../../opencog/atom-types";
+import { AtomeseParser } from "../../opencog/atomese";
+import { ParseError } from "../../opencog/sexpr";
+import { BackwardChainResult } from "../../opencog/reasoning";
+import { truthValueConfidence } from "../../opencog/truth-value";
+import { AtomNode, TruthValue } from "../../opencog/types";
 import styles from "./opencog.module.scss";
 
+type QueryMode = "criteria" | "pattern" | "prove";
+
 export function QueryBuilderPanel() {
   const openCogStore = useOpenCogStore();
   const [criteria, setCriteria] = useState<QueryCriteria[]>([]);
@@ -20,6 +32,22 @@ export function QueryBuilderPanel() {
   const [combineMode, setCombineMode] = useState<"AND" | "OR">("AND");
   const [limit, setLimit] = useState<number>(50);
   const [executing, setExecuting] = useState(false);
+  const [mode, setMode] = useState<QueryMode>("criteria");
+  const [patternText, setPatternText] = useState("");
+  const [patternResult, setPatternResult] = useState<QueryResultTable | null>(
+    null,
+  );
+  const [patternError, setPatternError] = useState("");
+  const [proof, setProof] = useState<BackwardChainResult | null>(null);
+  const [insertResults, setInsertResults] = useState(false);
+  const [queryText, setQueryText] = useState("");
+  const [queryError, setQueryError] = useState("");
+  const [completions, setCompletions] = useState<QueryCompletion[]>([]);
+  const [saveName, setSaveName] = useState("");
+  const queryInputRef = useRef<HTMLInputElement>(null);
+
+  const nodeTypes = atomTypes.getNodeTypes().sort();
+  const linkTypes = atomTypes.getLinkTypes().sort();
 
   const addCriterion = () => {
     setCriteria([...criteria, {}]);
@@ -55,27 +83,252 @@ export function QueryBuilderPanel() {
     }
   };
 
+  // Run a query-language string from the query bar
+  const executeQueryText = () => {
+    setExecuting(true);
+    setQueryError("");
+    setCompletions([]);
+
+    try {
+      const builder = AtomQueryBuilder.fromQuery(queryText);
+      setResults(builder.execute(openCogStore.atomSpace));
+    } catch (error) {
+      setResults([]);
+      setQueryError(
+        error instanceof ParseError
+          ? error.codeFrame(queryText)
+          : error instanceof Error
+            ? error.message
+            : "Query failed",
+      );
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  const updateQueryText = (text: string, cursor: number) => {
+    setQueryText(text);
+    setCompletions(getQueryCompletions(text, cursor).slice(0, 8));
+  };
+
+  const acceptCompletion = (completion: QueryCompletion) => {
+    const next = applyQueryCompletion(queryText, completion);
+    setQueryText(next.query);
+    setCompletions([]);
+
+    const input = queryInputRef.current;
+    if (input) {
+      input.focus();
+      requestAnimationFrame(() =>
+        input.setSelectionRange(next.cursor, next.cursor),
+      );
+    }
+  };
+
+  const onQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === "Tab" && completions.length > 0) {
+      e.preventDefault();
+      acceptCompletion(completions[0]);
+    } else if (e.key === "Enter") {
+      executeQueryText();
+    } else if (e.key === "Escape") {
+      setCompletions([]);
+    }
+  };
+
+  const saveQueryText = () => {
+    if (!saveName.trim() || !queryText.trim()) return;
+    openCogStore.saveQuery(saveName.trim(), queryText.trim());
+    setSaveName("");
+  };
+
+  // Run a GetLink/BindLink (or bare pattern) against the shared AtomSpace
+  const executePattern = () => {
+    setExecuting(true);
+    setPatternError("");
+
+    try {
+      const query = AtomeseParser.parse(patternText);
+      const matcher = new PatternMatcher(openCogStore.space);
+      const table = matcher.execute(query, { limit });
+
+      if (insertResults) {
+        table.produced.forEach((atom) => openCogStore.addAtom(atom));
+      }
+      setPatternResult(table);
+    } catch (error) {
+      setPatternResult(null);
+      setPatternError(
+        error instanceof ParseError
+          ? error.codeFrame(patternText)
+          : error instanceof Error
+            ? error.message
+            : "Pattern query failed",
+      );
+    } finally {
+      setExecuting(false);
+    }
+  };
+
+  // Prove the target with PLN backward chaining over the AtomSpace
+  const executeProof = async () => {
+    setExecuting(true);
+    setPatternError("");
+
+    try {
+      const target = AtomeseParser.parse(patternText);
+      setProof(await openCogStore.queryPLN(target));
+    } catch (error) {
+      setProof(null);
+      setPatternError(
+        error instanceof ParseError
+          ? error.codeFrame(patternText)
+          : error instanceof Error
+            ? error.message
+            : "PLN query failed",
+      );
+    } finally {
+      setExecuting(false);
+    }
+  };
+
   const clearQuery = () => {
     setCriteria([]);
     setResults([]);
+    setPatternText("");
+    setPatternResult(null);
+    setPatternError("");
+    setProof(null);
+    setQueryText("");
+    setQueryError("");
+    setCompletions([]);
   };
 
+  const atomLabel = (atom: AtomNode) =>
+    atom.name ?? AtomeseParser.generate(atom);
+
+  const tvLabel = (tv: TruthValue) =>
+    `(${tv.strength.toFixed(3)}, ${truthValueConfidence(tv).toFixed(3)})`;
+
   return (
     <div className={styles.queryBuilder}>
       <h4>AtomSpace Query Builder</h4>
 
+      {mode === "criteria" && (
+        <div className={styles.queryBar}>
+          <div className={styles.queryBarInput}>
+            <input
+              ref={queryInputRef}
+              type="text"
+              value={queryText}
+              onChange={(e) =>
+                updateQueryText(
+                  e.target.value,
+                  e.target.selectionStart ?? e.target.value.length,
+                )
+              }
+              onKeyDown={onQueryKeyDown}
+              onBlur={() => setCompletions([])}
+              placeholder="type:InheritanceLink name~/cat/ tv.strength>0.7 order:confidence limit:20"
+              spellCheck={false}
+            />
+            <button
+              onClick={executeQueryText}
+              disabled={!queryText.trim() || executing}
+              className={styles.executeButton}
+            >
+              Run
+            </button>
+          </div>
+
+          {completions.length > 0 && (
+            <ul className={styles.queryCompletions}>
+              {completions.map((completion) => (
+                <li
+                  key={completion.label}
+                  // Keep focus in the input so the blur handler doesn't
+                  // close the list before the click lands
+                  onMouseDown={(e) => {
+                    e.preventDefault();
+                    acceptCompletion(completion);
+                  }}
+                >
+                  {completion.label}
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {queryError && (
+            <pre className={styles.patternError}>{queryError}</pre>
+          )}
+
+          <div className={styles.savedQueries}>
+            <input
+              type="text"
+              value={saveName}
+              onChange={(e) => setSaveName(e.target.value)}
+              placeholder="Name"
+            />
+            <button
+              onClick={saveQueryText}
+              disabled={!saveName.trim() || !queryText.trim()}
+              className={styles.addButton}
+            >
+              Save
+            </button>
+          </div>
+
+          {openCogStore.savedQueries.length > 0 && (
+            <div className={styles.savedQueryList}>
+              {openCogStore.savedQueries.map((entry) => (
+                <span key={entry.id} className={styles.savedQueryChip}>
+                  <button
+                    onClick={() => setQueryText(entry.query)}
+                    title={entry.query}
+                  >
+                    {entry.name}
+                  </button>
+                  <button
+                    onClick={() => openCogStore.deleteSavedQuery(entry.id)}
+                    className={styles.removeButton}
+                    title="Delete saved query"
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       <div className={styles.queryControls}>
         <div className={styles.controlGroup}>
-          <label>Combine Mode:</label>
+          <label>Query Mode:</label>
           <select
-            value={combineMode}
-            onChange={(e) => setCombineMode(e.target.value as "AND" | "OR")}
+            value={mode}
+            onChange={(e) => setMode(e.target.value as QueryMode)}
           >
-            <option value="AND">AND (all criteria)</option>
-            <option value="OR">OR (any criterion)</option>
+            <option value="criteria">Criteria</option>
+            <option value="pattern">Pattern (GetLink / BindLink)</option>
+            <option value="prove">Prove (PLN backward chaining)</option>
           </select>
         </div>
 
+        {mode === "criteria" && (
+          <div className={styles.controlGroup}>
+            <label>Combine Mode:</label>
+            <select
+              value={combineMode}
+              onChange={(e) => setCombineMode(e.target.value as "AND" | "OR")}
+            >
+              <option value="AND">AND (all criteria)</option>
+              <option value="OR">OR (any criterion)</option>
+            </select>
+          </div>
+        )}
+
         <div className={styles.controlGroup}>
           <label>Limit Results:</label>
           <input
@@ -88,136 +341,206 @@ export function QueryBuilderPanel() {
         </div>
       </div>
 
-      <div className={styles.criteriaList}>
-        <div className={styles.criteriaHeader}>
-          <h5>Query Criteria</h5>
-          <button onClick={addCriterion} className={styles.addButton}>
-            + Add Criterion
-          </button>
+      {mode === "pattern" && (
+        <div className={styles.patternQuery}>
+          <textarea
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            placeholder={`(GetLink\n  (TypedVariableLink (VariableNode "$X") (TypeNode "ConceptNode"))\n  (InheritanceLink (VariableNode "$X") (ConceptNode "animal")))`}
+            rows={6}
+          />
+          <label>
+            <input
+              type="checkbox"
+              checked={insertResults}
+              onChange={(e) => setInsertResults(e.target.checked)}
+            />
+            Add BindLink results to the AtomSpace
+          </label>
+          {patternError && (
+            <pre className={styles.patternError}>{patternError}</pre>
+          )}
         </div>
+      )}
 
-        {criteria.length === 0 && (
-          <div className={styles.noCriteria}>
-            No criteria defined. Click &quot;+ Add Criterion&quot; to start
-            building your query.
-          </div>
-        )}
+      {mode === "prove" && (
+        <div className={styles.patternQuery}>
+          <textarea
+            value={patternText}
+            onChange={(e) => setPatternText(e.target.value)}
+            placeholder={`(InheritanceLink (VariableNode "$X") (ConceptNode "animal"))`}
+            rows={4}
+          />
+          {patternError && (
+            <pre className={styles.patternError}>{patternError}</pre>
+          )}
+        </div>
+      )}
 
-        {criteria.map((criterion, index) => (
-          <div key={index} className={styles.criterionCard}>
-            <div className={styles.criterionHeader}>
-              <span>Criterion {index + 1}</span>
-              <button
-                onClick={() => removeCriterion(index)}
-                className={styles.removeButton}
-              >
-                ×
+      {mode === "criteria" && (
+        <>
+          <div className={styles.criteriaList}>
+            <div className={styles.criteriaHeader}>
+              <h5>Query Criteria</h5>
+              <button onClick={addCriterion} className={styles.addButton}>
+                + Add Criterion
               </button>
             </div>
 
-            <div className={styles.criterionFields}>
-              <div className={styles.field}>
-                <label>Atom Type:</label>
-                <select
-                  value={criterion.type || ""}
-                  onChange={(e) =>
-                    updateCriterion(index, {
-                      type: e.target.value as AtomType,
-                    })
-                  }
-                >
-                  <option value="">Any</option>
-                  <option value="ConceptNode">ConceptNode</option>
-                  <option value="PredicateNode">PredicateNode</option>
-                  <option value="VariableNode">VariableNode</option>
-                  <option value="InheritanceLink">InheritanceLink</option>
-                  <option value="SimilarityLink">SimilarityLink</option>
-                  <option value="EvaluationLink">EvaluationLink</option>
-                  <option value="ImplicationLink">ImplicationLink</option>
-                </select>
+            {criteria.length === 0 && (
+              <div className={styles.noCriteria}>
+                No criteria defined. Click &quot;+ Add Criterion&quot; to start
+                building your query.
               </div>
+            )}
 
-              <div className={styles.field}>
-                <label>Name:</label>
-                <input
-                  type="text"
-                  value={
-                    typeof criterion.name === "string" ? criterion.name : ""
-                  }
-                  onChange={(e) =>
-                    updateCriterion(index, { name: e.target.value })
-                  }
-                  placeholder="Exact name match"
-                />
-              </div>
+            {criteria.map((criterion, index) => (
+              <div key={index} className={styles.criterionCard}>
+                <div className={styles.criterionHeader}>
+                  <span>Criterion {index + 1}</span>
+                  <button
+                    onClick={() => removeCriterion(index)}
+                    className={styles.removeButton}
+                  >
+                    ×
+                  </button>
+                </div>
 
-              <div className={styles.field}>
-                <label>Min Truth Strength:</label>
-                <input
-                  type="number"
-                  min={0}
-                  max={1}
-                  step={0.1}
-                  value={criterion.minTruthStrength ?? ""}
-                  onChange={(e) =>
-                    updateCriterion(index, {
-                      minTruthStrength: parseFloat(e.target.value),
-                    })
-                  }
-                  placeholder="0.0 - 1.0"
-                />
-              </div>
+                <div className={styles.criterionFields}>
+                  <div className={styles.field}>
+                    <label>Atom Type:</label>
+                    <select
+                      value={criterion.type || ""}
+                      onChange={(e) =>
+                        updateCriterion(index, {
+                          type: e.target.value || undefined,
+                        })
+                      }
+                    >
+                      <option value="">Any</option>
+                      <optgroup label="Nodes">
+                        {nodeTypes.map((type) => (
+                          <option key={type} value={type}>
+                            {type}
+                          </option>
+                        ))}
+                      </optgroup>
+                      <optgroup label="Links">
+                        {linkTypes.map((type) => (
+                          <option key={type} value={type}>
+                            {type}
+                          </option>
+                        ))}
+                      </optgroup>
+                    </select>
+                  </div>
 
-              <div className={styles.field}>
-                <label>Min Truth Confidence:</label>
-                <input
-                  type="number"
-                  min={0}
-                  max={1}
-                  step={0.1}
-                  value={criterion.minTruthConfidence ?? ""}
-                  onChange={(e) =>
-                    updateCriterion(index, {
-                      minTruthConfidence: parseFloat(e.target.value),
-                    })
-                  }
-                  placeholder="0.0 - 1.0"
-                />
-              </div>
+                  <div className={styles.field}>
+                    <label>Include Subtypes:</label>
+                    <input
+                      type="checkbox"
+                      checked={!!criterion.includeSubtypes}
+                      onChange={(e) =>
+                        updateCriterion(index, {
+                          includeSubtypes: e.target.checked,
+                        })
+                      }
+                    />
+                  </div>
 
-              <div className={styles.field}>
-                <label>Has Children:</label>
-                <select
-                  value={
-                    criterion.hasChildren === undefined
-                      ? ""
-                      : criterion.hasChildren
-                        ? "true"
-                        : "false"
-                  }
-                  onChange={(e) =>
-                    updateCriterion(index, {
-                      hasChildren:
-                        e.target.value === ""
-                          ? undefined
-                          : e.target.value === "true",
-                    })
-                  }
-                >
-                  <option value="">Any</option>
-                  <option value="true">Yes</option>
-                  <option value="false">No</option>
-                </select>
+                  <div className={styles.field}>
+                    <label>Name:</label>
+                    <input
+                      type="text"
+                      value={
+                        typeof criterion.name === "string" ? criterion.name : ""
+                      }
+                      onChange={(e) =>
+                        updateCriterion(index, { name: e.target.value })
+                      }
+                      placeholder="Exact name match"
+                    />
+                  </div>
+
+                  <div className={styles.field}>
+                    <label>Min Truth Strength:</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      value={criterion.minTruthStrength ?? ""}
+                      onChange={(e) =>
+                        updateCriterion(index, {
+                          minTruthStrength: parseFloat(e.target.value),
+                        })
+                      }
+                      placeholder="0.0 - 1.0"
+                    />
+                  </div>
+
+                  <div className={styles.field}>
+                    <label>Min Truth Confidence:</label>
+                    <input
+                      type="number"
+                      min={0}
+                      max={1}
+                      step={0.1}
+                      value={criterion.minTruthConfidence ?? ""}
+                      onChange={(e) =>
+                        updateCriterion(index, {
+                          minTruthConfidence: parseFloat(e.target.value),
+                        })
+                      }
+                      placeholder="0.0 - 1.0"
+                    />
+                  </div>
+
+                  <div className={styles.field}>
+                    <label>Has Children:</label>
+                    <select
+                      value={
+                        criterion.hasChildren === undefined
+                          ? ""
+                          : criterion.hasChildren
+                            ? "true"
+                            : "false"
+                      }
+                      onChange={(e) =>
+                        updateCriterion(index, {
+                          hasChildren:
+                            e.target.value === ""
+                              ? undefined
+                              : e.target.value === "true",
+                        })
+                      }
+                    >
+                      <option value="">Any</option>
+                      <option value="true">Yes</option>
+                      <option value="false">No</option>
+                    </select>
+                  </div>
+                </div>
               </div>
-            </div>
+            ))}
           </div>
-        ))}
-      </div>
+        </>
+      )}
 
       <div className={styles.queryActions}>
         <button
-          onClick={executeQuery}
-          disabled={criteria.length === 0 || executing}
+          onClick={
+            mode === "criteria"
+              ? executeQuery
+              : mode === "pattern"
+                ? executePattern
+                : executeProof
+          }
+          disabled={
+            (mode === "criteria"
+              ? criteria.length === 0
+              : !patternText.trim()) || executing
+          }
           className={styles.executeButton}
         >
           {executing ? "Executing..." : "Execute Query"}
@@ -227,7 +550,7 @@ export function QueryBuilderPanel() {
         </button>
       </div>
 
-      {results.length > 0 && (
+      {mode === "criteria" && results.length > 0 && (
         <div className={styles.queryResults}>
           <h5>Results ({results.length})</h5>
           <div className={styles.resultsList}>
@@ -258,6 +581,73 @@ export function QueryBuilderPanel() {
           </div>
         </div>
       )}
+
+      {mode === "pattern" && patternResult && (
+        <div className={styles.queryResults}>
+          <h5>Bindings ({patternResult.rows.length})</h5>
+          {patternResult.variables.length > 0 &&
+            patternResult.rows.length > 0 && (
+              <table className={styles.bindingTable}>
+                <thead>
+                  <tr>
+                    {patternResult.variables.map((variable) => (
+                      <th key={variable}>{variable}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {patternResult.rows.map((row, index) => (
+                    <tr key={index}>
+                      {patternResult.variables.map((variable) => (
+                        <td key={variable}>
+                          {atomLabel(row.bindings[variable])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            )}
+          {patternResult.produced.length > 0 && (
+            <>
+              <h5>
+                Produced ({patternResult.produced.length})
+                {insertResults && " - added to the AtomSpace"}
+              </h5>
+              <div className={styles.resultsList}>
+                {patternResult.produced.map((atom, index) => (
+                  <pre key={index} className={styles.resultCard}>
+                    {AtomeseParser.generate(atom)}
+                  </pre>
+                ))}
+              </div>
+            </>
+          )}
+        </div>
+      )}
+
+      {mode === "prove" && proof && (
+        <div className={styles.queryResults}>
+          <h5>
+            {proof.truthValue
+              ? `Proved with TV ${tvLabel(proof.truthValue)}`
+              : "No proof found"}{" "}
+            in {proof.steps} steps
+          </h5>
+          {proof.solutions.length > 0 && (
+            <div className={styles.resultsList}>
+              {proof.solutions.slice(0, limit).map((solution, index) => (
+                <div key={index} className={styles.resultCard}>
+                  <pre>{AtomeseParser.generate(solution.atom)}</pre>
+                  <div className={styles.resultTruth}>
+                    TV: {tvLabel(solution.truthValue)}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
     </div>
   );
 }
@@ -5,14 +5,24 @@
 
 "use client";
 
-import React, { useState } from "react";
+import React, { useMemo, useRef, useState } from "react";
 import { useOpenCogStore } from "../../store/opencog";
 import { Format } from "../../opencog/types";
+import { AtomeseParser } from "../../opencog/atomese";
+import { MeTTaParser } from "../../opencog/metta";
+import { SchemeParser } from "../../opencog/scheme";
+import { ParseError } from "../../opencog/sexpr";
+import {
+  formatAtomeseSource,
+  formatMettaSource,
+  formatSchemeSource,
+} from "../../opencog/formatter";
 import styles from "./opencog.module.scss";
 
 export function TranslationPanel() {
   const openCogStore = useOpenCogStore();
   const { showTranslationPanel, initialized } = openCogStore;
+  const layoutOptions = openCogStore.formatOptions;
 
   const [input, setInput] = useState("");
   const [output, setOutput] = useState("");
@@ -22,11 +32,35 @@ export function TranslationPanel() {
   const [targetFormat, setTargetFormat] = useState<Format>(Format.ATOMESE);
   const [isTranslating, setIsTranslating] = useState(false);
   const [error, setError] = useState("");
+  const inputRef = useRef<HTMLTextAreaElement>(null);
+
+  // Live syntax check for the formal source languages
+  const validation = useMemo(() => {
+    if (!input.trim()) return null;
+    if (sourceFormat === Format.ATOMESE) return AtomeseParser.validate(input);
+    if (sourceFormat === Format.METTA) return MeTTaParser.validate(input);
+    if (sourceFormat === Format.SCHEME) return SchemeParser.validate(input);
+    return null;
+  }, [input, sourceFormat]);
 
   if (!showTranslationPanel) {
     return null;
   }
 
+  const isFormattable = (format: Format) => format !== Format.NATURAL_LANGUAGE;
+
+  // Pretty-print formal source; throws ParseError when malformed
+  const formatCode = (code: string, format: Format) => {
+    switch (format) {
+      case Format.METTA:
+        return formatMettaSource(code, layoutOptions);
+      case Format.SCHEME:
+        return formatSchemeSource(code, layoutOptions);
+      default:
+        return formatAtomeseSource(code, layoutOptions);
+    }
+  };
+
   const handleTranslate = async () => {
     if (!input.trim()) {
       setError("Please enter text to translate");
@@ -42,14 +76,52 @@ export function TranslationPanel() {
         sourceFormat,
         targetFormat,
       });
-      setOutput(result.output);
+      let output = result.output;
+      if (isFormattable(targetFormat)) {
+        try {
+          output = formatCode(output, targetFormat);
+        } catch {
+          // Keep unparseable (e.g. LLM generated) output as is
+        }
+      }
+      setOutput(output);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Translation failed");
+      if (err instanceof ParseError) {
+        setError(err.codeFrame(input));
+        selectInput(err.position.offset);
+      } else {
+        setError(err instanceof Error ? err.message : "Translation failed");
+      }
     } finally {
       setIsTranslating(false);
     }
   };
 
+  const handleFormat = () => {
+    if (!input.trim()) return;
+
+    try {
+      setInput(formatCode(input, sourceFormat));
+      setError("");
+    } catch (err) {
+      if (err instanceof ParseError) {
+        setError(err.codeFrame(input));
+        selectInput(err.position.offset);
+      } else {
+        setError(err instanceof Error ? err.message : "Formatting failed");
+      }
+    }
+  };
+
+  // Move the cursor to the location of a syntax error
+  const selectInput = (offset: number) => {
+    const textarea = inputRef.current;
+    if (!textarea) return;
+
+    textarea.focus();
+    textarea.setSelectionRange(offset, Math.min(offset + 1, input.length));
+  };
+
   const swapFormats = () => {
     const temp = sourceFormat;
     setSourceFormat(targetFormat);
@@ -116,15 +188,73 @@ export function TranslationPanel() {
           </div>
         </div>
 
+        <div className={styles["format-options"]}>
+          <label>
+            Indent
+            <input
+              type="number"
+              min={0}
+              max={8}
+              value={layoutOptions.indentWidth}
+              onChange={(e) =>
+                openCogStore.setFormatOptions({
+                  indentWidth: Math.max(0, Number(e.target.value) || 0),
+                })
+              }
+            />
+          </label>
+          <label>
+            Max Line Length
+            <input
+              type="number"
+              min={20}
+              max={200}
+              value={layoutOptions.maxLineLength}
+              onChange={(e) =>
+                openCogStore.setFormatOptions({
+                  maxLineLength: Math.max(20, Number(e.target.value) || 0),
+                })
+              }
+            />
+          </label>
+          <label>
+            <input
+              type="checkbox"
+              checked={layoutOptions.alignChildren}
+              onChange={(e) =>
+                openCogStore.setFormatOptions({
+                  alignChildren: e.target.checked,
+                })
+              }
+            />
+            Align Children
+          </label>
+        </div>
+
         <div className={styles["translation-area"]}>
           <div className={styles["input-section"]}>
             <label>Input:</label>
             <textarea
+              ref={inputRef}
               value={input}
               onChange={(e) => setInput(e.target.value)}
               placeholder={`Enter ${formatOptions.find((f) => f.value === sourceFormat)?.label}...`}
               rows={10}
             />
+            {validation && (
+              <div
+                className={
+                  validation.valid
+                    ? styles["validation-ok"]
+                    : styles["validation-error"]
+                }
+                onClick={() =>
+                  validation.position && selectInput(validation.position.offset)
+                }
+              >
+                {validation.valid ? "✓ Valid syntax" : validation.error}
+              </div>
+            )}
           </div>
 
           <div className={styles["output-section"]}>
@@ -138,7 +268,11 @@ export function TranslationPanel() {
           </div>
         </div>
 
-        {error && <div className={styles["error-message"]}>{error}</div>}
+        {error && (
+          <div className={styles["error-message"]}>
+            <pre>{error}</pre>
+          </div>
+        )}
 
         <div className={styles["translation-actions"]}>
           <button
@@ -148,6 +282,14 @@ export function TranslationPanel() {
           >
             {isTranslating ? "Translating..." : "Translate"}
           </button>
+          <button
+            onClick={handleFormat}
+            disabled={!isFormattable(sourceFormat) || !input.trim()}
+            className={styles["format-button"]}
+            title="Pretty-print the input"
+          >
+            Format
+          </button>
           <button
             onClick={() => {
               setInput("");
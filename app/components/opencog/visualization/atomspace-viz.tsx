@@ -5,6 +5,10 @@
 
 import React, { useEffect, useRef, useState } from "react";
 import { AtomNode } from "../../../opencog/types";
+import { AtomHandle, atomHandle } from "../../../opencog/atomspace";
+import { atomTypes } from "../../../opencog/atom-types";
+import { useOpenCogStore } from "../../../store/opencog";
+import { ProofTreeView } from "../proof-tree";
 import styles from "../opencog.module.scss";
 
 interface AtomSpaceVisualizationProps {
@@ -16,6 +20,7 @@ interface AtomSpaceVisualizationProps {
 
 interface VisualAtom {
   atom: AtomNode;
+  handle: AtomHandle;
   x: number;
   y: number;
   vx: number;
@@ -32,11 +37,18 @@ export function AtomSpaceVisualization({
   const [visualAtoms, setVisualAtoms] = useState<VisualAtom[]>([]);
   const [selectedAtom, setSelectedAtom] = useState<AtomNode | null>(null);
   const animationFrameRef = useRef<number>();
+  const selectedHandle = selectedAtom ? atomHandle(selectedAtom) : null;
+  const plnReasoner = useOpenCogStore((state) => state.plnReasoner);
+  // Re-render when new inferences are recorded
+  useOpenCogStore((state) => state.inferenceTraces);
+  const proof =
+    selectedAtom && plnReasoner ? plnReasoner.getProofTree(selectedAtom) : null;
 
   // Initialize visual atoms
   useEffect(() => {
     const initialized = atoms.map((atom) => ({
       atom,
+      handle: atomHandle(atom),
       x: Math.random() * width,
       y: Math.random() * height,
       vx: (Math.random() - 0.5) * 2,
@@ -86,10 +98,11 @@ export function AtomSpaceVisualization({
         ctx.strokeStyle = "#444";
         ctx.lineWidth = 1;
 
+        const byHandle = new Map(updated.map((va) => [va.handle, va]));
         for (const va of updated) {
           if (va.atom.children) {
             for (const child of va.atom.children) {
-              const childVa = updated.find((v) => atomsEqual(v.atom, child));
+              const childVa = byHandle.get(atomHandle(child));
               if (childVa) {
                 ctx.beginPath();
                 ctx.moveTo(va.x, va.y);
@@ -102,7 +115,7 @@ export function AtomSpaceVisualization({
 
         // Draw atoms
         for (const va of updated) {
-          const isSelected = selectedAtom && atomsEqual(va.atom, selectedAtom);
+          const isSelected = selectedHandle === va.handle;
 
           // Draw circle
           ctx.beginPath();
@@ -138,7 +151,7 @@ export function AtomSpaceVisualization({
         cancelAnimationFrame(animationFrameRef.current);
       }
     };
-  }, [width, height, selectedAtom]);
+  }, [width, height, selectedHandle]);
 
   // Handle click
   const handleCanvasClick = (e: React.MouseEvent<HTMLCanvasElement>) => {
@@ -191,6 +204,12 @@ export function AtomSpaceVisualization({
               </div>
             </div>
           )}
+          {proof && proof.steps.length > 0 && (
+            <div>
+              <strong>Derivation:</strong>
+              <ProofTreeView tree={proof} />
+            </div>
+          )}
         </div>
       )}
     </div>
@@ -199,14 +218,10 @@ export function AtomSpaceVisualization({
 
 function getAtomColor(atom: AtomNode): string {
   // Color by atom type
-  if (atom.type.includes("Node")) {
+  if (atomTypes.isNode(atom.type)) {
     return "#4a9eff";
-  } else if (atom.type.includes("Link")) {
+  } else if (atomTypes.isLink(atom.type)) {
     return "#ff6b6b";
   }
   return "#888";
 }
-
-function atomsEqual(a1: AtomNode, a2: AtomNode): boolean {
-  return a1.type === a2.type && a1.name === a2.name && a1.value === a2.value;
-}
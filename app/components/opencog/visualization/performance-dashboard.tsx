@@ -5,6 +5,7 @@
 
 import React, { useEffect, useState } from "react";
 import styles from "../opencog.module.scss";
+import { DemeStatistics } from "../../../opencog/reasoning";
 
 interface PerformanceMetrics {
   reasoning: {
@@ -23,6 +24,7 @@ interface PerformanceMetrics {
     populationSize: number;
     bestFitness: number;
     averageFitness: number;
+    demes: DemeStatistics[];
   };
   memory: {
     totalMemories: number;
@@ -134,6 +136,24 @@ export function PerformanceDashboard({
           <div className={styles.metricSubValue}>
             Avg: {metrics.evolution.averageFitness.toFixed(3)}
           </div>
+          {metrics.evolution.demes.length > 0 && (
+            <div className={styles.demeList}>
+              {metrics.evolution.demes.map((deme) => (
+                <div
+                  key={deme.id}
+                  className={styles.demeRow}
+                  title={deme.exemplar}
+                >
+                  <span>{deme.id}</span>
+                  <span>{deme.bestFitness.toFixed(3)}</span>
+                  <span>
+                    {deme.knobs} knobs · {deme.age} gen
+                    {deme.stagnation > 0 && ` · ${deme.stagnation} stale`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
         </div>
 
         {/* Memory Metrics */}
@@ -36,6 +36,7 @@ import { useNavigate } from "react-router-dom";
 import { nanoid } from "nanoid";
 import { LogLevel } from "@mlc-ai/web-llm";
 import { WebLLMContext } from "../context";
+import type { AttentionContextFormat } from "../opencog/reasoning";
 
 function EditPromptModal(props: { id: string; onClose: () => void }) {
   const promptStore = usePromptStore();
@@ -359,6 +360,58 @@ export function Settings() {
               }
             ></input>
           </ListItem>
+          <ListItem
+            title={Locale.Settings.AttentionContext.Title}
+            subTitle={Locale.Settings.AttentionContext.SubTitle}
+          >
+            <input
+              type="checkbox"
+              checked={config.sendAttentionContext}
+              onChange={(e) =>
+                config.update(
+                  (config) =>
+                    (config.sendAttentionContext = e.currentTarget.checked),
+                )
+              }
+            ></input>
+          </ListItem>
+          {config.sendAttentionContext && (
+            <>
+              <ListItem title={Locale.Settings.AttentionContext.Format}>
+                <Select
+                  value={config.attentionContextFormat}
+                  onChange={(e) =>
+                    config.update(
+                      (config) =>
+                        (config.attentionContextFormat = e.target
+                          .value as AttentionContextFormat),
+                    )
+                  }
+                >
+                  <option value="atomese">Atomese</option>
+                  <option value="metta">MeTTa</option>
+                </Select>
+              </ListItem>
+              <ListItem
+                title={Locale.Settings.AttentionContext.Size.Title}
+                subTitle={Locale.Settings.AttentionContext.Size.SubTitle}
+              >
+                <InputRange
+                  title={config.attentionContextSize.toString()}
+                  value={config.attentionContextSize}
+                  min="1"
+                  max="50"
+                  step="1"
+                  onChange={(e) =>
+                    config.update(
+                      (config) =>
+                        (config.attentionContextSize = e.target.valueAsNumber),
+                    )
+                  }
+                ></InputRange>
+              </ListItem>
+            </>
+          )}
         </List>
 
         <List>
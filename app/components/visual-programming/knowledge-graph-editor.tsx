@@ -4,12 +4,12 @@
  */
 
 import React, { useCallback, useEffect, useRef, useState } from "react";
-import { AtomNode, AtomType } from "../../opencog/types";
+import { AtomNode, AtomType, AtomTypeName } from "../../opencog/types";
 import styles from "./visual-programming.module.scss";
 
 interface GraphNode {
   id: string;
-  type: AtomType;
+  type: AtomTypeName;
   name: string;
   x: number;
   y: number;
@@ -181,7 +181,7 @@ export function KnowledgeGraphEditor({
   }, [nodes, edges, connecting, width, height]);
 
   // Get node color based on type
-  const getNodeColor = (type: AtomType): string => {
+  const getNodeColor = (type: AtomTypeName): string => {
     switch (type) {
       case AtomType.CONCEPT_NODE:
         return "#4CAF50";
@@ -67,6 +67,11 @@ Latex inline format: \\(x^2\\)
 Latex block format: $$e=mc^2$$
 `;
 
+export const ATTENTION_CONTEXT_TEMPLATE = `
+The following atoms from the OpenCog AtomSpace are currently in attentional focus, written in {{format}}. Use them as background knowledge where relevant:
+{{atoms}}
+`;
+
 export enum ModelFamily {
   LLAMA = "llama",
   PHI = "phi",
@@ -148,6 +148,16 @@ const en = {
       Title: "Inject System Prompts",
       SubTitle: "Inject a global system prompt for every request",
     },
+    AttentionContext: {
+      Title: "Attention Context",
+      SubTitle:
+        "Stimulate atoms mentioned in the chat and send the AtomSpace's attentional focus as context",
+      Format: "Attention Context Format",
+      Size: {
+        Title: "Attention Context Size",
+        SubTitle: "Maximum number of atoms sent as context",
+      },
+    },
     InputTemplate: {
       Title: "Input Template",
       SubTitle: "Newest message will be filled to this template",
@@ -277,6 +287,8 @@ const en = {
     Prompt: {
       History: (content: string) =>
         "This is a summary of the chat history as a recap: " + content,
+      Recall: (content: string) =>
+        "Summaries of earlier conversations that may be relevant:\n" + content,
       Topic:
         "Please generate a four to five word title summarizing our conversation without any lead-in, punctuation, quotation marks, periods, symbols, bold text, or additional text. Remove enclosing quotation marks.",
       Summarize:
@@ -13,6 +13,9 @@ import {
   Task,
   TaskStatus,
 } from "./types";
+import { AtomSpace } from "./atomspace";
+import { AtomeseParser } from "./atomese";
+import { PatternMatcher } from "./knowledge/pattern-matcher";
 
 export abstract class BaseAgent implements Agent {
   id: string;
@@ -80,6 +83,7 @@ export abstract class BaseAgent implements Agent {
       const result = await this.processTask(message.content, message.metadata);
 
       await this.sendMessage(result, message.senderId, MessageType.RESPONSE, {
+        taskId: message.metadata?.taskId,
         taskCompleted: true,
       });
 
@@ -92,7 +96,7 @@ export abstract class BaseAgent implements Agent {
         `Error: ${error instanceof Error ? error.message : "Unknown error"}`,
         message.senderId,
         MessageType.RESPONSE,
-        { taskFailed: true },
+        { taskId: message.metadata?.taskId, taskFailed: true },
       );
     }
   }
@@ -245,22 +249,29 @@ export class ReasoningAgent extends BaseAgent {
  */
 export class KnowledgeAgent extends BaseAgent {
   private cogServer: any;
+  private atomSpace?: AtomSpace;
 
-  constructor(cogServer: any) {
+  constructor(cogServer: any, atomSpace?: AtomSpace) {
     super("KnowledgeAgent", "knowledge-manager", [
       "query-atomspace",
       "add-knowledge",
       "update-knowledge",
       "search-knowledge",
+      "pattern-match",
     ]);
     this.cogServer = cogServer;
+    this.atomSpace = atomSpace;
   }
 
   protected async processTask(
     task: string,
     metadata?: Record<string, any>,
   ): Promise<string> {
-    const { operation } = metadata || {};
+    const { operation, limit, insert } = metadata || {};
+
+    if (operation === "pattern-match") {
+      return this.patternMatch(task, { limit, insert });
+    }
 
     if (operation === "query" && this.cogServer) {
       const result = await this.cogServer.query(task);
@@ -281,6 +292,37 @@ export class KnowledgeAgent extends BaseAgent {
 
     return `Knowledge base query: ${query}`;
   }
+
+  /**
+   * Run an Atomese GetLink/BindLink against the local AtomSpace and return
+   * the binding table as JSON, with atoms rendered as Atomese
+   */
+  private patternMatch(
+    query: string,
+    options: { limit?: number; insert?: boolean },
+  ): string {
+    if (!this.atomSpace) {
+      throw new Error("Pattern matching requires a local AtomSpace");
+    }
+
+    const table = new PatternMatcher(this.atomSpace).execute(
+      AtomeseParser.parse(query),
+      options,
+    );
+
+    return JSON.stringify({
+      variables: table.variables,
+      rows: table.rows.map((row) =>
+        Object.fromEntries(
+          Object.entries(row.bindings).map(([name, atom]) => [
+            name,
+            AtomeseParser.generate(atom),
+          ]),
+        ),
+      ),
+      produced: table.produced.map((atom) => AtomeseParser.generate(atom)),
+    });
+  }
 }
 
 /**
@@ -0,0 +1,307 @@
+/**
+ * Atom Type Hierarchy
+ * Registry of atom types with Node/Link classification and subtyping
+ */
+
+import { AtomType, AtomTypeName } from "./types";
+
+export interface AtomTypeInfo {
+  name: AtomTypeName;
+  parents: AtomTypeName[];
+  builtin: boolean;
+}
+
+/**
+ * Built-in type hierarchy, modelled on OpenCog's atom_types.script
+ */
+const BUILTIN_TYPES: [AtomType, AtomType[]][] = [
+  [AtomType.ATOM, []],
+  [AtomType.NODE, [AtomType.ATOM]],
+  [AtomType.LINK, [AtomType.ATOM]],
+  [AtomType.ORDERED_LINK, [AtomType.LINK]],
+  [AtomType.UNORDERED_LINK, [AtomType.LINK]],
+  [AtomType.SCOPE_LINK, [AtomType.LINK]],
+
+  [AtomType.CONCEPT_NODE, [AtomType.NODE]],
+  [AtomType.PREDICATE_NODE, [AtomType.NODE]],
+  [AtomType.VARIABLE_NODE, [AtomType.NODE]],
+  [AtomType.GLOB_NODE, [AtomType.NODE]],
+  [AtomType.NUMBER_NODE, [AtomType.NODE]],
+  [AtomType.TYPE_NODE, [AtomType.NODE]],
+  [AtomType.ANCHOR_NODE, [AtomType.NODE]],
+  [AtomType.SCHEMA_NODE, [AtomType.NODE]],
+  [AtomType.GROUNDED_SCHEMA_NODE, [AtomType.SCHEMA_NODE]],
+  [AtomType.DEFINED_SCHEMA_NODE, [AtomType.SCHEMA_NODE]],
+  [AtomType.GROUNDED_PREDICATE_NODE, [AtomType.PREDICATE_NODE]],
+  [AtomType.DEFINED_PREDICATE_NODE, [AtomType.PREDICATE_NODE]],
+
+  [AtomType.LIST_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.SET_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.MEMBER_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.SUBSET_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.INHERITANCE_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.INTENSIONAL_INHERITANCE_LINK, [AtomType.INHERITANCE_LINK]],
+  [AtomType.SIMILARITY_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.EVALUATION_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.EXECUTION_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.EXECUTION_OUTPUT_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.CONTEXT_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.IMPLICATION_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.EQUIVALENCE_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.AND_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.OR_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.NOT_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.TYPED_VARIABLE_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.VARIABLE_LIST, [AtomType.ORDERED_LINK]],
+  [AtomType.PRESENT_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.ABSENT_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.STATE_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.DEFINE_LINK, [AtomType.ORDERED_LINK]],
+  [AtomType.HEBBIAN_LINK, [AtomType.UNORDERED_LINK]],
+  [AtomType.ASYMMETRIC_HEBBIAN_LINK, [AtomType.ORDERED_LINK]],
+
+  [AtomType.LAMBDA_LINK, [AtomType.SCOPE_LINK]],
+  [AtomType.GET_LINK, [AtomType.SCOPE_LINK]],
+  [AtomType.BIND_LINK, [AtomType.SCOPE_LINK]],
+  [AtomType.FOR_ALL_LINK, [AtomType.SCOPE_LINK]],
+  [AtomType.EXISTS_LINK, [AtomType.SCOPE_LINK]],
+  [AtomType.IMPLICATION_SCOPE_LINK, [AtomType.SCOPE_LINK]],
+];
+
+/**
+ * Categories that only exist to structure the hierarchy
+ */
+const ABSTRACT_TYPES = new Set<AtomTypeName>([
+  AtomType.ATOM,
+  AtomType.NODE,
+  AtomType.LINK,
+  AtomType.ORDERED_LINK,
+  AtomType.UNORDERED_LINK,
+  AtomType.SCOPE_LINK,
+]);
+
+/**
+ * Atom Type Registry
+ * Unknown type names are never rewritten; they are classified as Node or
+ * Link by their suffix until registered explicitly.
+ */
+export class AtomTypeRegistry {
+  private types: Map<string, AtomTypeInfo> = new Map();
+  private lookup: Map<string, string> = new Map(); // lower-cased alias -> name
+
+  constructor() {
+    for (const [name, parents] of BUILTIN_TYPES) {
+      this.define(name, parents, true);
+    }
+  }
+
+  /**
+   * Register a user-defined type.
+   * Parents default to Node or Link depending on the name's suffix.
+   */
+  register(
+    name: string,
+    parents: AtomTypeName | AtomTypeName[] = inferParent(name),
+  ): AtomTypeInfo {
+    const parentList = Array.isArray(parents) ? parents : [parents];
+
+    for (const parent of parentList) {
+      if (!this.types.has(parent)) {
+        throw new Error(`Unknown parent type: ${parent}`);
+      }
+    }
+
+    const existing = this.types.get(name);
+    if (existing?.builtin) {
+      throw new Error(`Cannot redefine built-in type: ${name}`);
+    }
+
+    return this.define(name, parentList, false);
+  }
+
+  /**
+   * Remove a user-defined type
+   */
+  unregister(name: string): boolean {
+    const info = this.types.get(name);
+    if (!info || info.builtin) return false;
+
+    if (this.getSubtypes(name, false).length > 0) {
+      throw new Error(`Type ${name} still has subtypes`);
+    }
+
+    this.types.delete(name);
+    this.removeAliases(name);
+    return true;
+  }
+
+  /**
+   * Check if a type is registered
+   */
+  has(name: string): boolean {
+    return this.types.has(name);
+  }
+
+  /**
+   * Get registration info for a type
+   */
+  get(name: string): AtomTypeInfo | undefined {
+    return this.types.get(name);
+  }
+
+  /**
+   * Map a type name as written in source code to a registered type.
+   * Accepts exact names, case-insensitive names and names without the
+   * Node/Link suffix ("concept" -> ConceptNode). Unknown names are returned
+   * unchanged.
+   */
+  resolve(typeName: string): AtomTypeName {
+    if (this.types.has(typeName)) return typeName;
+
+    return this.lookup.get(typeName.toLowerCase()) ?? typeName;
+  }
+
+  /**
+   * Check whether `type` is `ancestor` or one of its subtypes
+   */
+  isA(type: AtomTypeName, ancestor: AtomTypeName): boolean {
+    if (type === ancestor) return true;
+
+    const visited = new Set<string>();
+    const queue = [...this.getParents(type)];
+
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      if (current === ancestor) return true;
+      if (visited.has(current)) continue;
+
+      visited.add(current);
+      queue.push(...this.getParents(current));
+    }
+
+    return false;
+  }
+
+  /**
+   * Check whether a type is a Node type
+   */
+  isNode(type: AtomTypeName): boolean {
+    return this.isA(type, AtomType.NODE);
+  }
+
+  /**
+   * Check whether a type is a Link type
+   */
+  isLink(type: AtomTypeName): boolean {
+    return this.isA(type, AtomType.LINK);
+  }
+
+  /**
+   * Get the direct parents of a type
+   */
+  getParents(type: AtomTypeName): AtomTypeName[] {
+    const info = this.types.get(type);
+    return info ? [...info.parents] : [inferParent(type)];
+  }
+
+  /**
+   * Get subtypes of a type
+   */
+  getSubtypes(type: AtomTypeName, recursive: boolean = true): AtomTypeName[] {
+    const result: AtomTypeName[] = [];
+
+    for (const info of this.types.values()) {
+      if (info.name === type) continue;
+
+      const isSubtype = recursive
+        ? this.isA(info.name, type)
+        : info.parents.includes(type);
+
+      if (isSubtype) {
+        result.push(info.name);
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Get all registered types
+   */
+  getTypes(): AtomTypeInfo[] {
+    return Array.from(this.types.values()).map((info) => ({
+      ...info,
+      parents: [...info.parents],
+    }));
+  }
+
+  /**
+   * Check whether a type is one of the abstract base categories
+   */
+  isAbstract(type: AtomTypeName): boolean {
+    return ABSTRACT_TYPES.has(type);
+  }
+
+  /**
+   * Get concrete Node types
+   */
+  getNodeTypes(): AtomTypeName[] {
+    return this.getSubtypes(AtomType.NODE).filter(
+      (type) => !this.isAbstract(type),
+    );
+  }
+
+  /**
+   * Get concrete Link types
+   */
+  getLinkTypes(): AtomTypeName[] {
+    return this.getSubtypes(AtomType.LINK).filter(
+      (type) => !this.isAbstract(type),
+    );
+  }
+
+  private define(
+    name: AtomTypeName,
+    parents: AtomTypeName[],
+    builtin: boolean,
+  ): AtomTypeInfo {
+    const info: AtomTypeInfo = { name, parents: [...parents], builtin };
+    this.types.set(name, info);
+
+    const lower = name.toLowerCase();
+    this.addAlias(lower, name);
+
+    const stripped = lower.replace(/(node|link)$/, "");
+    if (stripped && stripped !== lower) {
+      this.addAlias(stripped, name);
+    }
+
+    return info;
+  }
+
+  private addAlias(alias: string, name: string): void {
+    // First registration wins so user types never shadow built-ins
+    if (!this.lookup.has(alias)) {
+      this.lookup.set(alias, name);
+    }
+  }
+
+  private removeAliases(name: string): void {
+    for (const [alias, target] of Array.from(this.lookup.entries())) {
+      if (target === name) {
+        this.lookup.delete(alias);
+      }
+    }
+  }
+}
+
+/**
+ * Guess the parent of an unregistered type from its name
+ */
+function inferParent(name: string): AtomType {
+  if (name.endsWith("Node")) return AtomType.NODE;
+  if (name.endsWith("Link")) return AtomType.LINK;
+  return AtomType.ATOM;
+}
+
+export const atomTypes = new AtomTypeRegistry();
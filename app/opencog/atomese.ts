@@ -3,181 +3,231 @@
  * Handles conversion between Atomese S-expressions and structured data
  */
 
-import { AtomNode, AtomType, TruthValue } from "./types";
+import {
+  AtomNode,
+  AtomType,
+  AtomTypeName,
+  AttentionValue,
+  TruthValue,
+} from "./types";
+import { atomTypes } from "./atom-types";
+import {
+  VALUE_FORMS,
+  hasAttention,
+  isValueForm,
+  truthValueFromForm,
+} from "./truth-value";
+import {
+  ParseError,
+  SExpr,
+  SExprList,
+  SourcePosition,
+  quoteString,
+  readSExpr,
+  readSExprs,
+} from "./sexpr";
 
 export class AtomeseParser {
   /**
    * Parse Atomese S-expression string into structured AtomNode
    * Example: "(InheritanceLink (ConceptNode "cat") (ConceptNode "animal"))"
+   * A bare name ("cat") is accepted as shorthand for a ConceptNode.
+   * Throws ParseError with the source position on malformed input.
    */
   static parse(atomese: string): AtomNode {
-    const trimmed = atomese.trim();
+    return this.toAtom(readSExpr(atomese));
+  }
+
+  /**
+   * Parse every top-level atom in an Atomese file
+   */
+  static parseAll(atomese: string): AtomNode[] {
+    return readSExprs(atomese).map((expr) => {
+      if (expr.kind !== "list") {
+        throw new ParseError(`Unexpected token '${expr.text}'`, expr.start);
+      }
+      return this.toAtom(expr);
+    });
+  }
 
-    // Handle simple nodes without children
-    if (!trimmed.startsWith("(")) {
+  private static toAtom(expr: SExpr): AtomNode {
+    if (expr.kind !== "list") {
       return {
         type: AtomType.CONCEPT_NODE,
-        name: trimmed.replace(/"/g, ""),
+        name: expr.value,
       };
     }
 
-    // Parse S-expression
-    const tokens = this.tokenize(trimmed);
-    return this.parseTokens(tokens);
-  }
+    const [head, ...rest] = expr.items;
+    if (!head) {
+      throw new ParseError(
+        "Empty expression, expected an atom type",
+        expr.start,
+      );
+    }
+    if (head.kind !== "symbol") {
+      throw new ParseError(
+        head.kind === "list"
+          ? "Expected an atom type, found '('"
+          : `Expected an atom type, found string ${head.text}`,
+        head.start,
+      );
+    }
 
-  private static tokenize(str: string): string[] {
-    const tokens: string[] = [];
-    let current = "";
-    let inQuotes = false;
-    let depth = 0;
-
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i];
-
-      if (char === '"') {
-        inQuotes = !inQuotes;
-        current += char;
-      } else if (!inQuotes && char === "(") {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
-        }
-        depth++;
-        tokens.push("(");
-      } else if (!inQuotes && char === ")") {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
-        }
-        depth--;
-        tokens.push(")");
-      } else if (!inQuotes && /\s/.test(char)) {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
+    const type = this.parseAtomType(head.value);
+    const node: AtomNode = { type };
+
+    // Strip trailing truth/attention values
+    const items = [...rest];
+    while (items.length > 0) {
+      const form = this.valueForm(items[items.length - 1]);
+      if (!form) break;
+
+      const list = items.pop() as SExprList;
+      const [a, b, c] = this.parseNumbers(list, form);
+
+      if (form === "av") {
+        if (node.attentionValue) {
+          throw new ParseError("Duplicate attention value", list.start);
         }
+        node.attentionValue = { sti: a, lti: b, vlti: c };
       } else {
-        current += char;
+        if (node.truthValue) {
+          throw new ParseError("Duplicate truth value", list.start);
+        }
+        node.truthValue = truthValueFromForm(form, [a, b, c]);
       }
     }
 
-    if (current.trim()) {
-      tokens.push(current.trim());
+    const children = items.map((item) => this.toAtom(item));
+    node.children = children;
+
+    // Extract name from first child if it's a bare token and the type is
+    // not a Link (unknown types without a Node/Link suffix count as nodes)
+    if (
+      children.length > 0 &&
+      items[0].kind !== "list" &&
+      !atomTypes.isLink(type)
+    ) {
+      node.name = children[0].name;
+      node.children = children.slice(1);
     }
 
-    return tokens;
+    return node;
   }
 
-  private static parseTokens(tokens: string[]): AtomNode {
-    let index = 0;
+  /**
+   * Name of the value form (stv, av, ...) an expression denotes, if any
+   */
+  private static valueForm(expr: SExpr): string | null {
+    if (expr.kind !== "list") return null;
 
-    const parseNode = (): AtomNode => {
-      if (tokens[index] !== "(") {
-        const token = tokens[index++];
-        return {
-          type: AtomType.CONCEPT_NODE,
-          name: token.replace(/"/g, ""),
-        };
-      }
+    const head = expr.items[0];
+    if (head?.kind !== "symbol") return null;
 
-      index++; // skip '('
-      const typeName = tokens[index++];
-      const type = this.parseAtomType(typeName);
-      const children: AtomNode[] = [];
+    return isValueForm(head.value) ? head.value : null;
+  }
 
-      while (index < tokens.length && tokens[index] !== ")") {
-        children.push(parseNode());
-      }
+  private static parseNumbers(list: SExprList, form: string): number[] {
+    const args = list.items.slice(1);
+    const arity = VALUE_FORMS[form];
 
-      index++; // skip ')'
-
-      const node: AtomNode = { type, children };
-
-      // Extract name from first child if it's a simple node and type is a Node (not Link)
-      // Only do this for Node types, not Link types which have multiple children
-      if (
-        children.length > 0 &&
-        !children[0].children &&
-        (type === AtomType.CONCEPT_NODE ||
-          type === AtomType.PREDICATE_NODE ||
-          type === AtomType.VARIABLE_NODE)
-      ) {
-        node.name = children[0].name;
-        node.children = children.slice(1);
-      }
-
-      return node;
-    };
+    if (args.length !== arity) {
+      throw new ParseError(
+        `(${form} ...) expects ${arity} numbers, found ${args.length}`,
+        list.start,
+      );
+    }
 
-    return parseNode();
+    return args.map((arg) => {
+      const value = arg.kind === "symbol" ? Number(arg.value) : NaN;
+      if (isNaN(value)) {
+        throw new ParseError(`Expected a number in (${form} ...)`, arg.start);
+      }
+      return value;
+    });
   }
 
-  private static parseAtomType(typeName: string): AtomType {
-    const normalized = typeName.toUpperCase().replace(/LINK$|NODE$/, "");
-
-    switch (normalized) {
-      case "CONCEPT":
-        return AtomType.CONCEPT_NODE;
-      case "PREDICATE":
-        return AtomType.PREDICATE_NODE;
-      case "VARIABLE":
-        return AtomType.VARIABLE_NODE;
-      case "LIST":
-        return AtomType.LIST_LINK;
-      case "INHERITANCE":
-        return AtomType.INHERITANCE_LINK;
-      case "SIMILARITY":
-        return AtomType.SIMILARITY_LINK;
-      case "EVALUATION":
-        return AtomType.EVALUATION_LINK;
-      case "IMPLICATION":
-        return AtomType.IMPLICATION_LINK;
-      case "AND":
-        return AtomType.AND_LINK;
-      case "OR":
-        return AtomType.OR_LINK;
-      case "NOT":
-        return AtomType.NOT_LINK;
-      default:
-        return AtomType.CONCEPT_NODE;
-    }
+  /**
+   * Resolve a type name against the type registry.
+   * Unknown types are preserved rather than downgraded to ConceptNode.
+   */
+  private static parseAtomType(typeName: string): AtomTypeName {
+    return atomTypes.resolve(typeName);
   }
 
   /**
    * Generate Atomese S-expression from AtomNode structure
    */
   static generate(node: AtomNode): string {
+    const values =
+      this.generateTruthValue(node.truthValue) +
+      this.generateAttentionValue(node.attentionValue);
+
+    if (atomTypes.isLink(node.type) && !node.children?.length) {
+      return `(${node.type}${values})`;
+    }
+
     if (!node.children || node.children.length === 0) {
-      const name = node.name ? `"${node.name}"` : '""';
-      return `(${node.type} ${name}${this.generateTruthValue(node.truthValue)})`;
+      const name = quoteString(node.name || "");
+      return `(${node.type} ${name}${values})`;
     }
 
     const childrenStr = node.children
       .map((child) => this.generate(child))
       .join(" ");
 
-    const name = node.name ? ` "${node.name}"` : "";
-    return `(${node.type}${name} ${childrenStr}${this.generateTruthValue(node.truthValue)})`;
+    const name = node.name ? ` ${quoteString(node.name)}` : "";
+    return `(${node.type}${name} ${childrenStr}${values})`;
   }
 
   private static generateTruthValue(tv?: TruthValue): string {
     if (!tv) return "";
-    return ` (stv ${tv.strength.toFixed(3)} ${tv.confidence.toFixed(3)})`;
+
+    const s = tv.strength.toFixed(3);
+    const c = tv.confidence.toFixed(3);
+
+    switch (tv.kind) {
+      case "count":
+        return ` (ctv ${s} ${c} ${formatNumber(tv.count)})`;
+      case "indefinite":
+        return ` (itv ${tv.lower.toFixed(3)} ${tv.upper.toFixed(3)} ${tv.confidenceLevel.toFixed(3)})`;
+      case "fuzzy":
+        return ` (ftv ${s} ${c})`;
+      default:
+        return ` (stv ${s} ${c})`;
+    }
+  }
+
+  private static generateAttentionValue(av?: AttentionValue): string {
+    if (!hasAttention(av)) return "";
+    return ` (av ${formatNumber(av.sti)} ${formatNumber(av.lti)} ${formatNumber(av.vlti)})`;
   }
 
   /**
    * Validate Atomese syntax
    */
-  static validate(atomese: string): { valid: boolean; error?: string } {
+  static validate(atomese: string): {
+    valid: boolean;
+    error?: string;
+    position?: SourcePosition;
+  } {
     try {
-      this.parse(atomese);
+      this.parseAll(atomese);
       return { valid: true };
     } catch (error) {
       return {
         valid: false,
         error: error instanceof Error ? error.message : "Invalid Atomese",
+        position: error instanceof ParseError ? error.position : undefined,
       };
     }
   }
 }
+
+/**
+ * Format a number with at most three decimals and no trailing zeros
+ */
+function formatNumber(value: number): string {
+  return String(Math.round(value * 1000) / 1000);
+}
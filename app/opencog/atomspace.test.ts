@@ -0,0 +1,95 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtomSpace, AtomSpaceEvent, atomHandle, sameAtom } from "./atomspace";
+import { simpleTV } from "./truth-value";
+import { AtomNode } from "./types";
+
+const concept = (name: string): AtomNode => ({ type: "ConceptNode", name });
+const inheritance = (a: string, b: string): AtomNode => ({
+  type: "InheritanceLink",
+  children: [concept(a), concept(b)],
+});
+
+describe("atomHandle", () => {
+  it("ignores truth and attention values", () => {
+    expect(
+      atomHandle({ ...concept("cat"), truthValue: simpleTV(0.9, 0.8) }),
+    ).toBe(atomHandle(concept("cat")));
+  });
+
+  it("tells atoms apart by type, name and outgoing set", () => {
+    expect(
+      sameAtom(concept("cat"), { type: "PredicateNode", name: "cat" }),
+    ).toBe(false);
+    expect(
+      sameAtom(inheritance("cat", "animal"), inheritance("animal", "cat")),
+    ).toBe(false);
+  });
+
+  it("ignores the order of an unordered link's outgoing set", () => {
+    for (const type of ["SetLink", "SimilarityLink", "AndLink", "OrLink"]) {
+      expect(atomHandle({ type, children: [concept("x"), concept("y")] })).toBe(
+        atomHandle({ type, children: [concept("y"), concept("x")] }),
+      );
+    }
+  });
+});
+
+describe("AtomSpace", () => {
+  it("stores structurally equal atoms once", () => {
+    const space = new AtomSpace();
+    const first = space.add(inheritance("cat", "animal"));
+    const second = space.add(inheritance("cat", "animal"));
+
+    expect(second).toBe(first);
+    expect(space.size).toBe(3);
+  });
+
+  it("stores both orderings of an unordered link once", () => {
+    const space = new AtomSpace();
+    const first = space.add({
+      type: "SetLink",
+      children: [concept("x"), concept("y")],
+    });
+    const second = space.add({
+      type: "SetLink",
+      children: [concept("y"), concept("x")],
+    });
+
+    expect(second).toBe(first);
+    expect(space.getByType("SetLink")).toHaveLength(1);
+  });
+
+  it("shares stored children between parents", () => {
+    const space = new AtomSpace();
+    space.add(inheritance("cat", "animal"));
+    space.add(inheritance("dog", "animal"));
+
+    const animal = space.getHandle(concept("animal"))!;
+    expect(space.getIncoming(animal)).toHaveLength(2);
+    expect(space.getByName("animal")).toEqual([animal]);
+    expect(space.getByType("ConceptNode")).toHaveLength(3);
+  });
+
+  it("replaces the truth value of an existing atom", () => {
+    const space = new AtomSpace();
+    const events: AtomSpaceEvent["type"][] = [];
+    space.on("*", (event) => events.push(event.type));
+
+    const handle = space.add(concept("cat"));
+    space.add({ ...concept("cat"), truthValue: simpleTV(0.7, 0.5) });
+
+    expect(space.get(handle)?.truthValue).toEqual(simpleTV(0.7, 0.5));
+    expect(events).toEqual(["add", "update"]);
+  });
+
+  it("keeps referenced atoms unless removal is recursive", () => {
+    const space = new AtomSpace();
+    const link = space.add(inheritance("cat", "animal"));
+    const cat = space.getHandle(concept("cat"))!;
+
+    expect(space.remove(cat)).toBe(false);
+    expect(space.remove(cat, true)).toBe(true);
+    expect(space.has(link)).toBe(false);
+    expect(space.getIncoming(space.getHandle(concept("animal"))!)).toEqual([]);
+  });
+});
@@ -0,0 +1,324 @@
+/**
+ * AtomSpace
+ * Indexed, deduplicating atom container with content-addressed handles
+ */
+
+import SparkMD5 from "spark-md5";
+import { AtomNode, AtomType, TruthValue } from "./types";
+import { atomTypes } from "./atom-types";
+import { truthValuesEqual } from "./truth-value";
+
+/**
+ * Stable identifier of an atom, derived from its type, name, value and
+ * outgoing set. Two structurally equal atoms always share the same handle;
+ * the order of an unordered link's outgoing set does not matter.
+ */
+export type AtomHandle = string;
+
+export type AtomSpaceEventType = "add" | "update" | "remove";
+
+export interface AtomSpaceEvent {
+  type: AtomSpaceEventType;
+  handle: AtomHandle;
+  atom: AtomNode;
+}
+
+export type AtomSpaceListener = (event: AtomSpaceEvent) => void;
+
+interface AtomRecord {
+  atom: AtomNode;
+  outgoing: AtomHandle[];
+}
+
+// Handles of atoms already hashed; an atom's type, name, value and
+// children are not changed once it has been built
+const handles = new WeakMap<AtomNode, AtomHandle>();
+
+/**
+ * Compute the content-addressed handle of an atom.
+ * Truth values and attention values are not part of an atom's identity.
+ */
+export function atomHandle(atom: AtomNode): AtomHandle {
+  let handle = handles.get(atom);
+  if (handle === undefined) {
+    handle = computeHandle(atom, (atom.children || []).map(atomHandle));
+    handles.set(atom, handle);
+  }
+  return handle;
+}
+
+function computeHandle(atom: AtomNode, outgoing: AtomHandle[]): AtomHandle {
+  const unordered = atomTypes.isA(atom.type, AtomType.UNORDERED_LINK);
+  return SparkMD5.hash(
+    JSON.stringify([
+      atom.type,
+      atom.name ?? null,
+      atom.value ?? null,
+      unordered ? [...outgoing].sort() : outgoing,
+    ]),
+  );
+}
+
+/**
+ * Check whether two atoms denote the same atom
+ */
+export function sameAtom(atom1: AtomNode, atom2: AtomNode): boolean {
+  return atomHandle(atom1) === atomHandle(atom2);
+}
+
+/**
+ * AtomSpace
+ * Every atom is stored once. Links reference the stored instances of their
+ * children, so an atom's outgoing set is shared by all of its parents.
+ */
+export class AtomSpace {
+  private atoms: Map<AtomHandle, AtomRecord> = new Map();
+  private incoming: Map<AtomHandle, Set<AtomHandle>> = new Map();
+  private typeIndex: Map<string, Set<AtomHandle>> = new Map();
+  private nameIndex: Map<string, Set<AtomHandle>> = new Map();
+  private listeners: Map<AtomSpaceEventType | "*", Set<AtomSpaceListener>> =
+    new Map();
+
+  /**
+   * Add an atom (and, recursively, its outgoing set).
+   * Returns the handle of the stored atom. If the atom already exists, the
+   * provided truth value replaces the stored one.
+   */
+  add(atom: AtomNode): AtomHandle {
+    const outgoing = (atom.children || []).map((child) => this.add(child));
+    const handle = computeHandle(atom, outgoing);
+
+    const existing = this.atoms.get(handle);
+    if (existing) {
+      if (
+        atom.truthValue &&
+        !truthValuesEqual(atom.truthValue, existing.atom.truthValue)
+      ) {
+        existing.atom.truthValue = { ...atom.truthValue };
+        this.emit({ type: "update", handle, atom: existing.atom });
+      }
+      return handle;
+    }
+
+    const stored: AtomNode = { type: atom.type };
+    if (atom.name !== undefined) stored.name = atom.name;
+    if (atom.value !== undefined) stored.value = atom.value;
+    if (outgoing.length > 0) {
+      stored.children = outgoing.map((h) => this.atoms.get(h)!.atom);
+    }
+    if (atom.truthValue) stored.truthValue = { ...atom.truthValue };
+    if (atom.attentionValue) stored.attentionValue = { ...atom.attentionValue };
+
+    handles.set(stored, handle);
+    this.atoms.set(handle, { atom: stored, outgoing });
+    addToIndex(this.typeIndex, stored.type, handle);
+    if (stored.name !== undefined) {
+      addToIndex(this.nameIndex, stored.name, handle);
+    }
+    for (const child of new Set(outgoing)) {
+      addToIndex(this.incoming, child, handle);
+    }
+
+    this.emit({ type: "add", handle, atom: stored });
+    return handle;
+  }
+
+  /**
+   * Remove an atom. Atoms that are still referenced by links are only
+   * removed when `recursive` is set, in which case their parents go too.
+   */
+  remove(handle: AtomHandle, recursive: boolean = false): boolean {
+    const record = this.atoms.get(handle);
+    if (!record) return false;
+
+    const parents = this.incoming.get(handle);
+    if (parents && parents.size > 0) {
+      if (!recursive) return false;
+      for (const parent of Array.from(parents)) {
+        this.remove(parent, true);
+      }
+    }
+
+    this.atoms.delete(handle);
+    this.incoming.delete(handle);
+    removeFromIndex(this.typeIndex, record.atom.type, handle);
+    if (record.atom.name !== undefined) {
+      removeFromIndex(this.nameIndex, record.atom.name, handle);
+    }
+    for (const child of new Set(record.outgoing)) {
+      removeFromIndex(this.incoming, child, handle);
+    }
+
+    this.emit({ type: "remove", handle, atom: record.atom });
+    return true;
+  }
+
+  /**
+   * Get the stored atom for a handle
+   */
+  get(handle: AtomHandle): AtomNode | undefined {
+    return this.atoms.get(handle)?.atom;
+  }
+
+  /**
+   * Check whether a handle is present
+   */
+  has(handle: AtomHandle): boolean {
+    return this.atoms.has(handle);
+  }
+
+  /**
+   * Look up the handle of an atom if it is present in this AtomSpace
+   */
+  getHandle(atom: AtomNode): AtomHandle | undefined {
+    const handle = atomHandle(atom);
+    return this.atoms.has(handle) ? handle : undefined;
+  }
+
+  /**
+   * Get the stored instance of an atom that is structurally equal to `atom`
+   */
+  find(atom: AtomNode): AtomNode | undefined {
+    return this.get(atomHandle(atom));
+  }
+
+  /**
+   * Get handles of the links that contain this atom
+   */
+  getIncoming(handle: AtomHandle): AtomHandle[] {
+    return Array.from(this.incoming.get(handle) || []);
+  }
+
+  /**
+   * Get handles of the atoms this link points to, in order
+   */
+  getOutgoing(handle: AtomHandle): AtomHandle[] {
+    return [...(this.atoms.get(handle)?.outgoing || [])];
+  }
+
+  /**
+   * Get handles of all atoms of a type
+   */
+  getByType(type: string): AtomHandle[] {
+    return Array.from(this.typeIndex.get(type) || []);
+  }
+
+  /**
+   * Get the types of the stored atoms, registered or not
+   */
+  getTypes(): string[] {
+    return Array.from(this.typeIndex.keys());
+  }
+
+  /**
+   * Get handles of all atoms with a name
+   */
+  getByName(name: string): AtomHandle[] {
+    return Array.from(this.nameIndex.get(name) || []);
+  }
+
+  /**
+   * Set the truth value of a stored atom
+   */
+  setTruthValue(handle: AtomHandle, truthValue: TruthValue): boolean {
+    const record = this.atoms.get(handle);
+    if (!record) return false;
+
+    record.atom.truthValue = { ...truthValue };
+    this.emit({ type: "update", handle, atom: record.atom });
+    return true;
+  }
+
+  /**
+   * Get all handles
+   */
+  getHandles(): AtomHandle[] {
+    return Array.from(this.atoms.keys());
+  }
+
+  /**
+   * Get all stored atoms
+   */
+  getAtoms(): AtomNode[] {
+    return Array.from(this.atoms.values()).map((record) => record.atom);
+  }
+
+  /**
+   * Get atoms that are not part of any link
+   */
+  getRootAtoms(): AtomNode[] {
+    return Array.from(this.atoms.entries())
+      .filter(([handle]) => !this.incoming.get(handle)?.size)
+      .map(([, record]) => record.atom);
+  }
+
+  /**
+   * Number of stored atoms
+   */
+  get size(): number {
+    return this.atoms.size;
+  }
+
+  /**
+   * Remove all atoms
+   */
+  clear(): void {
+    const removed = Array.from(this.atoms.entries());
+
+    this.atoms.clear();
+    this.incoming.clear();
+    this.typeIndex.clear();
+    this.nameIndex.clear();
+
+    for (const [handle, record] of removed) {
+      this.emit({ type: "remove", handle, atom: record.atom });
+    }
+  }
+
+  /**
+   * Register a change listener. Use "*" to receive every event.
+   */
+  on(type: AtomSpaceEventType | "*", listener: AtomSpaceListener): void {
+    if (!this.listeners.has(type)) {
+      this.listeners.set(type, new Set());
+    }
+    this.listeners.get(type)!.add(listener);
+  }
+
+  /**
+   * Unregister a change listener
+   */
+  off(type: AtomSpaceEventType | "*", listener: AtomSpaceListener): void {
+    this.listeners.get(type)?.delete(listener);
+  }
+
+  private emit(event: AtomSpaceEvent): void {
+    this.listeners.get(event.type)?.forEach((listener) => listener(event));
+    this.listeners.get("*")?.forEach((listener) => listener(event));
+  }
+}
+
+function addToIndex<K>(
+  index: Map<K, Set<AtomHandle>>,
+  key: K,
+  handle: AtomHandle,
+): void {
+  if (!index.has(key)) {
+    index.set(key, new Set());
+  }
+  index.get(key)!.add(handle);
+}
+
+function removeFromIndex<K>(
+  index: Map<K, Set<AtomHandle>>,
+  key: K,
+  handle: AtomHandle,
+): void {
+  const handles = index.get(key);
+  if (!handles) return;
+
+  handles.delete(handle);
+  if (handles.size === 0) {
+    index.delete(key);
+  }
+}
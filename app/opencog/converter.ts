@@ -0,0 +1,521 @@
+/**
+ * Atomese <-> MeTTa Converter
+ * Structural, lossless mapping between AtomNode trees and MeTTa expressions
+ *
+ * Mapping (Atomese -> MeTTa):
+ *   (ConceptNode "cat")            cat          when the name is a plain symbol
+ *   (ConceptNode "big cat")        "big cat"    any other name
+ *   (VariableNode "$x")            $x
+ *   (NumberNode "42")              42
+ *   (GroundedSchemaNode "+")       +            grounded symbols (+, match, &self)
+ *   (PredicateNode "likes")        (PredicateNode "likes")    other nodes
+ *   (InheritanceLink A B)          (Inheritance A B)          "Link" dropped
+ *   (MemberLink A B)               (: A B)      type declarations
+ *   (EvaluationLink (PredicateNode "likes") (ListLink A B))
+ *                                  (likes A B)
+ *   (ExecutionOutputLink (GroundedSchemaNode "+") (ListLink A B))
+ *                                  (+ A B)
+ *   Types that cannot be written as a head are escaped as (Atom Type ...).
+ *
+ * Truth and attention values trail the expression exactly as in Atomese,
+ * e.g. (Inheritance cat animal (stv 0.9 0.8)). A node carrying values is
+ * written in its explicit form: (ConceptNode "cat" (stv 0.9 0.8)).
+ *
+ * Round-trip guarantee: for every tree produced by AtomeseParser,
+ * toAtom(toMetta(atom)) is identical to atom. Names on links and `value`
+ * payloads have no Atomese syntax either and are not represented.
+ * MeTTa -> Atomese -> MeTTa is identical except that string literals which
+ * are plain symbols lose their quotes, expressions with a non-symbol head
+ * are read as a ListLink, and the top-level `!` marker is dropped.
+ */
+
+import {
+  AtomNode,
+  AtomType,
+  AtomTypeName,
+  AttentionValue,
+  MeTTaExpression,
+  TruthValue,
+} from "./types";
+import { atomTypes } from "./atom-types";
+import { AtomeseParser } from "./atomese";
+import { MeTTaParser } from "./metta";
+import {
+  VALUE_FORMS,
+  hasAttention,
+  isValueForm,
+  truthValueFromForm,
+  truthValueToForm,
+} from "./truth-value";
+
+/**
+ * Head of the escape form for types without a usable head symbol
+ */
+const ESCAPE_HEAD = "Atom";
+
+/**
+ * Head used for MemberLink, MeTTa's type declaration
+ */
+const TYPE_DECLARATION_HEAD = ":";
+
+type HeadKind = { kind: "node" | "link"; type: AtomTypeName };
+
+export class AtomeseMeTTaConverter {
+  /**
+   * Convert an atom tree to a MeTTa expression
+   */
+  static toMetta(atom: AtomNode): MeTTaExpression {
+    return this.atomToExpression(atom, false);
+  }
+
+  /**
+   * Convert a MeTTa expression to an atom tree
+   */
+  static toAtom(expr: MeTTaExpression): AtomNode {
+    if (!Array.isArray(expr.value)) {
+      return this.tokenToAtom(expr);
+    }
+
+    const items = [...expr.value];
+    const values = this.stripValues(items);
+    const atom = this.expressionToAtom(items);
+
+    if (values.truthValue) atom.truthValue = values.truthValue;
+    if (values.attentionValue) atom.attentionValue = values.attentionValue;
+    return atom;
+  }
+
+  /**
+   * Translate every top-level atom of an Atomese source to MeTTa text
+   */
+  static atomeseToMetta(atomese: string): string {
+    return AtomeseParser.parseAll(atomese)
+      .map((atom) => MeTTaParser.generate(this.toMetta(atom)))
+      .join("\n");
+  }
+
+  /**
+   * Translate every top-level expression of a MeTTa source to Atomese text
+   */
+  static mettaToAtomese(metta: string): string {
+    return MeTTaParser.parseAll(metta)
+      .map((expr) => AtomeseParser.generate(this.toAtom(expr)))
+      .join("\n");
+  }
+
+  private static atomToExpression(
+    atom: AtomNode,
+    explicit: boolean,
+  ): MeTTaExpression {
+    const values = this.valueExpressions(atom);
+    const children = atom.children || [];
+
+    if (!atomTypes.isLink(atom.type)) {
+      if (!explicit && values.length === 0 && children.length === 0) {
+        const token = this.nodeToken(atom);
+        if (token) return token;
+      }
+
+      // Explicit node form; the name slot is only present when named, so an
+      // unnamed node must not start its children with a bare token
+      const name: MeTTaExpression[] =
+        atom.name !== undefined ? [{ type: "string", value: atom.name }] : [];
+      const args = children.map((child, index) =>
+        this.atomToExpression(child, index === 0 && atom.name === undefined),
+      );
+
+      return expression([
+        ...this.headFor(atom.type, "node"),
+        ...name,
+        ...args,
+        ...values,
+      ]);
+    }
+
+    const call = this.callForm(atom);
+    if (call) {
+      return expression([
+        call.head,
+        ...call.args.map((arg) => this.atomToExpression(arg, false)),
+        ...values,
+      ]);
+    }
+
+    return expression([
+      ...this.headFor(atom.type, "link"),
+      ...children.map((child) => this.atomToExpression(child, false)),
+      ...values,
+    ]);
+  }
+
+  /**
+   * Bare token for an unadorned node, if its type has one
+   */
+  private static nodeToken(atom: AtomNode): MeTTaExpression | null {
+    const name = atom.name;
+    if (name === undefined) return null;
+
+    const kind = isBareToken(name) ? MeTTaParser.classifyToken(name) : null;
+
+    switch (atom.type) {
+      case AtomType.CONCEPT_NODE:
+        return kind === "symbol"
+          ? { type: "symbol", value: name }
+          : { type: "string", value: name };
+      case AtomType.VARIABLE_NODE:
+        return kind === "variable" ? { type: "variable", value: name } : null;
+      case AtomType.NUMBER_NODE:
+        return kind === "number" ? { type: "number", value: name } : null;
+      case AtomType.GROUNDED_SCHEMA_NODE:
+        return kind === "grounded" ? { type: "grounded", value: name } : null;
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Evaluation and execution links written as MeTTa calls: (f args...)
+   */
+  private static callForm(
+    atom: AtomNode,
+  ): { head: MeTTaExpression; args: AtomNode[] } | null {
+    const [operator, list, ...rest] = atom.children || [];
+    if (!operator || !list || rest.length > 0) return null;
+
+    if (
+      list.type !== AtomType.LIST_LINK ||
+      list.name !== undefined ||
+      hasValues(list) ||
+      hasValues(operator) ||
+      operator.children?.length ||
+      operator.name === undefined ||
+      !isBareToken(operator.name)
+    ) {
+      return null;
+    }
+
+    const name = operator.name;
+    const kind = MeTTaParser.classifyToken(name);
+    let matches = false;
+
+    if (atom.type === AtomType.EVALUATION_LINK) {
+      matches =
+        (operator.type === AtomType.PREDICATE_NODE &&
+          kind === "symbol" &&
+          !isReservedHead(name)) ||
+        (operator.type === AtomType.VARIABLE_NODE && kind === "variable");
+    } else if (atom.type === AtomType.EXECUTION_OUTPUT_LINK) {
+      matches =
+        operator.type === AtomType.GROUNDED_SCHEMA_NODE && kind === "grounded";
+    }
+
+    return matches
+      ? { head: { type: kind, value: name }, args: list.children || [] }
+      : null;
+  }
+
+  /**
+   * Head symbol(s) naming a type, falling back to the (Atom Type ...) escape
+   */
+  private static headFor(
+    type: AtomTypeName,
+    kind: HeadKind["kind"],
+  ): MeTTaExpression[] {
+    const candidates: string[] = [];
+
+    if (kind === "link") {
+      if (type === AtomType.MEMBER_LINK) {
+        candidates.push(TYPE_DECLARATION_HEAD);
+      }
+      if (type.endsWith("Link")) {
+        candidates.push(type.slice(0, -"Link".length));
+      }
+    }
+    candidates.push(type);
+
+    for (const candidate of candidates) {
+      const head = headKind(candidate);
+      if (isBareToken(candidate) && head?.kind === kind && head.type === type) {
+        return [{ type: "symbol", value: candidate }];
+      }
+    }
+
+    return [
+      { type: "symbol", value: ESCAPE_HEAD },
+      { type: "symbol", value: type },
+    ];
+  }
+
+  private static valueExpressions(atom: AtomNode): MeTTaExpression[] {
+    const values: MeTTaExpression[] = [];
+
+    if (atom.truthValue) {
+      const [form, args] = truthValueToForm(atom.truthValue);
+      values.push(valueForm(form, args));
+    }
+    if (hasAttention(atom.attentionValue)) {
+      const { sti, lti, vlti } = atom.attentionValue;
+      values.push(valueForm("av", [sti, lti, vlti]));
+    }
+
+    return values;
+  }
+
+  private static tokenToAtom(expr: MeTTaExpression): AtomNode {
+    const value = String(expr.value);
+
+    switch (expr.type) {
+      case "variable":
+        return node(AtomType.VARIABLE_NODE, value);
+      case "number":
+        return node(AtomType.NUMBER_NODE, value);
+      case "grounded":
+        return node(AtomType.GROUNDED_SCHEMA_NODE, value);
+      default:
+        return node(AtomType.CONCEPT_NODE, value);
+    }
+  }
+
+  private static expressionToAtom(items: MeTTaExpression[]): AtomNode {
+    const [head, ...args] = items;
+
+    if (!head || Array.isArray(head.value)) {
+      return link(
+        AtomType.LIST_LINK,
+        items.map((item) => this.toAtom(item)),
+      );
+    }
+
+    const name = String(head.value);
+
+    if (head.type === "symbol" || head.type === "atom") {
+      if (name === ESCAPE_HEAD) {
+        return this.escapedToAtom(args);
+      }
+
+      const kind = headKind(name);
+      if (kind?.kind === "link") {
+        return link(
+          kind.type,
+          args.map((arg) => this.toAtom(arg)),
+        );
+      }
+      if (kind?.kind === "node") {
+        return this.nodeFormToAtom(kind.type, args);
+      }
+    }
+
+    switch (head.type) {
+      case "symbol":
+      case "atom":
+        return this.callToAtom(
+          AtomType.EVALUATION_LINK,
+          node(AtomType.PREDICATE_NODE, name),
+          args,
+        );
+      case "variable":
+        return this.callToAtom(
+          AtomType.EVALUATION_LINK,
+          node(AtomType.VARIABLE_NODE, name),
+          args,
+        );
+      case "grounded":
+        return this.callToAtom(
+          AtomType.EXECUTION_OUTPUT_LINK,
+          node(AtomType.GROUNDED_SCHEMA_NODE, name),
+          args,
+        );
+      default:
+        return link(
+          AtomType.LIST_LINK,
+          items.map((item) => this.toAtom(item)),
+        );
+    }
+  }
+
+  private static callToAtom(
+    type: AtomTypeName,
+    operator: AtomNode,
+    args: MeTTaExpression[],
+  ): AtomNode {
+    return link(type, [
+      operator,
+      link(
+        AtomType.LIST_LINK,
+        args.map((arg) => this.toAtom(arg)),
+      ),
+    ]);
+  }
+
+  /**
+   * (Atom Type ...) escape form
+   */
+  private static escapedToAtom(args: MeTTaExpression[]): AtomNode {
+    const [typeExpr, ...rest] = args;
+    if (
+      !typeExpr ||
+      Array.isArray(typeExpr.value) ||
+      typeExpr.type === "string"
+    ) {
+      throw new Error(`(${ESCAPE_HEAD} ...) expects an atom type symbol`);
+    }
+
+    const type = String(typeExpr.value);
+    return atomTypes.isLink(type)
+      ? link(
+          type,
+          rest.map((arg) => this.toAtom(arg)),
+        )
+      : this.nodeFormToAtom(type, rest);
+  }
+
+  /**
+   * Explicit node form: (Type "name" children...)
+   */
+  private static nodeFormToAtom(
+    type: AtomTypeName,
+    args: MeTTaExpression[],
+  ): AtomNode {
+    const [first, ...rest] = args;
+
+    if (first && !Array.isArray(first.value)) {
+      return {
+        type,
+        name: String(first.value),
+        children: rest.map((arg) => this.toAtom(arg)),
+      };
+    }
+
+    return { type, children: args.map((arg) => this.toAtom(arg)) };
+  }
+
+  /**
+   * Remove trailing (stv ...)/(av ...) forms and return their values
+   */
+  private static stripValues(items: MeTTaExpression[]): {
+    truthValue?: TruthValue;
+    attentionValue?: AttentionValue;
+  } {
+    const values: {
+      truthValue?: TruthValue;
+      attentionValue?: AttentionValue;
+    } = {};
+
+    while (items.length > 0) {
+      const last = items[items.length - 1];
+      const form = valueFormName(last);
+      if (!form) break;
+
+      items.pop();
+      const args = parseValueArgs(last.value as MeTTaExpression[], form);
+
+      if (form === "av") {
+        if (values.attentionValue) {
+          throw new Error("Duplicate attention value");
+        }
+        values.attentionValue = { sti: args[0], lti: args[1], vlti: args[2] };
+      } else {
+        if (values.truthValue) {
+          throw new Error("Duplicate truth value");
+        }
+        values.truthValue = truthValueFromForm(form, args);
+      }
+    }
+
+    return values;
+  }
+}
+
+/**
+ * Classify a head symbol as naming a Node or Link type.
+ * Accepts full type names, Link types without the suffix and ":".
+ */
+function headKind(symbol: string): HeadKind | null {
+  if (symbol === TYPE_DECLARATION_HEAD) {
+    return { kind: "link", type: AtomType.MEMBER_LINK };
+  }
+
+  if (atomTypes.has(symbol)) {
+    if (atomTypes.isLink(symbol)) return { kind: "link", type: symbol };
+    if (atomTypes.isNode(symbol)) return { kind: "node", type: symbol };
+    return null;
+  }
+
+  const linkType = `${symbol}Link`;
+  if (atomTypes.has(linkType) && atomTypes.isLink(linkType)) {
+    return { kind: "link", type: linkType };
+  }
+
+  if (symbol.endsWith("Link")) return { kind: "link", type: symbol };
+  if (symbol.endsWith("Node")) return { kind: "node", type: symbol };
+  return null;
+}
+
+/**
+ * Whether a predicate name would be read back as something other than
+ * an EvaluationLink call
+ */
+function isReservedHead(name: string): boolean {
+  return name === ESCAPE_HEAD || isValueForm(name) || headKind(name) !== null;
+}
+
+/**
+ * Whether text survives the MeTTa tokenizer as a single bare token
+ */
+function isBareToken(text: string): boolean {
+  return text.length > 0 && !text.startsWith("!") && !/[\s()";]/.test(text);
+}
+
+function hasValues(atom: AtomNode): boolean {
+  return Boolean(atom.truthValue || hasAttention(atom.attentionValue));
+}
+
+function valueFormName(expr: MeTTaExpression): string | null {
+  if (!Array.isArray(expr.value)) return null;
+
+  const head = expr.value[0];
+  if (!head || Array.isArray(head.value) || head.type === "string") {
+    return null;
+  }
+
+  const name = String(head.value);
+  return isValueForm(name) ? name : null;
+}
+
+function parseValueArgs(items: MeTTaExpression[], form: string): number[] {
+  const args = items.slice(1);
+  const arity = VALUE_FORMS[form];
+
+  if (args.length !== arity) {
+    throw new Error(
+      `(${form} ...) expects ${arity} numbers, found ${args.length}`,
+    );
+  }
+
+  return args.map((arg) => {
+    const value = Array.isArray(arg.value) ? NaN : Number(arg.value);
+    if (isNaN(value)) {
+      throw new Error(`Expected a number in (${form} ...)`);
+    }
+    return value;
+  });
+}
+
+function valueForm(form: string, args: number[]): MeTTaExpression {
+  return expression([
+    { type: "symbol", value: form },
+    ...args.map((arg) => MeTTaParser.atom(String(arg))),
+  ]);
+}
+
+function expression(items: MeTTaExpression[]): MeTTaExpression {
+  return { type: "expression", value: items };
+}
+
+function node(type: AtomTypeName, name: string): AtomNode {
+  return { type, name, children: [] };
+}
+
+function link(type: AtomTypeName, children: AtomNode[]): AtomNode {
+  return { type, children };
+}
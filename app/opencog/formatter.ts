@@ -0,0 +1,234 @@
+/**
+ * Atomese and MeTTa Formatter
+ * Pretty-prints S-expressions with configurable indentation and line width
+ */
+
+import { AtomNode, MeTTaExpression } from "./types";
+import { AtomeseParser } from "./atomese";
+import { METTA_SYNTAX, MeTTaParser } from "./metta";
+import { SCHEME_SYNTAX, SchemeParser } from "./scheme";
+import { SExpr, SExprOptions, readSExpr, readSExprs } from "./sexpr";
+
+export interface FormatOptions {
+  indentWidth: number; // Spaces per nesting level
+  maxLineLength: number; // Expressions wider than this are broken up
+  alignChildren: boolean; // Align arguments under the first one
+}
+
+export const DEFAULT_FORMAT_OPTIONS: FormatOptions = {
+  indentWidth: 2,
+  maxLineLength: 80,
+  alignChildren: false,
+};
+
+/**
+ * Lay out a single S-expression.
+ * Expressions that fit on the remaining line stay flat; otherwise the head
+ * and any leading bare tokens (such as a node name) stay on the first line
+ * and each argument goes on its own line. Comments always end their line.
+ */
+export function formatSExpr(
+  expr: SExpr,
+  options: Partial<FormatOptions> = {},
+): string {
+  return layout(expr, 0, 0, { ...DEFAULT_FORMAT_OPTIONS, ...options });
+}
+
+/**
+ * Pretty-print atoms as Atomese.
+ * Atoms are regenerated first, so attributes always come in the same
+ * order: type, name, outgoing set, truth value, attention value.
+ */
+export function formatAtomese(
+  atoms: AtomNode | AtomNode[],
+  options: Partial<FormatOptions> = {},
+): string {
+  return (Array.isArray(atoms) ? atoms : [atoms])
+    .map((atom) =>
+      formatSExpr(readSExpr(AtomeseParser.generate(atom)), options),
+    )
+    .join("\n");
+}
+
+/**
+ * Pretty-print MeTTa expressions
+ */
+export function formatMetta(
+  exprs: MeTTaExpression | MeTTaExpression[],
+  options: Partial<FormatOptions> = {},
+): string {
+  return (Array.isArray(exprs) ? exprs : [exprs])
+    .map((expr) =>
+      formatSExpr(readSExpr(MeTTaParser.generate(expr), METTA_SYNTAX), options),
+    )
+    .join("\n");
+}
+
+/**
+ * Pretty-print atoms as Guile Scheme
+ */
+export function formatScheme(
+  atoms: AtomNode | AtomNode[],
+  options: Partial<FormatOptions> = {},
+): string {
+  return (Array.isArray(atoms) ? atoms : [atoms])
+    .map((atom) =>
+      formatSExpr(
+        readSExpr(SchemeParser.generate(atom), SCHEME_SYNTAX),
+        options,
+      ),
+    )
+    .join("\n");
+}
+
+/**
+ * Reformat Atomese source. The code is laid out as written rather than
+ * regenerated, so numbers, bare names and comments are kept.
+ * Throws ParseError on malformed input.
+ */
+export function formatAtomeseSource(
+  source: string,
+  options: Partial<FormatOptions> = {},
+): string {
+  AtomeseParser.parseAll(source);
+  return formatSource(source, {}, options);
+}
+
+/**
+ * Reformat MeTTa source, laid out as written.
+ * Throws ParseError on malformed input.
+ */
+export function formatMettaSource(
+  source: string,
+  options: Partial<FormatOptions> = {},
+): string {
+  MeTTaParser.parseAll(source);
+  return formatSource(source, METTA_SYNTAX, options);
+}
+
+/**
+ * Reformat Scheme source, laid out as written, so definitions survive.
+ * Throws ParseError on malformed input.
+ */
+export function formatSchemeSource(
+  source: string,
+  options: Partial<FormatOptions> = {},
+): string {
+  SchemeParser.parseAll(source);
+  return formatSource(source, SCHEME_SYNTAX, options);
+}
+
+function formatSource(
+  source: string,
+  syntax: SExprOptions,
+  options: Partial<FormatOptions>,
+): string {
+  return readSExprs(source, { ...syntax, comments: true })
+    .map((expr) => formatSExpr(expr, options))
+    .join("\n");
+}
+
+/**
+ * @param column Column the expression starts at
+ * @param trailing Closing parens that will follow on the same line
+ */
+function layout(
+  expr: SExpr,
+  column: number,
+  trailing: number,
+  options: FormatOptions,
+): string {
+  const flat = flatten(expr);
+  if (
+    expr.kind !== "list" ||
+    expr.items.length === 0 ||
+    (!hasComment(expr) &&
+      column + flat.length + trailing <= options.maxLineLength)
+  ) {
+    return flat;
+  }
+
+  const items = expr.items;
+
+  // The head and the bare tokens right after it stay on the first line
+  let headCount = items[0].kind === "comment" ? 0 : 1;
+  while (
+    headCount < items.length &&
+    items[headCount].kind !== "list" &&
+    items[headCount].kind !== "comment"
+  ) {
+    headCount++;
+  }
+  const children = items.slice(headCount);
+
+  let text = (expr.prefix || "") + "(";
+  let col = column + text.length;
+
+  items.slice(0, headCount).forEach((item, index) => {
+    if (index > 0) {
+      text += " ";
+      col++;
+    }
+    const isLast = children.length === 0 && index === headCount - 1;
+    const part = layout(item, col, isLast ? trailing + 1 : 0, options);
+    text += part;
+    col = endColumn(part, col);
+  });
+
+  if (children.length === 0) {
+    return text + ")";
+  }
+
+  let childColumn = column + options.indentWidth;
+  let remaining = children;
+
+  // Aligned layout keeps the first argument on the head line
+  if (
+    options.alignChildren &&
+    headCount > 0 &&
+    col + 1 < options.maxLineLength
+  ) {
+    childColumn = col + 1;
+    const isLast = children.length === 1;
+    const part = layout(
+      children[0],
+      childColumn,
+      isLast ? trailing + 1 : 0,
+      options,
+    );
+    text += " " + part;
+    remaining = children.slice(1);
+  }
+
+  remaining.forEach((child, index) => {
+    const isLast = index === remaining.length - 1;
+    const part = layout(child, childColumn, isLast ? trailing + 1 : 0, options);
+    text += "\n" + " ".repeat(childColumn) + part;
+  });
+
+  // A closing paren after a comment would be commented out
+  return items[items.length - 1].kind === "comment"
+    ? text + "\n" + " ".repeat(column) + ")"
+    : text + ")";
+}
+
+function hasComment(expr: SExpr): boolean {
+  return (
+    expr.kind === "comment" ||
+    (expr.kind === "list" && expr.items.some(hasComment))
+  );
+}
+
+function flatten(expr: SExpr): string {
+  const prefix = expr.prefix || "";
+  if (expr.kind !== "list") return prefix + expr.text;
+  return `${prefix}(${expr.items.map(flatten).join(" ")})`;
+}
+
+/**
+ * Column after the last character of a laid-out fragment
+ */
+function endColumn(text: string, start: number): number {
+  const newline = text.lastIndexOf("\n");
+  return newline === -1 ? start + text.length : text.length - newline - 1;
+}
@@ -3,7 +3,9 @@
  * Synchronizes local AtomSpace with native Hyperon AtomSpace
  */
 
-import { AtomNode, AtomType } from "../types";
+import { AtomNode, AtomTypeName } from "../types";
+import { atomTypes } from "../atom-types";
+import { AtomHandle, AtomSpace, atomHandle } from "../atomspace";
 import { getHyperonFFI, HyperonAtom } from "./ffi-bindings";
 
 export interface SyncConfig {
@@ -37,10 +39,12 @@ export class AtomSpaceSynchronizer {
   private config: SyncConfig;
   private status: SyncStatus;
   private syncTimer: any = null;
-  private localAtomSpace: Map<string, AtomNode> = new Map();
+  private localAtomSpace: AtomSpace;
   private syncInProgress: boolean = false;
 
-  constructor(config: SyncConfig = {}) {
+  constructor(config: SyncConfig = {}, atomSpace?: AtomSpace) {
+    this.localAtomSpace = atomSpace || new AtomSpace();
+
     this.config = {
       autoSync: config.autoSync ?? false,
       syncInterval: config.syncInterval || 5000, // 5 seconds default
@@ -162,7 +166,8 @@ export class AtomSpaceSynchronizer {
     let added = 0;
     let updated = 0;
 
-    for (const [id, atom] of this.localAtomSpace) {
+    for (const id of this.localAtomSpace.getHandles()) {
+      const atom = this.localAtomSpace.get(id)!;
       try {
         const hyperonAtom = this.convertToHyperonAtom(atom);
         const result = await this.ffi.addAtom(hyperonAtom);
@@ -215,16 +220,19 @@ export class AtomSpaceSynchronizer {
 
       for (const hyperonAtom of hyperonAtoms) {
         const localAtom = this.convertFromHyperonAtom(hyperonAtom);
-        const existing = this.localAtomSpace.get(hyperonAtom.id);
+        const handle = atomHandle(localAtom);
+        const existing = this.localAtomSpace.get(handle);
 
         if (!existing) {
-          this.localAtomSpace.set(hyperonAtom.id, localAtom);
+          this.localAtomSpace.add(localAtom);
           added++;
         } else {
           // Handle conflict
           const resolved = this.resolveConflict(existing, localAtom);
           if (resolved) {
-            this.localAtomSpace.set(hyperonAtom.id, resolved);
+            if (resolved.truthValue) {
+              this.localAtomSpace.setTruthValue(handle, resolved.truthValue);
+            }
             updated++;
             if (resolved !== existing) {
               conflicts++;
@@ -310,7 +318,7 @@ export class AtomSpaceSynchronizer {
    */
   private convertToHyperonAtom(atom: AtomNode): HyperonAtom {
     return {
-      id: `atom-${Date.now()}-${Math.random()}`,
+      id: atomHandle(atom),
       type: this.getAtomTypeName(atom.type),
       value: atom.name,
       children: atom.children?.map((child) => this.convertToHyperonAtom(child)),
@@ -335,40 +343,43 @@ export class AtomSpaceSynchronizer {
   /**
    * Get atom type name from enum
    */
-  private getAtomTypeName(type: AtomType): string {
+  private getAtomTypeName(type: AtomTypeName): string {
     return type || "UNKNOWN";
   }
 
   /**
-   * Get atom type enum from name
+   * Get atom type from name, preserving types unknown to the registry
    */
-  private getAtomType(typeName: string): AtomType {
-    // Try to find matching enum value
-    const values = Object.values(AtomType);
-    const found = values.find((v) => v === typeName);
-    return found || AtomType.CONCEPT_NODE;
+  private getAtomType(typeName: string): AtomTypeName {
+    return atomTypes.resolve(typeName);
   }
 
   /**
    * Add atom to local space (will be synced on next sync)
    */
-  addLocalAtom(atom: AtomNode): void {
-    const id = `atom-${Date.now()}-${Math.random()}`;
-    this.localAtomSpace.set(id, atom);
+  addLocalAtom(atom: AtomNode): AtomHandle {
+    return this.localAtomSpace.add(atom);
   }
 
   /**
    * Remove atom from local space
    */
-  removeLocalAtom(atomId: string): void {
-    this.localAtomSpace.delete(atomId);
+  removeLocalAtom(atomId: AtomHandle): void {
+    this.localAtomSpace.remove(atomId, true);
   }
 
   /**
    * Get all local atoms
    */
   getLocalAtoms(): AtomNode[] {
-    return Array.from(this.localAtomSpace.values());
+    return this.localAtomSpace.getAtoms();
+  }
+
+  /**
+   * Get the AtomSpace backing the local side of the sync
+   */
+  getLocalAtomSpace(): AtomSpace {
+    return this.localAtomSpace;
   }
 
   /**
@@ -415,9 +426,10 @@ let synchronizerInstance: AtomSpaceSynchronizer | null = null;
  */
 export function getAtomSpaceSynchronizer(
   config?: SyncConfig,
+  atomSpace?: AtomSpace,
 ): AtomSpaceSynchronizer {
   if (!synchronizerInstance) {
-    synchronizerInstance = new AtomSpaceSynchronizer(config);
+    synchronizerInstance = new AtomSpaceSynchronizer(config, atomSpace);
   }
   return synchronizerInstance;
 }
@@ -4,8 +4,15 @@
  */
 
 export * from "./types";
+export * from "./atom-types";
+export * from "./atomspace";
+export * from "./sexpr";
+export * from "./truth-value";
 export * from "./atomese";
 export * from "./metta";
+export * from "./scheme";
+export * from "./converter";
+export * from "./formatter";
 export * from "./translator";
 export * from "./cogserver";
 export * from "./agents";
@@ -24,6 +31,7 @@ import {
 import { LanguageTranslator } from "./translator";
 import { CogServerClient, MockCogServerClient } from "./cogserver";
 import { CogServerConfig } from "./types";
+import { AtomSpace } from "./atomspace";
 
 /**
  * Initialize OpenCog system with default agents
@@ -31,6 +39,7 @@ import { CogServerConfig } from "./types";
 export function initializeOpenCog(
   cogServerConfig?: CogServerConfig,
   useMockServer: boolean = true,
+  atomSpace?: AtomSpace,
 ): {
   orchestrator: AgentOrchestrator;
   translator: LanguageTranslator;
@@ -52,7 +61,7 @@ export function initializeOpenCog(
   // Create and register agents
   const translationAgent = new TranslationAgent(translator);
   const reasoningAgent = new ReasoningAgent();
-  const knowledgeAgent = new KnowledgeAgent(cogServer);
+  const knowledgeAgent = new KnowledgeAgent(cogServer, atomSpace);
   const planningAgent = new PlanningAgent();
 
   orchestrator.registerAgent(translationAgent);
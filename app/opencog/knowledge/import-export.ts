@@ -3,9 +3,17 @@
  * Handles serialization and deserialization of OpenCog knowledge bases
  */
 
-import { AtomNode, TruthValue, AtomType } from "../types";
+import { AtomNode, TruthValue } from "../types";
 import { AtomeseParser } from "../atomese";
 import { MeTTaParser } from "../metta";
+import { SchemeParser } from "../scheme";
+import { AtomeseMeTTaConverter } from "../converter";
+import {
+  FormatOptions,
+  formatAtomese,
+  formatMetta,
+  formatScheme,
+} from "../formatter";
 import log from "loglevel";
 
 /**
@@ -15,7 +23,7 @@ export interface KnowledgeBase {
   version: string;
   created: number;
   modified: number;
-  format: "atomese" | "metta" | "json";
+  format: "atomese" | "metta" | "scheme" | "json";
   atoms: AtomNode[];
   metadata?: Record<string, any>;
 }
@@ -40,14 +48,17 @@ export function exportKnowledgeBaseJSON(
 }
 
 /**
- * Export knowledge base to Atomese
+ * Export knowledge base to Atomese, pretty-printed
  */
-export function exportKnowledgeBaseAtomese(atoms: AtomNode[]): string {
+export function exportKnowledgeBaseAtomese(
+  atoms: AtomNode[],
+  formatOptions?: Partial<FormatOptions>,
+): string {
   const atomeseClauses: string[] = [];
 
   for (const atom of atoms) {
     try {
-      const atomese = AtomeseParser.generate(atom);
+      const atomese = formatAtomese(atom, formatOptions);
       atomeseClauses.push(atomese);
     } catch (error) {
       log.error("Failed to convert atom to Atomese:", atom, error);
@@ -58,31 +69,19 @@ export function exportKnowledgeBaseAtomese(atoms: AtomNode[]): string {
 }
 
 /**
- * Export knowledge base to MeTTa
+ * Export knowledge base to MeTTa, pretty-printed
+ * Uses the lossless structural mapping, so the file imports back unchanged
  */
-export function exportKnowledgeBaseMetta(atoms: AtomNode[]): string {
+export function exportKnowledgeBaseMetta(
+  atoms: AtomNode[],
+  formatOptions?: Partial<FormatOptions>,
+): string {
   const mettaExpressions: string[] = [];
 
   for (const atom of atoms) {
     try {
-      // Simple conversion - create type declarations and facts
-      if (atom.name) {
-        // Check if it's a Node type using enum
-        if (
-          atom.type === AtomType.CONCEPT_NODE ||
-          atom.type === AtomType.PREDICATE_NODE ||
-          atom.type === AtomType.VARIABLE_NODE
-        ) {
-          mettaExpressions.push(`(: ${atom.name} Type)`);
-        }
-
-        if (atom.children && atom.children.length > 0) {
-          const childNames = atom.children
-            .map((c) => c.name || "Unknown")
-            .join(" ");
-          mettaExpressions.push(`(${atom.name} ${childNames})`);
-        }
-      }
+      const expr = AtomeseMeTTaConverter.toMetta(atom);
+      mettaExpressions.push(formatMetta(expr, formatOptions));
     } catch (error) {
       log.error("Failed to convert atom to MeTTa:", atom, error);
     }
@@ -91,6 +90,26 @@ export function exportKnowledgeBaseMetta(atoms: AtomNode[]): string {
   return mettaExpressions.join("\n");
 }
 
+/**
+ * Export knowledge base to Guile Scheme, pretty-printed
+ */
+export function exportKnowledgeBaseScheme(
+  atoms: AtomNode[],
+  formatOptions?: Partial<FormatOptions>,
+): string {
+  const schemeForms: string[] = [];
+
+  for (const atom of atoms) {
+    try {
+      schemeForms.push(formatScheme(atom, formatOptions));
+    } catch (error) {
+      log.error("Failed to convert atom to Scheme:", atom, error);
+    }
+  }
+
+  return schemeForms.join("\n\n");
+}
+
 /**
  * Import knowledge base from JSON
  */
@@ -114,63 +133,33 @@ export function importKnowledgeBaseJSON(jsonString: string): AtomNode[] {
 
 /**
  * Import knowledge base from Atomese
+ * Throws ParseError pointing at the first malformed clause
  */
 export function importKnowledgeBaseAtomese(atomeseString: string): AtomNode[] {
-  const atoms: AtomNode[] = [];
-  const lines = atomeseString.split("\n");
-
-  let currentClause = "";
-  let openParens = 0;
-
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith(";")) continue; // Skip empty lines and comments
-
-    currentClause += " " + trimmed;
-
-    // Count parentheses
-    for (const char of trimmed) {
-      if (char === "(") openParens++;
-      if (char === ")") openParens--;
-    }
-
-    // Complete clause
-    if (openParens === 0 && currentClause.trim()) {
-      try {
-        const atom = AtomeseParser.parse(currentClause.trim());
-        atoms.push(atom);
-      } catch (error) {
-        log.error("Failed to parse Atomese clause:", currentClause, error);
-      }
-      currentClause = "";
-    }
+  try {
+    const atoms = AtomeseParser.parseAll(atomeseString);
+    log.info(`Imported ${atoms.length} atoms from Atomese`);
+    return atoms;
+  } catch (error) {
+    log.error("Failed to parse Atomese:", error);
+    throw error;
   }
-
-  log.info(`Imported ${atoms.length} atoms from Atomese`);
-  return atoms;
 }
 
 /**
  * Import knowledge base from MeTTa
+ * Throws ParseError pointing at the first malformed expression
  */
 export function importKnowledgeBaseMetta(mettaString: string): AtomNode[] {
   const atoms: AtomNode[] = [];
-  const lines = mettaString.split("\n");
 
-  for (const line of lines) {
-    const trimmed = line.trim();
-    if (!trimmed || trimmed.startsWith(";")) continue; // Skip empty lines and comments
-
-    try {
-      const expr = MeTTaParser.parse(trimmed);
-      // Convert MeTTa expression to AtomNode
-      const atom = convertMettaToAtom(expr);
-      if (atom) {
-        atoms.push(atom);
-      }
-    } catch (error) {
-      log.error("Failed to parse MeTTa expression:", trimmed, error);
+  try {
+    for (const expr of MeTTaParser.parseAll(mettaString)) {
+      atoms.push(AtomeseMeTTaConverter.toAtom(expr));
     }
+  } catch (error) {
+    log.error("Failed to parse MeTTa:", error);
+    throw error;
   }
 
   log.info(`Imported ${atoms.length} atoms from MeTTa`);
@@ -178,40 +167,18 @@ export function importKnowledgeBaseMetta(mettaString: string): AtomNode[] {
 }
 
 /**
- * Convert MeTTa expression to AtomNode
- * (Simple conversion for basic cases)
+ * Import knowledge base from Guile Scheme
+ * Throws ParseError pointing at the first malformed form
  */
-function convertMettaToAtom(expr: any): AtomNode | null {
-  if (typeof expr === "string") {
-    return {
-      type: AtomType.CONCEPT_NODE,
-      name: expr,
-    };
-  }
-
-  if (Array.isArray(expr.value) && expr.value.length > 0) {
-    const first = expr.value[0];
-
-    // Type declaration: (: name Type)
-    if (first.value === ":" && expr.value.length === 3) {
-      return {
-        type: AtomType.CONCEPT_NODE,
-        name: String(expr.value[1].value),
-      };
-    }
-
-    // General expression
-    return {
-      type: AtomType.EVALUATION_LINK,
-      name: String(first.value),
-      children: expr.value
-        .slice(1)
-        .map((v: any) => convertMettaToAtom(v))
-        .filter(Boolean),
-    };
+export function importKnowledgeBaseScheme(schemeString: string): AtomNode[] {
+  try {
+    const atoms = SchemeParser.parseAll(schemeString);
+    log.info(`Imported ${atoms.length} atoms from Scheme`);
+    return atoms;
+  } catch (error) {
+    log.error("Failed to parse Scheme:", error);
+    throw error;
   }
-
-  return null;
 }
 
 /**
@@ -219,8 +186,9 @@ function convertMettaToAtom(expr: any): AtomNode | null {
  */
 export function downloadKnowledgeBase(
   atoms: AtomNode[],
-  format: "json" | "atomese" | "metta",
+  format: "json" | "atomese" | "metta" | "scheme",
   filename?: string,
+  formatOptions?: Partial<FormatOptions>,
 ): void {
   let content: string;
   let extension: string;
@@ -231,13 +199,17 @@ export function downloadKnowledgeBase(
       extension = "json";
       break;
     case "atomese":
-      content = exportKnowledgeBaseAtomese(atoms);
+      content = exportKnowledgeBaseAtomese(atoms, formatOptions);
       extension = "scm";
       break;
     case "metta":
-      content = exportKnowledgeBaseMetta(atoms);
+      content = exportKnowledgeBaseMetta(atoms, formatOptions);
       extension = "metta";
       break;
+    case "scheme":
+      content = exportKnowledgeBaseScheme(atoms, formatOptions);
+      extension = "scm";
+      break;
   }
 
   const blob = new Blob([content], { type: "text/plain" });
@@ -273,29 +245,40 @@ export async function uploadKnowledgeBase(
       let format: string;
       let atoms: AtomNode[];
 
-      if (file.name.endsWith(".json")) {
-        format = "json";
-        atoms = importKnowledgeBaseJSON(content);
-      } else if (file.name.endsWith(".scm")) {
-        format = "atomese";
-        atoms = importKnowledgeBaseAtomese(content);
-      } else if (file.name.endsWith(".metta")) {
-        format = "metta";
-        atoms = importKnowledgeBaseMetta(content);
-      } else {
-        // Try to auto-detect
-        try {
-          atoms = importKnowledgeBaseJSON(content);
+      try {
+        if (file.name.endsWith(".json")) {
           format = "json";
-        } catch {
+          atoms = importKnowledgeBaseJSON(content);
+        } else if (file.name.endsWith(".scm")) {
+          // Atomese exports are valid Guile, so .scm files are evaluated
+          format = "scheme";
+          atoms = importKnowledgeBaseScheme(content);
+        } else if (file.name.endsWith(".metta")) {
+          format = "metta";
+          atoms = importKnowledgeBaseMetta(content);
+        } else {
+          // Try to auto-detect
           try {
-            atoms = importKnowledgeBaseAtomese(content);
-            format = "atomese";
+            atoms = importKnowledgeBaseJSON(content);
+            format = "json";
           } catch {
-            atoms = importKnowledgeBaseMetta(content);
-            format = "metta";
+            try {
+              atoms = importKnowledgeBaseScheme(content);
+              format = "scheme";
+            } catch {
+              try {
+                atoms = importKnowledgeBaseAtomese(content);
+                format = "atomese";
+              } catch {
+                atoms = importKnowledgeBaseMetta(content);
+                format = "metta";
+              }
+            }
           }
         }
+      } catch (error) {
+        reject(error);
+        return;
       }
 
       resolve({ atoms, format });
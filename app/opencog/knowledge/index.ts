@@ -5,3 +5,5 @@
 
 export * from "./import-export";
 export * from "./query-builder";
+export * from "./pattern-matcher";
+export * from "./query-language";
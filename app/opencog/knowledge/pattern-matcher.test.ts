@@ -0,0 +1,102 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtomSpace } from "../atomspace";
+import { AtomeseParser } from "../atomese";
+import { PatternMatcher } from "./pattern-matcher";
+
+function load(source: string): PatternMatcher {
+  const space = new AtomSpace();
+  AtomeseParser.parseAll(source).forEach((atom) => space.add(atom));
+  return new PatternMatcher(space);
+}
+
+function names(matcher: PatternMatcher, query: string, variable = "$X") {
+  return matcher
+    .execute(AtomeseParser.parse(query))
+    .rows.map((row) => row.bindings[variable].name)
+    .sort();
+}
+
+const ANIMALS = `
+  (InheritanceLink (ConceptNode "cat") (ConceptNode "animal"))
+  (InheritanceLink (ConceptNode "dog") (ConceptNode "animal"))
+  (InheritanceLink (ConceptNode "rose") (ConceptNode "plant"))
+  (SimilarityLink (ConceptNode "dog") (ConceptNode "cat"))
+`;
+
+describe("PatternMatcher", () => {
+  it("grounds shared variables across clauses", () => {
+    const matcher = load(ANIMALS);
+    expect(
+      names(
+        matcher,
+        `(GetLink
+           (AndLink
+             (InheritanceLink (VariableNode "$X") (ConceptNode "animal"))
+             (SimilarityLink (VariableNode "$X") (ConceptNode "cat"))))`,
+      ),
+    ).toEqual(["dog"]);
+  });
+
+  it("matches unordered links in either order", () => {
+    const matcher = load(ANIMALS);
+    expect(
+      names(
+        matcher,
+        `(GetLink
+           (AndLink
+             (InheritanceLink (VariableNode "$X") (ConceptNode "animal"))
+             (SimilarityLink (ConceptNode "cat") (VariableNode "$X"))))`,
+      ),
+    ).toEqual(["dog"]);
+  });
+
+  it("rejects groundings of absent clauses in either order", () => {
+    const matcher = load(ANIMALS);
+    expect(
+      names(
+        matcher,
+        `(GetLink
+           (AndLink
+             (InheritanceLink (VariableNode "$X") (ConceptNode "animal"))
+             (AbsentLink
+               (SimilarityLink (ConceptNode "cat") (VariableNode "$X")))))`,
+      ),
+    ).toEqual(["cat"]);
+  });
+
+  it("restricts typed variables to the type and its subtypes", () => {
+    const matcher = load(`
+      ${ANIMALS}
+      (WidgetNode "gear")
+    `);
+    expect(
+      names(
+        matcher,
+        `(GetLink
+           (TypedVariableLink (VariableNode "$X") (TypeNode "WidgetNode"))
+           (VariableNode "$X"))`,
+      ),
+    ).toEqual(["gear"]);
+    expect(
+      names(
+        matcher,
+        `(GetLink
+           (TypedVariableLink (VariableNode "$X") (TypeNode "Node"))
+           (VariableNode "$X"))`,
+      ),
+    ).toEqual(["animal", "cat", "dog", "gear", "plant", "rose"]);
+  });
+
+  it("instantiates BindLink rewrites", () => {
+    const matcher = load(ANIMALS);
+    const table = matcher.execute(
+      AtomeseParser.parse(`
+        (BindLink
+          (InheritanceLink (VariableNode "$X") (ConceptNode "plant"))
+          (EvaluationLink
+            (PredicateNode "grows")
+            (VariableNode "$X")))`),
+    );
+    expect(AtomeseParser.generate(table.produced[0])).toContain('"rose"');
+  });
+});
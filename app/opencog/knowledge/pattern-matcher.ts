@@ -0,0 +1,494 @@
+/**
+ * Pattern Matcher
+ * OpenCog-style query engine: conjunctive clauses with shared variables,
+ * typed variable declarations, absent clauses and BindLink rewriting
+ */
+
+import { AtomNode, AtomType, AtomTypeName } from "../types";
+import { atomTypes } from "../atom-types";
+import { AtomHandle, AtomSpace, atomHandle } from "../atomspace";
+import log from "loglevel";
+
+/**
+ * Variable declaration, e.g.
+ * (TypedVariableLink (VariableNode "$X") (TypeNode "ConceptNode"))
+ */
+export interface VariableDeclaration {
+  name: string; // "$X"
+  types?: AtomTypeName[]; // Allowed types (or subtypes); any type if empty
+}
+
+/**
+ * Compiled query
+ */
+export interface QueryPattern {
+  variables: VariableDeclaration[];
+  clauses: AtomNode[]; // Must all be grounded (conjunction)
+  absent: AtomNode[]; // Must have no grounding (AbsentLink/NotLink)
+  rewrite?: AtomNode; // BindLink rewrite template
+}
+
+/**
+ * Variable name -> grounding
+ */
+export type Bindings = Record<string, AtomNode>;
+
+export interface QueryMatch {
+  bindings: Bindings;
+  groundings: AtomNode[]; // Atom matched by each clause, in clause order
+}
+
+/**
+ * Binding table returned by a query
+ */
+export interface QueryResultTable {
+  variables: string[]; // Column order
+  rows: QueryMatch[];
+  produced: AtomNode[]; // BindLink rewrite results, one per row
+}
+
+/**
+ * A clause grounded to a given atom before the others are searched, to
+ * find only the matches that involve that atom
+ */
+export interface MatchSeed {
+  clause: number; // Index into the pattern's clauses
+  atom: AtomNode;
+}
+
+export interface QueryOptions {
+  limit?: number; // Stop after this many rows
+  insert?: boolean; // Add BindLink results to the AtomSpace
+}
+
+export class PatternMatcher {
+  private space: AtomSpace;
+
+  constructor(space: AtomSpace) {
+    this.space = space;
+  }
+
+  /**
+   * Matcher over a plain list of atoms
+   */
+  static forAtoms(atoms: AtomNode[]): PatternMatcher {
+    const space = new AtomSpace();
+    atoms.forEach((atom) => space.add(atom));
+    return new PatternMatcher(space);
+  }
+
+  /**
+   * Compile a GetLink, BindLink or bare pattern atom into a query.
+   * Without a variable declaration every VariableNode in the body is a
+   * free, untyped variable.
+   */
+  static compile(query: AtomNode): QueryPattern {
+    const children = query.children || [];
+    let declaration: AtomNode | undefined;
+    let body: AtomNode | undefined;
+    let rewrite: AtomNode | undefined;
+
+    if (query.type === AtomType.GET_LINK) {
+      [body, declaration] =
+        children.length > 1 ? [children[1], children[0]] : [children[0]];
+    } else if (query.type === AtomType.BIND_LINK) {
+      if (children.length < 2) {
+        throw new Error("BindLink expects a body and a rewrite");
+      }
+      rewrite = children[children.length - 1];
+      body = children[children.length - 2];
+      declaration = children.length > 2 ? children[0] : undefined;
+    } else {
+      body = query;
+    }
+
+    if (!body) {
+      throw new Error(`${query.type} has no pattern body`);
+    }
+
+    const pattern: QueryPattern = {
+      variables: [],
+      clauses: [],
+      absent: [],
+      rewrite,
+    };
+    collectClauses(body, pattern, false);
+
+    pattern.variables = declaration
+      ? parseDeclaration(declaration)
+      : freeVariables([...pattern.clauses, ...pattern.absent]).map((name) => ({
+          name,
+        }));
+
+    return pattern;
+  }
+
+  /**
+   * Run a query and return its binding table.
+   * BindLink rewrites are instantiated once per row.
+   */
+  execute(
+    query: QueryPattern | AtomNode,
+    options: QueryOptions = {},
+  ): QueryResultTable {
+    const pattern = isQueryPattern(query)
+      ? query
+      : PatternMatcher.compile(query);
+    const rows = this.match(pattern, options.limit);
+
+    const produced = pattern.rewrite
+      ? rows.map((row) => substitute(pattern.rewrite!, row.bindings))
+      : [];
+
+    if (options.insert) {
+      produced.forEach((atom) => this.space.add(atom));
+    }
+
+    log.info(`Pattern query returned ${rows.length} groundings`);
+    return {
+      variables: pattern.variables.map((v) => v.name),
+      rows,
+      produced,
+    };
+  }
+
+  /**
+   * Find every consistent grounding of the query's clauses
+   */
+  match(pattern: QueryPattern, limit?: number, seed?: MatchSeed): QueryMatch[] {
+    const variables = new Map(pattern.variables.map((v) => [v.name, v]));
+    // Pattern atoms stored in the AtomSpace must not match themselves
+    const excluded = new Set(
+      [...pattern.clauses, ...pattern.absent]
+        .filter((clause) => !isGround(clause, variables))
+        .map((clause) => atomHandle(clause)),
+    );
+
+    const seedHandle = seed && this.space.getHandle(seed.atom);
+    if (seed && !seedHandle) return [];
+
+    // Most selective clauses first, after the seeded one
+    const order = pattern.clauses
+      .map((clause, index) => ({
+        index,
+        count:
+          index === seed?.clause
+            ? -1
+            : this.candidates(clause, variables, {}).length,
+      }))
+      .sort((a, b) => a.count - b.count)
+      .map((entry) => entry.index);
+
+    const results: QueryMatch[] = [];
+    const seen = new Set<string>();
+    const groundings: AtomNode[] = new Array(pattern.clauses.length);
+
+    const search = (depth: number, bindings: Bindings): boolean => {
+      if (limit !== undefined && results.length >= limit) return true;
+
+      if (depth === order.length) {
+        if (
+          this.anyAbsentGrounded(pattern.absent, variables, bindings, excluded)
+        ) {
+          return false;
+        }
+
+        const key = pattern.variables
+          .map((v) => (bindings[v.name] ? atomHandle(bindings[v.name]) : ""))
+          .join("|");
+        if (!seen.has(key)) {
+          seen.add(key);
+          results.push({
+            bindings: { ...bindings },
+            groundings: [...groundings],
+          });
+        }
+        return false;
+      }
+
+      const clauseIndex = order[depth];
+      const clause = pattern.clauses[clauseIndex];
+
+      const handles =
+        seedHandle && clauseIndex === seed!.clause
+          ? [seedHandle]
+          : this.candidates(clause, variables, bindings);
+      for (const handle of handles) {
+        if (excluded.has(handle)) continue;
+
+        const atom = this.space.get(handle)!;
+        for (const extended of unify(clause, atom, variables, bindings)) {
+          groundings[clauseIndex] = atom;
+          if (search(depth + 1, extended)) return true;
+        }
+      }
+
+      return false;
+    };
+
+    search(0, {});
+    return results;
+  }
+
+  /**
+   * Check whether any absent clause can be grounded under the bindings
+   */
+  private anyAbsentGrounded(
+    absent: AtomNode[],
+    variables: Map<string, VariableDeclaration>,
+    bindings: Bindings,
+    excluded: Set<AtomHandle>,
+  ): boolean {
+    return absent.some((clause) =>
+      this.candidates(clause, variables, bindings).some(
+        (handle) =>
+          !excluded.has(handle) &&
+          unify(clause, this.space.get(handle)!, variables, bindings).length >
+            0,
+      ),
+    );
+  }
+
+  /**
+   * Handles of atoms that could ground a clause, narrowed through the
+   * incoming set of a ground child where possible
+   */
+  private candidates(
+    clause: AtomNode,
+    variables: Map<string, VariableDeclaration>,
+    bindings: Bindings,
+  ): AtomHandle[] {
+    const resolved = substitute(clause, bindings, variables);
+
+    if (isVariable(resolved, variables)) {
+      const types = variables.get(resolved.name!)!.types;
+      if (!types?.length) return this.space.getHandles();
+
+      // Stored types rather than registered subtypes, so atoms of
+      // unregistered types are found the same way unify accepts them
+      return this.space
+        .getTypes()
+        .filter((stored) => types.some((type) => atomTypes.isA(stored, type)))
+        .flatMap((type) => this.space.getByType(type));
+    }
+
+    if (isGround(resolved, variables)) {
+      const handle = this.space.getHandle(resolved);
+      return handle ? [handle] : [];
+    }
+
+    for (const child of resolved.children || []) {
+      if (!isGround(child, variables)) continue;
+
+      const handle = this.space.getHandle(child);
+      if (!handle) return [];
+
+      return this.space
+        .getIncoming(handle)
+        .filter((parent) => this.space.get(parent)?.type === resolved.type);
+    }
+
+    return this.space.getByType(resolved.type);
+  }
+}
+
+/**
+ * Instantiate a template with variable groundings
+ */
+export function substitute(
+  template: AtomNode,
+  bindings: Bindings,
+  variables?: Map<string, VariableDeclaration>,
+): AtomNode {
+  if (
+    template.type === AtomType.VARIABLE_NODE &&
+    template.name !== undefined &&
+    bindings[template.name] &&
+    (!variables || variables.has(template.name))
+  ) {
+    return bindings[template.name];
+  }
+
+  if (!template.children?.length) return template;
+
+  return {
+    ...template,
+    children: template.children.map((child) =>
+      substitute(child, bindings, variables),
+    ),
+  };
+}
+
+/**
+ * Unify a pattern with an atom, returning every extension of the bindings
+ * under which they match (several for unordered links)
+ */
+function unify(
+  pattern: AtomNode,
+  atom: AtomNode,
+  variables: Map<string, VariableDeclaration>,
+  bindings: Bindings,
+): Bindings[] {
+  if (isVariable(pattern, variables)) {
+    const name = pattern.name!;
+    const bound = bindings[name];
+
+    if (bound) {
+      return atomHandle(bound) === atomHandle(atom) ? [bindings] : [];
+    }
+
+    // A variable never grounds to itself
+    if (atom.type === AtomType.VARIABLE_NODE && atom.name === name) return [];
+
+    const types = variables.get(name)!.types;
+    if (
+      types?.length &&
+      !types.some((type) => atomTypes.isA(atom.type, type))
+    ) {
+      return [];
+    }
+
+    return [{ ...bindings, [name]: atom }];
+  }
+
+  if (pattern.type !== atom.type || pattern.name !== atom.name) return [];
+
+  const patternChildren = pattern.children || [];
+  const atomChildren = atom.children || [];
+  if (patternChildren.length !== atomChildren.length) return [];
+
+  if (atomTypes.isA(pattern.type, AtomType.UNORDERED_LINK)) {
+    return unifyUnordered(patternChildren, atomChildren, variables, bindings);
+  }
+
+  let frontier = [bindings];
+  patternChildren.forEach((child, index) => {
+    frontier = frontier.flatMap((current) =>
+      unify(child, atomChildren[index], variables, current),
+    );
+  });
+  return frontier;
+}
+
+/**
+ * Match pattern children against any permutation of the atom's children
+ */
+function unifyUnordered(
+  patterns: AtomNode[],
+  atoms: AtomNode[],
+  variables: Map<string, VariableDeclaration>,
+  bindings: Bindings,
+): Bindings[] {
+  if (patterns.length === 0) return [bindings];
+
+  const [first, ...rest] = patterns;
+  return atoms.flatMap((atom, index) =>
+    unify(first, atom, variables, bindings).flatMap((extended) =>
+      unifyUnordered(
+        rest,
+        atoms.filter((_, i) => i !== index),
+        variables,
+        extended,
+      ),
+    ),
+  );
+}
+
+/**
+ * Split a pattern body into present and absent clauses
+ */
+function collectClauses(
+  body: AtomNode,
+  pattern: QueryPattern,
+  negated: boolean,
+): void {
+  switch (body.type) {
+    case AtomType.AND_LINK:
+    case AtomType.PRESENT_LINK:
+      (body.children || []).forEach((child) =>
+        collectClauses(child, pattern, negated),
+      );
+      break;
+    case AtomType.ABSENT_LINK:
+    case AtomType.NOT_LINK:
+      (body.children || []).forEach((child) =>
+        collectClauses(child, pattern, !negated),
+      );
+      break;
+    default:
+      (negated ? pattern.absent : pattern.clauses).push(body);
+  }
+}
+
+/**
+ * Parse a VariableNode, TypedVariableLink or VariableList declaration
+ */
+function parseDeclaration(declaration: AtomNode): VariableDeclaration[] {
+  switch (declaration.type) {
+    case AtomType.VARIABLE_LIST:
+      return (declaration.children || []).flatMap(parseDeclaration);
+
+    case AtomType.VARIABLE_NODE:
+      return [{ name: declaration.name || "" }];
+
+    case AtomType.TYPED_VARIABLE_LINK: {
+      const [variable, typeSpec] = declaration.children || [];
+      if (variable?.type !== AtomType.VARIABLE_NODE || !typeSpec) {
+        throw new Error("TypedVariableLink expects a VariableNode and a type");
+      }
+      return [{ name: variable.name || "", types: parseTypes(typeSpec) }];
+    }
+
+    default:
+      throw new Error(`Invalid variable declaration: ${declaration.type}`);
+  }
+}
+
+/**
+ * Read a TypeNode, or a TypeChoice of TypeNodes
+ */
+function parseTypes(typeSpec: AtomNode): AtomTypeName[] {
+  if (typeSpec.type === AtomType.TYPE_NODE) {
+    return [atomTypes.resolve(typeSpec.name || "")];
+  }
+  return (typeSpec.children || []).flatMap(parseTypes);
+}
+
+function freeVariables(atoms: AtomNode[]): string[] {
+  const names = new Set<string>();
+
+  const visit = (atom: AtomNode) => {
+    if (atom.type === AtomType.VARIABLE_NODE && atom.name !== undefined) {
+      names.add(atom.name);
+    }
+    atom.children?.forEach(visit);
+  };
+  atoms.forEach(visit);
+
+  return Array.from(names);
+}
+
+function isVariable(
+  atom: AtomNode,
+  variables: Map<string, VariableDeclaration>,
+): boolean {
+  return (
+    atom.type === AtomType.VARIABLE_NODE &&
+    atom.name !== undefined &&
+    variables.has(atom.name)
+  );
+}
+
+function isGround(
+  atom: AtomNode,
+  variables: Map<string, VariableDeclaration>,
+): boolean {
+  return (
+    !isVariable(atom, variables) &&
+    (atom.children || []).every((child) => isGround(child, variables))
+  );
+}
+
+function isQueryPattern(query: QueryPattern | AtomNode): query is QueryPattern {
+  return Array.isArray((query as QueryPattern).clauses);
+}
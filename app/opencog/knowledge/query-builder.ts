@@ -3,23 +3,55 @@
  * Provides a structured way to query the AtomSpace
  */
 
-import { AtomNode, TruthValue, AtomType } from "../types";
+import { AtomNode, AtomTypeName } from "../types";
+import { atomTypes } from "../atom-types";
+import { isQueryGroup, parseQuery } from "./query-language";
 import log from "loglevel";
 
 /**
  * Query criteria
  */
 export interface QueryCriteria {
-  type?: AtomType | AtomType[];
+  type?: AtomTypeName | AtomTypeName[];
+  includeSubtypes?: boolean; // Also match subtypes of `type`
   name?: string | RegExp;
   minTruthStrength?: number;
+  maxTruthStrength?: number;
   minTruthConfidence?: number;
+  maxTruthConfidence?: number;
+  truthStrength?: TruthRange;
+  truthConfidence?: TruthRange;
   hasChildren?: boolean;
   childCount?: number | { min?: number; max?: number };
   depth?: number | { min?: number; max?: number };
   metadata?: Record<string, any>;
 }
 
+/**
+ * Bounds on a truth value component
+ */
+export interface TruthRange {
+  min?: number;
+  max?: number;
+  exclusive?: boolean; // The bounds themselves do not match
+}
+
+/**
+ * Nested combination of criteria, e.g. (A OR (B AND C))
+ */
+export interface QueryGroup {
+  mode: "AND" | "OR";
+  items: QueryItem[];
+}
+
+export type QueryItem = QueryCriteria | QueryGroup;
+
+export type QuerySortField =
+  | "relevance"
+  | "truth-strength"
+  | "truth-confidence"
+  | "name";
+
 /**
  * Query result
  */
@@ -33,16 +65,36 @@ export interface QueryResult {
  * Query Builder
  */
 export class AtomQueryBuilder {
-  private criteria: QueryCriteria[] = [];
+  private criteria: QueryItem[] = [];
   private combineMode: "AND" | "OR" = "AND";
   private limit?: number;
-  private sortBy?: "relevance" | "truth-strength" | "truth-confidence" | "name";
+  private sortBy?: QuerySortField;
   private sortOrder: "asc" | "desc" = "desc";
 
   /**
-   * Add a query criterion
+   * Build a query from the textual syntax, e.g.
+   * `type:InheritanceLink name~/cat/ tv.strength>0.7 order:confidence limit:20`
+   * Throws ParseError pointing at the offending token.
+   */
+  static fromQuery(query: string): AtomQueryBuilder {
+    const parsed = parseQuery(query);
+    const builder = new AtomQueryBuilder().combine(parsed.where.mode);
+
+    parsed.where.items.forEach((item) => builder.where(item));
+    if (parsed.orderBy) {
+      builder.orderBy(parsed.orderBy.field, parsed.orderBy.order);
+    }
+    if (parsed.limit !== undefined) {
+      builder.setLimit(parsed.limit);
+    }
+
+    return builder;
+  }
+
+  /**
+   * Add a query criterion or nested group
    */
-  where(criterion: QueryCriteria): this {
+  where(criterion: QueryItem): this {
     this.criteria.push(criterion);
     return this;
   }
@@ -66,10 +118,7 @@ export class AtomQueryBuilder {
   /**
    * Set sorting
    */
-  orderBy(
-    field: "relevance" | "truth-strength" | "truth-confidence" | "name",
-    order: "asc" | "desc" = "desc",
-  ): this {
+  orderBy(field: QuerySortField, order: "asc" | "desc" = "desc"): this {
     this.sortBy = field;
     this.sortOrder = order;
     return this;
@@ -154,9 +203,7 @@ export class AtomQueryBuilder {
     const matches: string[] = [];
 
     for (let i = 0; i < this.criteria.length; i++) {
-      const criterion = this.criteria[i];
-
-      if (this.matchesCriterion(atom, criterion)) {
+      if (this.matchesItem(atom, this.criteria[i])) {
         matches.push(`criterion-${i}`);
       }
     }
@@ -164,20 +211,36 @@ export class AtomQueryBuilder {
     return matches;
   }
 
+  /**
+   * Check if atom matches a criterion or every/any member of a group
+   */
+  private matchesItem(atom: AtomNode, item: QueryItem): boolean {
+    if (!isQueryGroup(item)) {
+      return this.matchesCriterion(atom, item);
+    }
+
+    return item.mode === "AND"
+      ? item.items.every((child) => this.matchesItem(atom, child))
+      : item.items.some((child) => this.matchesItem(atom, child));
+  }
+
   /**
    * Check if atom matches a single criterion
    */
   private matchesCriterion(atom: AtomNode, criterion: QueryCriteria): boolean {
     // Type check
     if (criterion.type) {
-      if (Array.isArray(criterion.type)) {
-        if (!criterion.type.includes(atom.type as AtomType)) {
-          return false;
-        }
-      } else {
-        if (atom.type !== criterion.type) {
-          return false;
-        }
+      const types = Array.isArray(criterion.type)
+        ? criterion.type
+        : [criterion.type];
+      const typeMatches = types.some((type) =>
+        criterion.includeSubtypes
+          ? atomTypes.isA(atom.type, type)
+          : atom.type === type,
+      );
+
+      if (!typeMatches) {
+        return false;
       }
     }
 
@@ -206,6 +269,15 @@ export class AtomQueryBuilder {
       }
     }
 
+    if (criterion.maxTruthStrength !== undefined) {
+      if (
+        !atom.truthValue ||
+        atom.truthValue.strength > criterion.maxTruthStrength
+      ) {
+        return false;
+      }
+    }
+
     if (criterion.minTruthConfidence !== undefined) {
       if (
         !atom.truthValue ||
@@ -215,6 +287,29 @@ export class AtomQueryBuilder {
       }
     }
 
+    if (criterion.maxTruthConfidence !== undefined) {
+      if (
+        !atom.truthValue ||
+        atom.truthValue.confidence > criterion.maxTruthConfidence
+      ) {
+        return false;
+      }
+    }
+
+    if (
+      criterion.truthStrength &&
+      !inRange(atom.truthValue?.strength, criterion.truthStrength)
+    ) {
+      return false;
+    }
+
+    if (
+      criterion.truthConfidence &&
+      !inRange(atom.truthValue?.confidence, criterion.truthConfidence)
+    ) {
+      return false;
+    }
+
     // Children checks
     if (criterion.hasChildren !== undefined) {
       const hasChildren = atom.children && atom.children.length > 0;
@@ -292,124 +387,15 @@ export class AtomQueryBuilder {
 }
 
 /**
- * Pattern matching query
+ * Check a truth value component against a range; atoms without a truth
+ * value never match
  */
-export interface Pattern {
-  type?: AtomType;
-  name?: string;
-  children?: (Pattern | "ANY" | "VARIABLE")[];
-  truthValue?: Partial<TruthValue>;
-}
-
-/**
- * Pattern Matcher
- */
-export class PatternMatcher {
-  /**
-   * Find atoms matching a pattern
-   */
-  match(atoms: AtomNode[], pattern: Pattern): AtomNode[] {
-    const results: AtomNode[] = [];
-
-    for (const atom of atoms) {
-      if (this.matchesPattern(atom, pattern)) {
-        results.push(atom);
-      }
-
-      // Also check children recursively
-      if (atom.children) {
-        results.push(...this.match(atom.children, pattern));
-      }
-    }
-
-    return results;
-  }
-
-  /**
-   * Check if atom matches pattern
-   */
-  private matchesPattern(atom: AtomNode, pattern: Pattern): boolean {
-    // Type check
-    if (pattern.type && atom.type !== pattern.type) {
-      return false;
-    }
-
-    // Name check
-    if (pattern.name && atom.name !== pattern.name) {
-      return false;
-    }
-
-    // Truth value check
-    if (pattern.truthValue) {
-      if (!atom.truthValue) return false;
-
-      if (
-        pattern.truthValue.strength !== undefined &&
-        atom.truthValue.strength !== pattern.truthValue.strength
-      ) {
-        return false;
-      }
-
-      if (
-        pattern.truthValue.confidence !== undefined &&
-        atom.truthValue.confidence !== pattern.truthValue.confidence
-      ) {
-        return false;
-      }
-    }
-
-    // Children check
-    if (pattern.children) {
-      if (!atom.children || atom.children.length !== pattern.children.length) {
-        return false;
-      }
-
-      for (let i = 0; i < pattern.children.length; i++) {
-        const childPattern = pattern.children[i];
-
-        if (childPattern === "ANY") {
-          continue; // Accept any atom
-        }
-
-        if (childPattern === "VARIABLE") {
-          continue; // Accept any atom (variable binding)
-        }
-
-        if (!this.matchesPattern(atom.children[i], childPattern as Pattern)) {
-          return false;
-        }
-      }
-    }
-
-    return true;
-  }
-
-  /**
-   * Extract variables from pattern match
-   */
-  extractVariables(
-    atom: AtomNode,
-    pattern: Pattern,
-  ): Record<string, AtomNode> | null {
-    const variables: Record<string, AtomNode> = {};
-
-    if (!this.matchesPatternWithVariables(atom, pattern, variables)) {
-      return null;
-    }
+function inRange(value: number | undefined, range: TruthRange): boolean {
+  if (value === undefined) return false;
 
-    return variables;
-  }
-
-  /**
-   * Match pattern and extract variables
-   */
-  private matchesPatternWithVariables(
-    atom: AtomNode,
-    pattern: Pattern,
-    variables: Record<string, AtomNode>,
-  ): boolean {
-    // Same as matchesPattern but also extracts VARIABLE bindings
-    // (simplified implementation)
-    return this.matchesPattern(atom, pattern);
+  const { min, max, exclusive } = range;
+  if (min !== undefined && (exclusive ? value <= min : value < min)) {
+    return false;
   }
+  return max === undefined || (exclusive ? value < max : value <= max);
 }
@@ -0,0 +1,569 @@
+/**
+ * Query Language
+ * Compact textual syntax for AtomQueryBuilder queries
+ *
+ *   type:InheritanceLink name~/cat/i tv.strength>0.7 depth<=2
+ *   (type:ConceptNode OR isa:Link) AND name~^ca order:confidence:asc limit:20
+ *
+ * Filters:
+ *   type:A,B            exact atom type (short names like Concept resolve,
+ *                       unregistered *Node and *Link names are allowed)
+ *   isa:Link            type or any of its subtypes
+ *   name:cat            exact name ("quoted names" may contain spaces)
+ *   name~/^ca/i         regular expression (g and y flags are ignored);
+ *                       name~cat is case-insensitive
+ *   tv.strength>=0.7    also tv.confidence, strength, confidence
+ *   depth<=2            also children (outgoing set size)
+ *   cat                 bare words search names, like name~cat
+ * Comparisons: ":" or "=" for equality, > >= < <=; > and < are strict.
+ * NOT is not supported and, like other unknown keywords, is an error.
+ *
+ * Filters separated by whitespace (or AND) must all match, OR binds looser
+ * than AND and parentheses group. `order:` and `limit:` apply to the whole
+ * query and may appear anywhere at the top level.
+ */
+
+import { atomTypes } from "../atom-types";
+import { ParseError, SourcePosition } from "../sexpr";
+import type {
+  QueryCriteria,
+  QueryGroup,
+  QueryItem,
+  QuerySortField,
+  TruthRange,
+} from "./query-builder";
+
+/**
+ * Parsed query string
+ */
+export interface ParsedQuery {
+  where: QueryGroup; // Top-level combination
+  orderBy?: { field: QuerySortField; order: "asc" | "desc" };
+  limit?: number;
+}
+
+/**
+ * Autocompletion candidate for the token under the cursor
+ */
+export interface QueryCompletion {
+  label: string; // Text shown in the suggestion list
+  insert: string; // Replacement for the token under the cursor
+  from: number; // Token start offset
+  to: number; // Token end offset
+}
+
+type Comparison = "=" | ">" | ">=" | "<" | "<=" | "~";
+
+type QueryToken =
+  | { kind: "open" | "close"; offset: number }
+  | { kind: "keyword"; value: "AND" | "OR"; offset: number }
+  | {
+      kind: "filter";
+      field: string;
+      op: Comparison;
+      value: string;
+      regex?: { source: string; flags: string };
+      offset: number; // Start of the filter
+      valueOffset: number; // Start of the value
+    };
+
+const FIELD_ALIASES: Record<string, string> = {
+  type: "type",
+  isa: "isa",
+  name: "name",
+  "tv.strength": "strength",
+  strength: "strength",
+  "tv.confidence": "confidence",
+  confidence: "confidence",
+  depth: "depth",
+  children: "children",
+  arity: "children",
+  order: "order",
+  limit: "limit",
+};
+
+const ORDER_FIELDS: Record<string, QuerySortField> = {
+  relevance: "relevance",
+  strength: "truth-strength",
+  confidence: "truth-confidence",
+  name: "name",
+};
+
+/**
+ * Field names offered by autocompletion, in display order
+ */
+export const QUERY_FIELDS = [
+  "type:",
+  "isa:",
+  "name:",
+  "name~",
+  "tv.strength>",
+  "tv.confidence>",
+  "depth<=",
+  "children:",
+  "order:",
+  "limit:",
+];
+
+const OPERATORS: Comparison[] = [">=", "<=", ">", "<", "=", "~"];
+
+// Bare words rejected rather than searched for as names
+const UNSUPPORTED_KEYWORDS = /^(not|xor)$/i;
+
+/**
+ * Parse a query string
+ * Throws ParseError with the offset of the offending token.
+ */
+export function parseQuery(query: string): ParsedQuery {
+  return new QueryParser(query).parse();
+}
+
+/**
+ * Suggestions for the token ending at `cursor`: field names, atom types
+ * after type:/isa:, and sort fields after order:
+ */
+export function getQueryCompletions(
+  query: string,
+  cursor: number = query.length,
+): QueryCompletion[] {
+  let from = cursor;
+  while (from > 0 && !/[\s()]/.test(query[from - 1])) from--;
+  const token = query.slice(from, cursor);
+  const field = token.match(/^(type|isa|order):(.*)$/i);
+
+  if (field) {
+    const prefix = `${field[1]}:`;
+    const partial = field[2].split(",").pop()!.toLowerCase();
+    const listed = field[2].slice(0, field[2].length - partial.length);
+    const options =
+      field[1].toLowerCase() === "order"
+        ? Object.keys(ORDER_FIELDS)
+        : atomTypes
+            .getTypes()
+            .map((info) => info.name)
+            .filter(
+              (type) =>
+                field[1].toLowerCase() === "isa" || !atomTypes.isAbstract(type),
+            )
+            .sort();
+
+    return options
+      .filter((option) => option.toLowerCase().startsWith(partial))
+      .map((option) => ({
+        label: option,
+        insert: `${prefix}${listed}${option}`,
+        from,
+        to: cursor,
+      }));
+  }
+
+  if (!token || /[:=<>~]/.test(token)) return [];
+
+  return QUERY_FIELDS.filter((name) =>
+    name.startsWith(token.toLowerCase()),
+  ).map((name) => ({ label: name, insert: name, from, to: cursor }));
+}
+
+/**
+ * Replace the completed token and return the new text and cursor offset
+ */
+export function applyQueryCompletion(
+  query: string,
+  completion: QueryCompletion,
+): { query: string; cursor: number } {
+  return {
+    query:
+      query.slice(0, completion.from) +
+      completion.insert +
+      query.slice(completion.to),
+    cursor: completion.from + completion.insert.length,
+  };
+}
+
+class QueryParser {
+  private source: string;
+  private tokens: QueryToken[];
+  private index = 0;
+  private result: ParsedQuery = { where: { mode: "AND", items: [] } };
+
+  constructor(source: string) {
+    this.source = source;
+    this.tokens = tokenize(source);
+  }
+
+  parse(): ParsedQuery {
+    const where = this.parseOr(0);
+    const next = this.tokens[this.index];
+    if (next) {
+      throw this.error("Unexpected ')'", next.offset);
+    }
+
+    // Keep the top level a group so callers can apply combine()
+    this.result.where =
+      where && isQueryGroup(where)
+        ? where
+        : { mode: "AND", items: where ? [where] : [] };
+    return this.result;
+  }
+
+  private parseOr(depth: number): QueryItem | null {
+    const items: QueryItem[] = [];
+    const first = this.parseAnd(depth);
+    if (first) items.push(first);
+
+    while (this.peekKeyword("OR")) {
+      const keyword = this.tokens[this.index++];
+      const next = this.parseAnd(depth);
+      if (!next) {
+        throw this.error("Expected a filter after OR", keyword.offset);
+      }
+      items.push(next);
+    }
+
+    return items.length > 1 ? { mode: "OR", items } : items[0] ?? null;
+  }
+
+  private parseAnd(depth: number): QueryItem | null {
+    const items: QueryItem[] = [];
+
+    while (this.index < this.tokens.length) {
+      const token = this.tokens[this.index];
+      if (token.kind === "close" || this.peekKeyword("OR")) break;
+
+      if (token.kind === "keyword") {
+        // Explicit AND between two terms
+        this.index++;
+        if (!items.length || !this.startsTerm()) {
+          throw this.error("AND expects a filter on both sides", token.offset);
+        }
+        continue;
+      }
+
+      const item = this.parseTerm(depth);
+      if (item) items.push(item);
+    }
+
+    return items.length > 1 ? { mode: "AND", items } : items[0] ?? null;
+  }
+
+  private parseTerm(depth: number): QueryItem | null {
+    const token = this.tokens[this.index++];
+
+    if (token.kind === "open") {
+      const inner = this.parseOr(depth + 1);
+      const close = this.tokens[this.index];
+      if (!close || close.kind !== "close") {
+        throw this.error("Unclosed '('", token.offset);
+      }
+      this.index++;
+      if (!inner) {
+        throw this.error("Empty group", token.offset);
+      }
+      return inner;
+    }
+
+    if (token.kind !== "filter") {
+      throw this.error("Expected a filter", token.offset);
+    }
+
+    const field = FIELD_ALIASES[token.field.toLowerCase()];
+    if (!field) {
+      throw this.error(`Unknown field '${token.field}'`, token.offset);
+    }
+
+    if (field === "order" || field === "limit") {
+      if (depth > 0) {
+        throw this.error(
+          `${field}: is only allowed at the top level`,
+          token.offset,
+        );
+      }
+      this.applyModifier(field, token);
+      return null;
+    }
+
+    return this.buildCriterion(field, token);
+  }
+
+  private applyModifier(
+    field: "order" | "limit",
+    token: Extract<QueryToken, { kind: "filter" }>,
+  ): void {
+    this.expectOp(token, ["="]);
+
+    if (field === "limit") {
+      const limit = Number(token.value);
+      if (!Number.isInteger(limit) || limit <= 0) {
+        throw this.error(
+          "limit: expects a positive integer",
+          token.valueOffset,
+        );
+      }
+      this.result.limit = limit;
+      return;
+    }
+
+    const [name, direction = "desc"] = token.value.toLowerCase().split(":");
+    const sortField = ORDER_FIELDS[name];
+    if (!sortField || (direction !== "asc" && direction !== "desc")) {
+      throw this.error(
+        `order: expects ${Object.keys(ORDER_FIELDS).join(", ")} with optional :asc or :desc`,
+        token.valueOffset,
+      );
+    }
+    this.result.orderBy = { field: sortField, order: direction };
+  }
+
+  private buildCriterion(
+    field: string,
+    token: Extract<QueryToken, { kind: "filter" }>,
+  ): QueryCriteria {
+    switch (field) {
+      case "type":
+      case "isa": {
+        this.expectOp(token, ["="]);
+        const types = token.value.split(",").map((name) => {
+          const type = atomTypes.resolve(name);
+          if (!name || (!atomTypes.has(type) && !/(Node|Link)$/.test(type))) {
+            throw this.error(`Unknown atom type '${name}'`, token.valueOffset);
+          }
+          return type;
+        });
+        return {
+          type: types.length === 1 ? types[0] : types,
+          includeSubtypes: field === "isa",
+        };
+      }
+
+      case "name":
+        this.expectOp(token, ["=", "~"]);
+        if (token.op === "=") return { name: token.value };
+        try {
+          // g and y would make test() resume from the previous match
+          return {
+            name: token.regex
+              ? new RegExp(
+                  token.regex.source,
+                  token.regex.flags.replace(/[gy]/g, ""),
+                )
+              : new RegExp(token.value, "i"),
+          };
+        } catch (error) {
+          throw this.error(
+            error instanceof Error
+              ? error.message
+              : `Invalid regular expression: ${token.value}`,
+            token.valueOffset,
+          );
+        }
+
+      case "strength":
+      case "confidence": {
+        const value = this.number(token);
+        const range: TruthRange =
+          token.op === "="
+            ? { min: value, max: value }
+            : token.op === ">" || token.op === ">="
+              ? { min: value, exclusive: token.op === ">" }
+              : { max: value, exclusive: token.op === "<" };
+        return field === "strength"
+          ? { truthStrength: range }
+          : { truthConfidence: range };
+      }
+
+      default: {
+        // depth, children
+        const value = this.number(token);
+        if (!Number.isInteger(value)) {
+          throw this.error(
+            `${token.field} expects an integer`,
+            token.valueOffset,
+          );
+        }
+        const range =
+          token.op === "="
+            ? value
+            : token.op === ">"
+              ? { min: value + 1 }
+              : token.op === ">="
+                ? { min: value }
+                : token.op === "<"
+                  ? { max: value - 1 }
+                  : { max: value };
+        return field === "depth" ? { depth: range } : { childCount: range };
+      }
+    }
+  }
+
+  private number(token: Extract<QueryToken, { kind: "filter" }>): number {
+    this.expectOp(token, ["=", ">", ">=", "<", "<="]);
+    const value = Number(token.value);
+    if (token.value === "" || isNaN(value)) {
+      throw this.error(`${token.field} expects a number`, token.valueOffset);
+    }
+    return value;
+  }
+
+  private expectOp(
+    token: Extract<QueryToken, { kind: "filter" }>,
+    allowed: Comparison[],
+  ): void {
+    if (!allowed.includes(token.op)) {
+      throw this.error(
+        `'${token.op === "=" ? ":" : token.op}' is not supported for ${token.field}`,
+        token.offset + token.field.length,
+      );
+    }
+  }
+
+  private peekKeyword(value: "AND" | "OR"): boolean {
+    const token = this.tokens[this.index];
+    return token?.kind === "keyword" && token.value === value;
+  }
+
+  private startsTerm(): boolean {
+    const token = this.tokens[this.index];
+    return token?.kind === "open" || token?.kind === "filter";
+  }
+
+  private error(reason: string, offset: number): ParseError {
+    return new ParseError(reason, position(this.source, offset));
+  }
+}
+
+function tokenize(source: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const ch = source[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "(" || ch === ")") {
+      tokens.push({ kind: ch === "(" ? "open" : "close", offset: i });
+      i++;
+    } else if (ch === "|" || ch === "&") {
+      // || and && as alternatives to OR/AND
+      const doubled = source[i + 1] === ch;
+      tokens.push({
+        kind: "keyword",
+        value: ch === "|" ? "OR" : "AND",
+        offset: i,
+      });
+      i += doubled ? 2 : 1;
+    } else {
+      const offset = i;
+      while (i < source.length && /[A-Za-z0-9_.-]/.test(source[i])) i++;
+      const field = source.slice(offset, i);
+
+      if (!field) {
+        throw new ParseError(`Unexpected '${ch}'`, position(source, offset));
+      }
+
+      const op = OPERATORS.find((candidate) => source.startsWith(candidate, i));
+      const colon = source[i] === ":";
+      if (!op && !colon) {
+        if (/^(and|or)$/i.test(field)) {
+          tokens.push({
+            kind: "keyword",
+            value: field.toUpperCase() as "AND" | "OR",
+            offset,
+          });
+          continue;
+        }
+        if (UNSUPPORTED_KEYWORDS.test(field)) {
+          throw new ParseError(
+            `Unknown keyword '${field}'`,
+            position(source, offset),
+          );
+        }
+        tokens.push({
+          kind: "filter",
+          field: "name",
+          op: "~",
+          value: field,
+          offset,
+          valueOffset: offset,
+        });
+        continue;
+      }
+
+      i += colon ? 1 : op!.length;
+      const valueOffset = i;
+      const value = readValue(source, i);
+      i = value.end;
+
+      tokens.push({
+        kind: "filter",
+        field,
+        op: colon ? "=" : op!,
+        value: value.text,
+        regex: value.regex,
+        offset,
+        valueOffset,
+      });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a bare, "quoted" or /regex/flags value starting at `start`
+ */
+function readValue(
+  source: string,
+  start: number,
+): { text: string; end: number; regex?: { source: string; flags: string } } {
+  const quote = source[start];
+
+  if (quote === '"' || quote === "/") {
+    let i = start + 1;
+    let text = "";
+    while (i < source.length && source[i] !== quote) {
+      if (source[i] === "\\" && i + 1 < source.length) {
+        // Keep escapes inside regexes, unescape quoted names
+        text += quote === "/" && source[i + 1] !== "/" ? source[i] : "";
+        i++;
+      }
+      text += source[i++];
+    }
+    if (i >= source.length) {
+      throw new ParseError(
+        quote === "/"
+          ? "Unterminated regular expression"
+          : "Unterminated string",
+        position(source, start),
+      );
+    }
+    i++;
+
+    if (quote === '"') return { text, end: i };
+
+    const flagsStart = i;
+    while (i < source.length && /[a-z]/i.test(source[i])) i++;
+    return {
+      text,
+      end: i,
+      regex: { source: text, flags: source.slice(flagsStart, i) },
+    };
+  }
+
+  let i = start;
+  while (i < source.length && !/[\s()]/.test(source[i])) i++;
+  return { text: source.slice(start, i), end: i };
+}
+
+function position(source: string, offset: number): SourcePosition {
+  const before = source.slice(0, offset).split("\n");
+  return {
+    offset,
+    line: before.length,
+    column: before[before.length - 1].length + 1,
+  };
+}
+
+export function isQueryGroup(item: QueryItem): item is QueryGroup {
+  return "items" in item && Array.isArray((item as QueryGroup).items);
+}
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "@jest/globals";
+import {
+  BANDIT_ALGORITHMS,
+  BanditAlgorithm,
+  CONTEXT_DIMENSIONS,
+  ContextualBandit,
+  contextFeatures,
+  createBandit,
+} from "./bandits";
+
+const REWARDS: Record<string, number> = { good: 0.8, poor: 0.3 };
+
+/**
+ * Play a stationary problem and count how often the better arm is taken
+ * over the last half of the rounds
+ */
+function play(bandit: ContextualBandit, rounds: number): number {
+  const features = contextFeatures({});
+  let good = 0;
+  for (let round = 0; round < rounds; round++) {
+    const action = bandit.select(Object.keys(REWARDS), features);
+    bandit.update(action, features, REWARDS[action]);
+    if (round >= rounds / 2 && action === "good") good++;
+  }
+  return good / (rounds / 2);
+}
+
+describe("bandits", () => {
+  it.each(BANDIT_ALGORITHMS)("%s settles on the better action", (algorithm) => {
+    const bandit = createBandit(algorithm, { explorationRate: 0.1 });
+    expect(bandit.algorithm).toBe(algorithm);
+    expect(play(bandit, 400)).toBeGreaterThan(0.75);
+    expect(bandit.expectedReward("good", contextFeatures({}))).toBeGreaterThan(
+      bandit.expectedReward("poor", contextFeatures({})),
+    );
+  });
+
+  it("UCB1 tries every action before exploiting", () => {
+    const bandit = createBandit("ucb1");
+    const features = contextFeatures({});
+    const actions = ["a", "b", "c"];
+    const taken = actions.map(() => {
+      const action = bandit.select(actions, features);
+      bandit.update(action, features, 1);
+      return action;
+    });
+    expect(taken.sort()).toEqual(actions);
+  });
+
+  it("LinUCB picks the action that suits the context", () => {
+    const bandit = createBandit("linucb", { exploration: 0.1 });
+    const actions = ["translate", "reason"];
+    const contexts = [{ kind: "text" }, { kind: "logic" }];
+    const best = (context: { kind: string }) =>
+      context.kind === "text" ? "translate" : "reason";
+
+    for (let round = 0; round < 100; round++) {
+      const context = contexts[round % 2];
+      const features = contextFeatures(context);
+      const action = bandit.select(actions, features);
+      bandit.update(action, features, action === best(context) ? 1 : 0);
+    }
+
+    for (const context of contexts) {
+      expect(bandit.select(actions, contextFeatures(context))).toBe(
+        best(context),
+      );
+    }
+  });
+
+  it("rejects unknown algorithms", () => {
+    expect(() => createBandit("softmax" as BanditAlgorithm)).toThrow(
+      "Unknown bandit algorithm",
+    );
+  });
+});
+
+describe("contextFeatures", () => {
+  it("hashes a context into a bias term and a unit vector", () => {
+    const features = contextFeatures({
+      capability: "deduction",
+      priority: 2,
+      urgent: true,
+    });
+    const rest = features.slice(1);
+
+    expect(features).toHaveLength(CONTEXT_DIMENSIONS);
+    expect(features[0]).toBe(1);
+    expect(Math.hypot(...rest)).toBeCloseTo(1);
+    expect(
+      contextFeatures({ capability: "deduction", priority: 2, urgent: true }),
+    ).toEqual(features);
+  });
+
+  it("ignores values that are not strings, numbers or true", () => {
+    expect(
+      contextFeatures({ missing: undefined, off: false, list: [1], nan: NaN }),
+    ).toEqual(contextFeatures({}));
+  });
+});
@@ -0,0 +1,327 @@
+/**
+ * Contextual Bandits
+ * Action selection for agent learning: epsilon-greedy, UCB1, Thompson
+ * sampling with Beta posteriors, and LinUCB over hashed context features.
+ * Rewards are in [0, 1].
+ */
+
+import { fnv1a } from "./embedding";
+
+export type BanditAlgorithm = "epsilon-greedy" | "ucb1" | "thompson" | "linucb";
+
+export const BANDIT_ALGORITHMS: BanditAlgorithm[] = [
+  "epsilon-greedy",
+  "ucb1",
+  "thompson",
+  "linucb",
+];
+
+/**
+ * Length of the context feature vectors, including the bias term
+ */
+export const CONTEXT_DIMENSIONS = 16;
+
+export interface BanditOptions {
+  explorationRate?: number; // Epsilon, for epsilon-greedy
+  exploration?: number; // Width of the confidence bound, for UCB1 and LinUCB
+  dimensions?: number; // Context feature length, for LinUCB
+}
+
+/**
+ * Chooses among actions and learns from the rewards they bring. Bandits
+ * that ignore the context still take it, so they are interchangeable.
+ */
+export interface ContextualBandit {
+  readonly algorithm: BanditAlgorithm;
+  select(actions: string[], features: number[]): string;
+  update(action: string, features: number[], reward: number): void;
+  expectedReward(action: string, features: number[]): number; // Current estimate
+}
+
+interface ArmStatistics {
+  pulls: number;
+  totalReward: number;
+}
+
+/**
+ * Shared bookkeeping for the bandits that keep a mean reward per action
+ */
+abstract class MeanRewardBandit implements ContextualBandit {
+  abstract readonly algorithm: BanditAlgorithm;
+  protected arms: Map<string, ArmStatistics> = new Map();
+
+  abstract select(actions: string[], features: number[]): string;
+
+  update(action: string, _features: number[], reward: number): void {
+    const arm = this.arms.get(action) || { pulls: 0, totalReward: 0 };
+    arm.pulls++;
+    arm.totalReward += reward;
+    this.arms.set(action, arm);
+  }
+
+  /**
+   * Mean observed reward; 0.5 for actions never taken
+   */
+  expectedReward(action: string): number {
+    const arm = this.arms.get(action);
+    return arm && arm.pulls > 0 ? arm.totalReward / arm.pulls : 0.5;
+  }
+
+  protected pulls(action: string): number {
+    return this.arms.get(action)?.pulls ?? 0;
+  }
+}
+
+/**
+ * Takes a random action with probability epsilon, else the best mean
+ */
+export class EpsilonGreedyBandit extends MeanRewardBandit {
+  readonly algorithm = "epsilon-greedy";
+  private explorationRate: number;
+
+  constructor(explorationRate: number = 0.2) {
+    super();
+    this.explorationRate = explorationRate;
+  }
+
+  select(actions: string[]): string {
+    if (Math.random() < this.explorationRate) {
+      return actions[Math.floor(Math.random() * actions.length)];
+    }
+    return argmax(actions, (action) => this.expectedReward(action));
+  }
+}
+
+/**
+ * Upper confidence bound: tries every action once, then picks the best
+ * mean plus a bonus that shrinks as an action is taken more often
+ */
+export class UCB1Bandit extends MeanRewardBandit {
+  readonly algorithm = "ucb1";
+  private exploration: number;
+
+  constructor(exploration: number = 1) {
+    super();
+    this.exploration = exploration;
+  }
+
+  select(actions: string[]): string {
+    const untried = actions.find((action) => this.pulls(action) === 0);
+    if (untried !== undefined) return untried;
+
+    const total = actions.reduce((sum, action) => sum + this.pulls(action), 0);
+    return argmax(
+      actions,
+      (action) =>
+        this.expectedReward(action) +
+        this.exploration *
+          Math.sqrt((2 * Math.log(total)) / this.pulls(action)),
+    );
+  }
+}
+
+/**
+ * Thompson sampling: draws a success rate for each action from its Beta
+ * posterior and picks the highest draw. Partial rewards count as
+ * fractional successes.
+ */
+export class ThompsonBandit implements ContextualBandit {
+  readonly algorithm = "thompson";
+  private posteriors: Map<string, { alpha: number; beta: number }> = new Map();
+
+  select(actions: string[]): string {
+    return argmax(actions, (action) => {
+      const { alpha, beta } = this.posterior(action);
+      return sampleBeta(alpha, beta);
+    });
+  }
+
+  update(action: string, _features: number[], reward: number): void {
+    const posterior = this.posterior(action);
+    posterior.alpha += reward;
+    posterior.beta += 1 - reward;
+    this.posteriors.set(action, posterior);
+  }
+
+  expectedReward(action: string): number {
+    const { alpha, beta } = this.posterior(action);
+    return alpha / (alpha + beta);
+  }
+
+  private posterior(action: string): { alpha: number; beta: number } {
+    return this.posteriors.get(action) || { alpha: 1, beta: 1 };
+  }
+}
+
+/**
+ * Disjoint LinUCB: a ridge regression of reward on the context features
+ * per action, picked by its prediction plus a confidence bound. The
+ * inverse design matrix is kept up to date with Sherman-Morrison.
+ */
+export class LinUCBBandit implements ContextualBandit {
+  readonly algorithm = "linucb";
+  private exploration: number;
+  private dimensions: number;
+  private models: Map<string, { inverse: number[][]; b: number[] }> = new Map();
+
+  constructor(
+    exploration: number = 1,
+    dimensions: number = CONTEXT_DIMENSIONS,
+  ) {
+    this.exploration = exploration;
+    this.dimensions = dimensions;
+  }
+
+  select(actions: string[], features: number[]): string {
+    return argmax(actions, (action) => {
+      const { inverse } = this.model(action);
+      const spread = Math.sqrt(
+        Math.max(0, dot(features, mulVec(inverse, features))),
+      );
+      return this.expectedReward(action, features) + this.exploration * spread;
+    });
+  }
+
+  update(action: string, features: number[], reward: number): void {
+    const model = this.model(action);
+    const ax = mulVec(model.inverse, features);
+    const denominator = 1 + dot(features, ax);
+
+    // A⁻¹ ← A⁻¹ − (A⁻¹x)(A⁻¹x)ᵀ / (1 + xᵀA⁻¹x); A⁻¹ is symmetric
+    model.inverse = model.inverse.map((row, i) =>
+      row.map((value, j) => value - (ax[i] * ax[j]) / denominator),
+    );
+    model.b = model.b.map((value, i) => value + reward * features[i]);
+    this.models.set(action, model);
+  }
+
+  expectedReward(action: string, features: number[]): number {
+    const { inverse, b } = this.model(action);
+    return dot(mulVec(inverse, b), features);
+  }
+
+  private model(action: string): { inverse: number[][]; b: number[] } {
+    const model = this.models.get(action);
+    if (model) return model;
+
+    const d = this.dimensions;
+    return {
+      inverse: Array.from({ length: d }, (_, i) =>
+        Array.from({ length: d }, (_, j) => (i === j ? 1 : 0)),
+      ),
+      b: new Array<number>(d).fill(0),
+    };
+  }
+}
+
+export function createBandit(
+  algorithm: BanditAlgorithm,
+  options: BanditOptions = {},
+): ContextualBandit {
+  switch (algorithm) {
+    case "ucb1":
+      return new UCB1Bandit(options.exploration);
+    case "thompson":
+      return new ThompsonBandit();
+    case "linucb":
+      return new LinUCBBandit(options.exploration, options.dimensions);
+    case "epsilon-greedy":
+      return new EpsilonGreedyBandit(options.explorationRate);
+    default:
+      throw new Error(`Unknown bandit algorithm: ${algorithm}`);
+  }
+}
+
+/**
+ * Hash a task context into a feature vector: a bias term, then strings
+ * and booleans as indicator features and numbers as values, scaled to
+ * unit length
+ */
+export function contextFeatures(
+  context: Record<string, any>,
+  dimensions: number = CONTEXT_DIMENSIONS,
+): number[] {
+  const features = new Array<number>(dimensions).fill(0);
+  const add = (feature: string, value: number) => {
+    features[1 + (fnv1a(feature) % (dimensions - 1))] += value;
+  };
+
+  for (const [key, value] of Object.entries(context)) {
+    if (typeof value === "number" && isFinite(value)) {
+      add(key, Math.tanh(value));
+    } else if (typeof value === "boolean") {
+      if (value) add(key, 1);
+    } else if (typeof value === "string") {
+      add(`${key}=${value}`, 1);
+    }
+  }
+
+  const norm = Math.sqrt(features.reduce((sum, x) => sum + x * x, 0));
+  const scaled = norm > 0 ? features.map((x) => x / norm) : features;
+  scaled[0] = 1;
+  return scaled;
+}
+
+function argmax(actions: string[], score: (action: string) => number): string {
+  let best = actions[0];
+  let bestScore = -Infinity;
+  for (const action of actions) {
+    const value = score(action);
+    if (value > bestScore) {
+      bestScore = value;
+      best = action;
+    }
+  }
+  return best;
+}
+
+function dot(a: number[], b: number[]): number {
+  return a.reduce((sum, x, i) => sum + x * b[i], 0);
+}
+
+function mulVec(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => dot(row, vector));
+}
+
+/**
+ * Draw from Beta(alpha, beta) as the ratio of two Gamma draws
+ */
+function sampleBeta(alpha: number, beta: number): number {
+  const x = sampleGamma(alpha);
+  const y = sampleGamma(beta);
+  return x + y > 0 ? x / (x + y) : 0.5;
+}
+
+/**
+ * Marsaglia-Tsang Gamma(shape, 1) sampler
+ */
+function sampleGamma(shape: number): number {
+  if (shape < 1) {
+    return sampleGamma(shape + 1) * Math.pow(Math.random(), 1 / shape);
+  }
+
+  const d = shape - 1 / 3;
+  const c = 1 / Math.sqrt(9 * d);
+  for (;;) {
+    let x: number;
+    let v: number;
+    do {
+      x = sampleNormal();
+      v = 1 + c * x;
+    } while (v <= 0);
+
+    v = v * v * v;
+    const u = Math.random();
+    if (u < 1 - 0.0331 * x * x * x * x) return d * v;
+    if (Math.log(u) < 0.5 * x * x + d * (1 - v + Math.log(v))) return d * v;
+  }
+}
+
+/**
+ * Standard normal draw (Box-Muller)
+ */
+function sampleNormal(): number {
+  const u = 1 - Math.random();
+  const v = Math.random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
@@ -0,0 +1,399 @@
+/**
+ * Memory Consolidation
+ * Policies that decide which memories to forget, and summarization of
+ * old experiences into knowledge before they are forgotten
+ */
+
+import type { LLMApi, LLMConfig } from "../../client/api";
+import { contentText, cosineSimilarity } from "./embedding";
+import type { MemoryEntry } from "./persistent";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * A memory a policy would forget, and why
+ */
+export interface ConsolidationCandidate {
+  entry: MemoryEntry;
+  policy: string;
+  reason: string;
+}
+
+/**
+ * Decides which memories to forget. Policies run in order, each over the
+ * entries the earlier ones kept.
+ */
+export interface ConsolidationPolicy {
+  readonly name: string;
+  select(entries: MemoryEntry[], now: number): ConsolidationCandidate[];
+}
+
+export interface ThresholdPolicyOptions {
+  maxImportance?: number; // Forget only below this importance
+  minAge?: number; // ms since creation
+  minIdle?: number; // ms since last access
+}
+
+/**
+ * Forgets unimportant memories that are old and have not been accessed
+ * recently; the defaults are the original one-week rule
+ */
+export class ThresholdPolicy implements ConsolidationPolicy {
+  readonly name = "threshold";
+  private maxImportance: number;
+  private minAge: number;
+  private minIdle: number;
+
+  constructor(options: ThresholdPolicyOptions = {}) {
+    this.maxImportance = options.maxImportance ?? 0.3;
+    this.minAge = options.minAge ?? 7 * DAY;
+    this.minIdle = options.minIdle ?? 7 * DAY;
+  }
+
+  select(entries: MemoryEntry[], now: number): ConsolidationCandidate[] {
+    return entries
+      .filter(
+        (entry) =>
+          entry.importance < this.maxImportance &&
+          now - entry.timestamp > this.minAge &&
+          now - entry.lastAccessed > this.minIdle,
+      )
+      .map((entry) => ({
+        entry,
+        policy: this.name,
+        reason: `importance ${entry.importance.toFixed(2)} below ${this.maxImportance}, idle ${formatDays(now - entry.lastAccessed)}`,
+      }));
+  }
+}
+
+export type DecayCurve = "exponential" | "hyperbolic" | "linear";
+
+export interface DecayPolicyOptions {
+  curve?: DecayCurve;
+  halfLife?: number; // ms of idleness that halves retention
+  threshold?: number; // Forget below this retention
+  accessBoost?: number; // Retention gained per doubling of the access count
+}
+
+/**
+ * Retention of a memory: its importance, decayed by the time since it was
+ * last accessed and boosted by how often it has been accessed, in [0, 1]
+ */
+export function retentionScore(
+  entry: MemoryEntry,
+  now: number,
+  options: DecayPolicyOptions = {},
+): number {
+  const halfLife = options.halfLife ?? 14 * DAY;
+  const idle = Math.max(0, now - entry.lastAccessed) / halfLife;
+
+  let decay: number;
+  switch (options.curve ?? "exponential") {
+    case "hyperbolic":
+      decay = 1 / (1 + idle);
+      break;
+    case "linear":
+      decay = Math.max(0, 1 - idle / 2);
+      break;
+    default:
+      decay = Math.pow(0.5, idle);
+  }
+
+  const boost =
+    1 + (options.accessBoost ?? 0.1) * Math.log2(1 + entry.accessCount);
+  return Math.min(1, entry.importance * decay * boost);
+}
+
+/**
+ * Forgets memories whose retention has decayed below a threshold
+ */
+export class DecayPolicy implements ConsolidationPolicy {
+  readonly name = "decay";
+  private options: DecayPolicyOptions;
+  private threshold: number;
+
+  constructor(options: DecayPolicyOptions = {}) {
+    this.options = options;
+    this.threshold = options.threshold ?? 0.05;
+  }
+
+  select(entries: MemoryEntry[], now: number): ConsolidationCandidate[] {
+    const candidates: ConsolidationCandidate[] = [];
+    for (const entry of entries) {
+      const retention = retentionScore(entry, now, this.options);
+      if (retention < this.threshold) {
+        candidates.push({
+          entry,
+          policy: this.name,
+          reason: `retention ${retention.toFixed(3)} below ${this.threshold}`,
+        });
+      }
+    }
+    return candidates;
+  }
+}
+
+export interface RetentionPolicyOptions {
+  maxAge?: Partial<Record<MemoryEntry["type"], number>>; // ms, per type
+  keepImportance?: number; // Entries at least this important are kept
+}
+
+/**
+ * Forgets memories older than the maximum age for their type. Types
+ * without a maximum age are kept.
+ */
+export class RetentionPolicy implements ConsolidationPolicy {
+  readonly name = "retention";
+  private maxAge: Partial<Record<MemoryEntry["type"], number>>;
+  private keepImportance: number;
+
+  constructor(options: RetentionPolicyOptions = {}) {
+    this.maxAge = options.maxAge ?? {};
+    this.keepImportance = options.keepImportance ?? 0.8;
+  }
+
+  select(entries: MemoryEntry[], now: number): ConsolidationCandidate[] {
+    return entries
+      .filter((entry) => {
+        const maxAge = this.maxAge[entry.type];
+        return (
+          maxAge !== undefined &&
+          now - entry.timestamp > maxAge &&
+          entry.importance < this.keepImportance
+        );
+      })
+      .map((entry) => ({
+        entry,
+        policy: this.name,
+        reason: `${entry.type} older than ${formatDays(this.maxAge[entry.type]!)}`,
+      }));
+  }
+}
+
+export interface CapacityPolicyOptions {
+  maxEntries: number;
+  perAgent?: boolean; // Apply the limit to each agent separately
+  decay?: DecayPolicyOptions; // How retention is scored
+}
+
+/**
+ * Keeps at most maxEntries memories, forgetting those with the lowest
+ * retention first
+ */
+export class CapacityPolicy implements ConsolidationPolicy {
+  readonly name = "capacity";
+  private options: CapacityPolicyOptions;
+
+  constructor(options: CapacityPolicyOptions) {
+    if (options.maxEntries < 0) {
+      throw new Error(`Invalid memory capacity: ${options.maxEntries}`);
+    }
+    this.options = options;
+  }
+
+  select(entries: MemoryEntry[], now: number): ConsolidationCandidate[] {
+    const groups = new Map<string, MemoryEntry[]>();
+    for (const entry of entries) {
+      const key = this.options.perAgent ? entry.agentId : "";
+      groups.set(key, [...(groups.get(key) || []), entry]);
+    }
+
+    const candidates: ConsolidationCandidate[] = [];
+    groups.forEach((group, agentId) => {
+      const excess = group.length - this.options.maxEntries;
+      if (excess <= 0) return;
+
+      group
+        .map((entry) => ({
+          entry,
+          retention: retentionScore(entry, now, this.options.decay),
+        }))
+        .sort((a, b) => a.retention - b.retention)
+        .slice(0, excess)
+        .forEach(({ entry, retention }) =>
+          candidates.push({
+            entry,
+            policy: this.name,
+            reason: `over capacity of ${this.options.maxEntries}${agentId ? ` for ${agentId}` : ""}, retention ${retention.toFixed(3)}`,
+          }),
+        );
+    });
+    return candidates;
+  }
+}
+
+/**
+ * Serializable policy settings; each present key enables its policy
+ */
+export interface ConsolidationConfig {
+  retention?: RetentionPolicyOptions;
+  threshold?: ThresholdPolicyOptions;
+  decay?: DecayPolicyOptions;
+  capacity?: CapacityPolicyOptions;
+  summarize?: boolean; // Summarize old experiences before forgetting them
+}
+
+export const DEFAULT_CONSOLIDATION_CONFIG: ConsolidationConfig = {
+  threshold: {},
+};
+
+/**
+ * Build the policies a config enables. Capacity runs last so it only
+ * trims what the other policies kept.
+ */
+export function createPolicies(
+  config: ConsolidationConfig,
+): ConsolidationPolicy[] {
+  const policies: ConsolidationPolicy[] = [];
+  if (config.retention) policies.push(new RetentionPolicy(config.retention));
+  if (config.threshold) policies.push(new ThresholdPolicy(config.threshold));
+  if (config.decay) policies.push(new DecayPolicy(config.decay));
+  if (config.capacity) policies.push(new CapacityPolicy(config.capacity));
+  return policies;
+}
+
+/**
+ * Run policies in order; an entry is selected by the first policy that
+ * picks it
+ */
+export function selectForgotten(
+  entries: MemoryEntry[],
+  policies: ConsolidationPolicy[],
+  now: number,
+): ConsolidationCandidate[] {
+  const selected: ConsolidationCandidate[] = [];
+  let remaining = entries;
+
+  for (const policy of policies) {
+    const candidates = policy.select(remaining, now);
+    const ids = new Set(candidates.map((candidate) => candidate.entry.id));
+    selected.push(...candidates);
+    remaining = remaining.filter((entry) => !ids.has(entry.id));
+  }
+  return selected;
+}
+
+/**
+ * Condenses related memories into one text
+ */
+export interface MemorySummarizer {
+  summarize(entries: MemoryEntry[]): Promise<string>;
+}
+
+const SUMMARIZE_PROMPT =
+  "The following are related experiences of an AI agent. Summarize what they " +
+  "have in common and what was learned from them in at most three sentences. " +
+  "Reply with the summary only.";
+
+/**
+ * Summarizer backed by the local LLM
+ */
+export class LLMSummarizer implements MemorySummarizer {
+  private llm: LLMApi;
+  private config: LLMConfig;
+
+  constructor(llm: LLMApi, config: LLMConfig) {
+    this.llm = llm;
+    this.config = config;
+  }
+
+  summarize(entries: MemoryEntry[]): Promise<string> {
+    const experiences = entries
+      .map((entry) => `- ${contentText(entry.content)}`)
+      .join("\n");
+
+    return new Promise((resolve, reject) => {
+      this.llm
+        .chat({
+          messages: [
+            { role: "system", content: SUMMARIZE_PROMPT },
+            { role: "user", content: experiences },
+          ],
+          config: { ...this.config, stream: false, enable_thinking: false },
+          onFinish: (message) => resolve(message.trim()),
+          onError: reject,
+        })
+        .catch(reject);
+    });
+  }
+}
+
+export interface SummarizeOptions {
+  types?: MemoryEntry["type"][]; // Types that are summarized; experiences by default
+  minClusterSize?: number; // Smaller clusters are forgotten as they are
+  similarity?: number; // Cosine similarity needed to join a cluster
+}
+
+/**
+ * Group entries of the same agent whose vectors are similar. Each entry
+ * joins the first cluster whose centroid is similar enough, or starts a
+ * new one.
+ */
+export function clusterEntries(
+  entries: MemoryEntry[],
+  vectors: number[][],
+  similarity: number,
+): MemoryEntry[][] {
+  const clusters: {
+    agentId: string;
+    entries: MemoryEntry[];
+    centroid: number[];
+  }[] = [];
+
+  entries.forEach((entry, i) => {
+    const vector = vectors[i];
+    const cluster = clusters.find(
+      (cluster) =>
+        cluster.agentId === entry.agentId &&
+        cosineSimilarity(cluster.centroid, vector) >= similarity,
+    );
+
+    if (!cluster) {
+      clusters.push({
+        agentId: entry.agentId,
+        entries: [entry],
+        centroid: vector,
+      });
+      return;
+    }
+    const n = cluster.entries.length;
+    cluster.centroid = cluster.centroid.map(
+      (x, j) => (x * n + vector[j]) / (n + 1),
+    );
+    cluster.entries.push(entry);
+  });
+
+  return clusters.map((cluster) => cluster.entries);
+}
+
+/**
+ * A cluster of forgotten memories merged into one knowledge entry
+ */
+export interface ConsolidationSummary {
+  agentId: string;
+  sourceIds: string[];
+  summary?: string; // Missing in dry runs
+  id?: string; // Id of the stored knowledge entry
+}
+
+/**
+ * What a consolidation removed, or in a dry run would remove
+ */
+export interface ConsolidationReport {
+  dryRun: boolean;
+  examined: number;
+  forgotten: ConsolidationCandidate[];
+  summaries: ConsolidationSummary[];
+}
+
+function formatDays(ms: number): string {
+  const days = ms / DAY;
+  return `${days < 10 ? days.toFixed(1) : Math.round(days)} days`;
+}
+
+export interface ConsolidationOptions {
+  policies?: ConsolidationPolicy[]; // The default config's policies if not given
+  dryRun?: boolean; // Report without changing anything
+  summarizer?: MemorySummarizer; // Summarize before forgetting when set
+  summarize?: SummarizeOptions;
+}
@@ -0,0 +1,137 @@
+/**
+ * Memory Embeddings
+ * Text embedders for semantic memory search: a deterministic hashing
+ * embedder that needs no model
+ */
+
+/**
+ * Common English words that carry little meaning on their own
+ */
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be but by for from has have in is it its of on or " +
+    "that the this to was were will with"
+  ).split(" "),
+);
+
+/**
+ * Turns texts into vectors. Vectors from different embedders are not
+ * comparable, so each embedder has an id that is stored with its vectors.
+ */
+export interface Embedder {
+  readonly id: string;
+  embed(texts: string[]): Promise<number[][]>;
+}
+
+/**
+ * Feature-hashing embedder over words, word bigrams and character
+ * trigrams. Deterministic and dependency-free, so it works offline and in
+ * tests; it captures lexical rather than semantic similarity.
+ */
+export class HashingEmbedder implements Embedder {
+  readonly id: string;
+  private dimensions: number;
+
+  constructor(dimensions: number = 256) {
+    this.dimensions = dimensions;
+    this.id = `hashing-${dimensions}`;
+  }
+
+  async embed(texts: string[]): Promise<number[][]> {
+    return texts.map((text) => this.embedText(text));
+  }
+
+  private embedText(text: string): number[] {
+    const vector = new Array<number>(this.dimensions).fill(0);
+    const words = keywords(text);
+
+    const addFeature = (feature: string, weight: number) => {
+      const hash = fnv1a(feature);
+      // The top bit picks the sign, so collisions tend to cancel out
+      vector[hash % this.dimensions] += hash & 0x80000000 ? -weight : weight;
+    };
+
+    words.forEach((word, i) => {
+      addFeature(`w:${word}`, 1);
+      if (i > 0) addFeature(`b:${words[i - 1]} ${word}`, 0.5);
+
+      const padded = `#${word}#`;
+      for (let j = 0; j + 3 <= padded.length; j++) {
+        addFeature(`c:${padded.slice(j, j + 3)}`, 0.25);
+      }
+    });
+
+    return normalize(vector);
+  }
+}
+
+/**
+ * Lower-case word tokens
+ */
+export function tokenize(text: string): string[] {
+  return text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Word tokens without stop words
+ */
+export function keywords(text: string): string[] {
+  return tokenize(text).filter((word) => !STOP_WORDS.has(word));
+}
+
+/**
+ * Cosine similarity; 0 when either vector is empty or the lengths differ
+ */
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
+
+/**
+ * The text of a memory's content: strings as they are, and the string,
+ * number and boolean values of objects and arrays, in order
+ */
+export function contentText(content: unknown): string {
+  if (content === null || content === undefined) return "";
+  if (typeof content === "string") return content;
+  if (typeof content === "number" || typeof content === "boolean") {
+    return String(content);
+  }
+  if (Array.isArray(content)) {
+    return content.map(contentText).filter(Boolean).join(" ");
+  }
+  if (typeof content === "object") {
+    return Object.values(content as Record<string, unknown>)
+      .map(contentText)
+      .filter(Boolean)
+      .join(" ");
+  }
+  return "";
+}
+
+function normalize(vector: number[]): number[] {
+  const norm = Math.sqrt(vector.reduce((sum, x) => sum + x * x, 0));
+  return norm > 0 ? vector.map((x) => x / norm) : vector;
+}
+
+/**
+ * 32-bit FNV-1a hash
+ */
+export function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
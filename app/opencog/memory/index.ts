@@ -4,4 +4,8 @@
  */
 
 export * from "./persistent";
+export * from "./embedding";
+export * from "./bandits";
+export * from "./migrations";
+export * from "./consolidation";
 export * from "./learning";
@@ -6,6 +6,13 @@
 import { nanoid } from "nanoid";
 import log from "loglevel";
 import { PersistentMemory, MemoryEntry } from "./persistent";
+import {
+  BanditAlgorithm,
+  BanditOptions,
+  ContextualBandit,
+  contextFeatures,
+  createBandit,
+} from "./bandits";
 
 /**
  * Learning experience record
@@ -19,6 +26,7 @@ export interface LearningExperience {
   reward: number; // -1 to 1
   context: Record<string, any>;
   timestamp: number;
+  latency?: number; // ms the action took
 }
 
 /**
@@ -36,7 +44,13 @@ export interface Strategy {
 }
 
 /**
- * Agent Learning Engine
+ * Decisions averaged for the recent regret
+ */
+const RECENT_DECISIONS = 20;
+
+/**
+ * Agent Learning Engine. Actions are chosen per task type by a contextual
+ * bandit; strategies keep a readable summary of what worked.
  */
 export class AgentLearning {
   private agentId: string;
@@ -45,23 +59,42 @@ export class AgentLearning {
   private strategies: Map<string, Strategy> = new Map();
   private learningRate: number = 0.1;
   private explorationRate: number = 0.2; // Epsilon for epsilon-greedy
-
-  constructor(agentId: string, memory: PersistentMemory) {
+  private algorithm: BanditAlgorithm;
+  private banditOptions: BanditOptions;
+  private bandits: Map<string, ContextualBandit> = new Map(); // Task type -> bandit
+  private offeredActions: Map<string, string[]> = new Map(); // Task type -> actions of the last selection
+  private regrets: number[] = []; // Estimated regret of each decision
+
+  constructor(
+    agentId: string,
+    memory: PersistentMemory,
+    algorithm: BanditAlgorithm = "epsilon-greedy",
+    banditOptions: BanditOptions = {},
+  ) {
     this.agentId = agentId;
     this.memory = memory;
+    this.algorithm = algorithm;
+    this.banditOptions = banditOptions;
+    this.explorationRate =
+      banditOptions.explorationRate ?? this.explorationRate;
   }
 
   /**
-   * Record a learning experience
+   * Record a learning experience. The reward defaults to 1 for success,
+   * 0.5 for partial success and -1 for failure.
    */
   async recordExperience(
     taskType: string,
     action: string,
     outcome: "success" | "failure" | "partial",
     context: Record<string, any>,
+    latency?: number,
+    reward: number = outcome === "success"
+      ? 1
+      : outcome === "partial"
+        ? 0.5
+        : -1,
   ): Promise<void> {
-    const reward = outcome === "success" ? 1 : outcome === "partial" ? 0.5 : -1;
-
     const experience: LearningExperience = {
       id: nanoid(),
       agentId: this.agentId,
@@ -71,9 +104,11 @@ export class AgentLearning {
       reward,
       context,
       timestamp: Date.now(),
+      latency,
     };
 
     this.experiences.push(experience);
+    this.learn(experience, true);
 
     // Store in persistent memory
     await this.memory.store({
@@ -146,71 +181,162 @@ export class AgentLearning {
   }
 
   /**
-   * Select best action for a given task type and context
+   * Update the task type's bandit with an experience, and estimate the
+   * regret of the decision: how much less the chosen action is now
+   * expected to earn than the best of the actions it was chosen from
+   */
+  private learn(experience: LearningExperience, trackRegret: boolean): void {
+    const features = this.features(experience.context);
+    const bandit = this.getBandit(experience.taskType);
+    bandit.update(experience.action, features, (experience.reward + 1) / 2);
+
+    if (!trackRegret) return;
+
+    const actions = new Set(
+      this.offeredActions.get(experience.taskType) ||
+        this.experiences
+          .filter((e) => e.taskType === experience.taskType)
+          .map((e) => e.action),
+    );
+    actions.add(experience.action);
+
+    const expected = Array.from(actions).map((action) =>
+      bandit.expectedReward(action, features),
+    );
+    this.regrets.push(
+      Math.max(
+        0,
+        Math.max(...expected) -
+          bandit.expectedReward(experience.action, features),
+      ),
+    );
+  }
+
+  private features(context: Record<string, any>): number[] {
+    return contextFeatures(context, this.banditOptions.dimensions);
+  }
+
+  private getBandit(taskType: string): ContextualBandit {
+    let bandit = this.bandits.get(taskType);
+    if (!bandit) {
+      bandit = createBandit(this.algorithm, {
+        ...this.banditOptions,
+        explorationRate: this.explorationRate,
+      });
+      this.bandits.set(taskType, bandit);
+    }
+    return bandit;
+  }
+
+  /**
+   * Switch bandit algorithm. The new bandits are trained on this
+   * session's experiences; regret is tracked afresh.
+   */
+  setAlgorithm(
+    algorithm: BanditAlgorithm,
+    banditOptions: BanditOptions = this.banditOptions,
+  ): void {
+    this.algorithm = algorithm;
+    this.banditOptions = banditOptions;
+    this.regrets = [];
+    this.rebuildBandits();
+  }
+
+  getAlgorithm(): BanditAlgorithm {
+    return this.algorithm;
+  }
+
+  private rebuildBandits(): void {
+    this.bandits.clear();
+    this.experiences.forEach((experience) => this.learn(experience, false));
+  }
+
+  /**
+   * Recall the past experiences most similar to a description of the
+   * task at hand
+   */
+  async recallSimilarExperiences(
+    description: string,
+    k: number = 5,
+  ): Promise<LearningExperience[]> {
+    const results = await this.memory.similar(description, k, {
+      agentId: this.agentId,
+      type: "experience",
+    });
+    return results.map((result) => result.entry.content as LearningExperience);
+  }
+
+  /**
+   * Select an action for a given task type and context with the task
+   * type's bandit
    */
   async selectAction(
     taskType: string,
     context: Record<string, any>,
     availableActions: string[],
   ): Promise<string> {
-    // Epsilon-greedy strategy
-    if (Math.random() < this.explorationRate) {
-      // Explore: random action
-      return availableActions[
-        Math.floor(Math.random() * availableActions.length)
-      ];
+    if (availableActions.length === 0) {
+      throw new Error(`No actions available for ${taskType}`);
     }
 
-    // Exploit: choose best known strategy
-    let bestAction = availableActions[0];
-    let bestScore = -Infinity;
-
-    for (const action of availableActions) {
-      const strategyKey = `${taskType}_${action}`;
-      const strategy = this.strategies.get(strategyKey);
-
-      if (strategy) {
-        // Score based on success rate, confidence, and context match
-        const contextMatch = this.calculateContextMatch(
-          strategy.pattern,
-          context,
-        );
-        const score = strategy.successRate * strategy.confidence * contextMatch;
-
-        if (score > bestScore) {
-          bestScore = score;
-          bestAction = action;
-        }
-      }
-    }
+    this.offeredActions.set(taskType, availableActions);
+    return this.getBandit(taskType).select(
+      availableActions,
+      this.features(context),
+    );
+  }
+
+  /**
+   * Attempts, success rate and average latency of an action on a task
+   * type, over the experiences known to this instance
+   */
+  getActionStatistics(
+    taskType: string,
+    action: string,
+  ): { attempts: number; successRate: number; averageLatency?: number } {
+    const experiences = this.experiences.filter(
+      (e) => e.taskType === taskType && e.action === action,
+    );
+    const timed = experiences.filter((e) => e.latency !== undefined);
 
-    return bestAction;
+    return {
+      attempts: experiences.length,
+      successRate:
+        experiences.length > 0
+          ? experiences.filter((e) => e.outcome === "success").length /
+            experiences.length
+          : 0,
+      averageLatency:
+        timed.length > 0
+          ? timed.reduce((sum, e) => sum + e.latency!, 0) / timed.length
+          : undefined,
+    };
   }
 
   /**
-   * Calculate how well a context matches a pattern
+   * Expected reward of each action in a context, in [-1, 1]
    */
-  private calculateContextMatch(
-    pattern: Record<string, any>,
+  estimateRewards(
+    taskType: string,
     context: Record<string, any>,
-  ): number {
-    const patternKeys = Object.keys(pattern);
-    if (patternKeys.length === 0) return 1.0;
-
-    let matches = 0;
-    for (const key of patternKeys) {
-      if (context[key] === pattern[key]) {
-        matches++;
-      }
-    }
-
-    return matches / patternKeys.length;
+    actions: string[],
+  ): Record<string, number> {
+    const features = this.features(context);
+    const bandit = this.getBandit(taskType);
+    return Object.fromEntries(
+      actions.map((action) => [
+        action,
+        bandit.expectedReward(action, features) * 2 - 1,
+      ]),
+    );
   }
 
   /**
-   * Load strategies from memory
+   * Load strategies from memory, and retrain the bandits on the stored
+   * experiences
    */
   async loadStrategies(): Promise<void> {
+    // Newest first, so the latest snapshot of each strategy wins
     const memories = await this.memory.query({
       agentId: this.agentId,
       type: "skill",
@@ -219,11 +345,25 @@ export class AgentLearning {
     for (const memory of memories) {
       const strategy = memory.content as Strategy;
       const strategyKey = `${strategy.taskType}_${strategy.action}`;
-      this.strategies.set(strategyKey, strategy);
+      if (!this.strategies.has(strategyKey)) {
+        this.strategies.set(strategyKey, strategy);
+      }
     }
 
+    const known = new Set(this.experiences.map((e) => e.id));
+    const stored = (
+      await this.memory.query({ agentId: this.agentId, type: "experience" })
+    )
+      .map((memory) => memory.content as LearningExperience)
+      .filter(
+        (experience) =>
+          experience.id && experience.action && !known.has(experience.id),
+      );
+    this.experiences = [...stored.reverse(), ...this.experiences];
+    this.rebuildBandits();
+
     log.info(
-      `Loaded ${this.strategies.size} strategies for agent ${this.agentId}`,
+      `Loaded ${this.strategies.size} strategies and ${stored.length} experiences for agent ${this.agentId}`,
     );
   }
 
@@ -235,6 +375,11 @@ export class AgentLearning {
     totalStrategies: number;
     averageSuccessRate: number;
     explorationRate: number;
+    algorithm: BanditAlgorithm;
+    decisions: number; // Decisions with tracked regret
+    cumulativeRegret: number;
+    averageRegret: number;
+    recentRegret: number; // Average over the last decisions
   } {
     const strategies = Array.from(this.strategies.values());
     const avgSuccessRate =
@@ -243,11 +388,23 @@ export class AgentLearning {
           strategies.length
         : 0;
 
+    const cumulativeRegret = this.regrets.reduce((sum, r) => sum + r, 0);
+    const recent = this.regrets.slice(-RECENT_DECISIONS);
+
     return {
       totalExperiences: this.experiences.length,
       totalStrategies: strategies.length,
       averageSuccessRate: avgSuccessRate,
       explorationRate: this.explorationRate,
+      algorithm: this.algorithm,
+      decisions: this.regrets.length,
+      cumulativeRegret,
+      averageRegret:
+        this.regrets.length > 0 ? cumulativeRegret / this.regrets.length : 0,
+      recentRegret:
+        recent.length > 0
+          ? recent.reduce((sum, r) => sum + r, 0) / recent.length
+          : 0,
     };
   }
 
@@ -256,6 +413,9 @@ export class AgentLearning {
    */
   setExplorationRate(rate: number): void {
     this.explorationRate = Math.max(0, Math.min(1, rate));
+    if (this.algorithm === "epsilon-greedy") {
+      this.rebuildBandits();
+    }
   }
 
   /**
@@ -277,6 +437,9 @@ export class AgentLearning {
   reset(): void {
     this.experiences = [];
     this.strategies.clear();
+    this.bandits.clear();
+    this.offeredActions.clear();
+    this.regrets = [];
   }
 }
 
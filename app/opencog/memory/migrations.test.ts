@@ -0,0 +1,93 @@
+import "fake-indexeddb/auto";
+import { describe, expect, it } from "@jest/globals";
+import {
+  MEMORY_DB_VERSION,
+  MEMORY_MIGRATIONS,
+  MEMORY_STORES,
+  MemoryMigration,
+  runMigrations,
+} from "./migrations";
+import type { MemoryEntry } from "./persistent";
+
+function open(
+  name: string,
+  version: number,
+  migrations: MemoryMigration[] = MEMORY_MIGRATIONS,
+): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(name, version);
+    request.onupgradeneeded = (event) =>
+      runMigrations(
+        request.result,
+        request.transaction!,
+        event.oldVersion,
+        version,
+        migrations,
+      );
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function getAll<T>(db: IDBDatabase, store: string): Promise<T[]> {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(store).objectStore(store).getAll();
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+function putAll(db: IDBDatabase, store: string, values: object[]) {
+  return new Promise<void>((resolve, reject) => {
+    const transaction = db.transaction(store, "readwrite");
+    values.forEach((value) => transaction.objectStore(store).put(value));
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+const entry = (id: string, type: MemoryEntry["type"]): MemoryEntry => ({
+  id,
+  agentId: "agent",
+  type,
+  content: id,
+  timestamp: 0,
+  importance: 0.5,
+  accessCount: 0,
+  lastAccessed: 0,
+});
+
+describe("memory migrations", () => {
+  it("creates every store in a new database", async () => {
+    const db = await open("fresh", MEMORY_DB_VERSION);
+    expect(Array.from(db.objectStoreNames).sort()).toEqual(
+      Object.values(MEMORY_STORES).sort(),
+    );
+    db.close();
+  });
+
+  it("moves experiences and skills out of the version 1 store", async () => {
+    const v1 = await open("upgrade", 1);
+    await putAll(v1, MEMORY_STORES.memories, [
+      entry("fact", "knowledge"),
+      entry("event", "experience"),
+      entry("habit", "skill"),
+    ]);
+    v1.close();
+
+    const db = await open("upgrade", 2);
+    const ids = async (store: string) =>
+      (await getAll<MemoryEntry>(db, store)).map((record) => record.id);
+    expect(await ids(MEMORY_STORES.memories)).toEqual(["fact"]);
+    expect(await ids(MEMORY_STORES.experiences)).toEqual(["event"]);
+    expect(await ids(MEMORY_STORES.strategies)).toEqual(["habit"]);
+    db.close();
+  });
+
+  it("rejects migrations that are out of order", () => {
+    const migrations = [...MEMORY_MIGRATIONS].reverse();
+    expect(() =>
+      runMigrations({} as IDBDatabase, {} as IDBTransaction, 0, 2, migrations),
+    ).toThrow("out of order");
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Memory Database Migrations
+ * Versioned schema changes for the OpenCogMemory IndexedDB database
+ */
+
+import log from "loglevel";
+import type { MemoryEntry } from "./persistent";
+
+/**
+ * Object stores of the current schema
+ */
+export const MEMORY_STORES = {
+  memories: "memories", // Knowledge and context entries
+  experiences: "experiences",
+  strategies: "strategies", // Skill entries
+  atoms: "atoms",
+  traces: "traces", // PLN inference traces
+} as const;
+
+export type MemoryStoreName =
+  (typeof MEMORY_STORES)[keyof typeof MEMORY_STORES];
+
+/**
+ * Stores holding MemoryEntry records
+ */
+export const ENTRY_STORES: MemoryStoreName[] = [
+  MEMORY_STORES.memories,
+  MEMORY_STORES.experiences,
+  MEMORY_STORES.strategies,
+];
+
+/**
+ * A schema change. Runs inside the upgrade transaction, so it may read
+ * and write records through it but must not await anything else.
+ */
+export interface MemoryMigration {
+  version: number;
+  description: string;
+  migrate: (db: IDBDatabase, transaction: IDBTransaction) => void;
+}
+
+/**
+ * The store a memory entry belongs in
+ */
+export function storeForType(type: MemoryEntry["type"]): MemoryStoreName {
+  switch (type) {
+    case "experience":
+      return MEMORY_STORES.experiences;
+    case "skill":
+      return MEMORY_STORES.strategies;
+    default:
+      return MEMORY_STORES.memories;
+  }
+}
+
+export const MEMORY_MIGRATIONS: MemoryMigration[] = [
+  {
+    version: 1,
+    description: "Single memories store",
+    migrate: (db) => {
+      const store = db.createObjectStore(MEMORY_STORES.memories, {
+        keyPath: "id",
+      });
+      store.createIndex("agentId", "agentId", { unique: false });
+      store.createIndex("type", "type", { unique: false });
+      store.createIndex("importance", "importance", { unique: false });
+      store.createIndex("timestamp", "timestamp", { unique: false });
+    },
+  },
+  {
+    version: 2,
+    description:
+      "Stores for experiences, strategies, atoms and traces; compound indexes",
+    migrate: (db, transaction) => {
+      const memories = transaction.objectStore(MEMORY_STORES.memories);
+      addCompoundIndexes(memories);
+
+      for (const name of [
+        MEMORY_STORES.experiences,
+        MEMORY_STORES.strategies,
+      ]) {
+        const store = db.createObjectStore(name, { keyPath: "id" });
+        store.createIndex("agentId", "agentId", { unique: false });
+        store.createIndex("type", "type", { unique: false });
+        store.createIndex("importance", "importance", { unique: false });
+        store.createIndex("timestamp", "timestamp", { unique: false });
+        addCompoundIndexes(store);
+      }
+
+      for (const name of [MEMORY_STORES.atoms, MEMORY_STORES.traces]) {
+        const store = db.createObjectStore(name, { keyPath: "handle" });
+        store.createIndex("timestamp", "timestamp", { unique: false });
+      }
+
+      // Move experiences and skills out of the shared store
+      memories.openCursor().onsuccess = (event) => {
+        const cursor = (event.target as IDBRequest<IDBCursorWithValue | null>)
+          .result;
+        if (!cursor) return;
+
+        const entry = cursor.value as MemoryEntry;
+        const target = storeForType(entry.type);
+        if (target !== MEMORY_STORES.memories) {
+          transaction.objectStore(target).put(entry);
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+    },
+  },
+];
+
+export const MEMORY_DB_VERSION =
+  MEMORY_MIGRATIONS[MEMORY_MIGRATIONS.length - 1].version;
+
+/**
+ * Apply the migrations after oldVersion, up to newVersion, in order
+ */
+export function runMigrations(
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  newVersion: number = MEMORY_DB_VERSION,
+  migrations: MemoryMigration[] = MEMORY_MIGRATIONS,
+): void {
+  migrations.forEach((migration, i) => {
+    if (i > 0 && migration.version <= migrations[i - 1].version) {
+      throw new Error(
+        `Memory migration ${migration.version} is out of order after ${migrations[i - 1].version}`,
+      );
+    }
+  });
+
+  for (const migration of migrations) {
+    if (migration.version > oldVersion && migration.version <= newVersion) {
+      log.info(
+        `Migrating memory database to version ${migration.version}: ${migration.description}`,
+      );
+      migration.migrate(db, transaction);
+    }
+  }
+}
+
+function addCompoundIndexes(store: IDBObjectStore): void {
+  store.createIndex("agentId_type", ["agentId", "type"], { unique: false });
+  store.createIndex("agentId_importance", ["agentId", "importance"], {
+    unique: false,
+  });
+}
@@ -0,0 +1,46 @@
+import "fake-indexeddb/auto";
+import { afterAll, beforeAll, describe, expect, it } from "@jest/globals";
+import { atomHandle } from "../atomspace";
+import { simpleTV } from "../truth-value";
+import { AtomNode } from "../types";
+import { PersistentMemory } from "./persistent";
+
+// PersistentMemory only opens IndexedDB in a browser window
+Object.assign(globalThis, { window: globalThis });
+
+const link: AtomNode = {
+  type: "InheritanceLink",
+  children: [
+    { type: "ConceptNode", name: "cat" },
+    { type: "ConceptNode", name: "animal" },
+  ],
+  truthValue: simpleTV(0.9, 0.8),
+};
+
+describe("PersistentMemory atoms", () => {
+  const memory = new PersistentMemory();
+  beforeAll(() => memory.initialize());
+  afterAll(() => memory.close());
+
+  it("loads the atoms it saved", async () => {
+    const [handle] = await memory.saveAtoms([link]);
+    expect(handle).toBe(atomHandle(link));
+
+    const atoms = await memory.loadAtoms();
+    expect(atoms).toHaveLength(1);
+    expect(atomHandle(atoms[0])).toBe(handle);
+    expect(atoms[0].truthValue).toEqual(simpleTV(0.9, 0.8));
+  });
+
+  it("replaces atoms saved under the same handle", async () => {
+    await memory.saveAtoms([{ ...link, truthValue: simpleTV(0.5, 0.5) }]);
+    const atoms = await memory.loadAtoms();
+    expect(atoms).toHaveLength(1);
+    expect(atoms[0].truthValue).toEqual(simpleTV(0.5, 0.5));
+  });
+
+  it("deletes atoms by handle", async () => {
+    await memory.deleteAtoms([atomHandle(link)]);
+    expect(await memory.loadAtoms()).toEqual([]);
+  });
+});
@@ -5,6 +5,34 @@
 
 import { nanoid } from "nanoid";
 import log from "loglevel";
+import {
+  Embedder,
+  HashingEmbedder,
+  contentText,
+  cosineSimilarity,
+  keywords,
+} from "./embedding";
+import {
+  ENTRY_STORES,
+  MEMORY_DB_VERSION,
+  MEMORY_STORES,
+  MemoryStoreName,
+  runMigrations,
+  storeForType,
+} from "./migrations";
+import {
+  ConsolidationOptions,
+  ConsolidationReport,
+  ConsolidationSummary,
+  DEFAULT_CONSOLIDATION_CONFIG,
+  SummarizeOptions,
+  clusterEntries,
+  createPolicies,
+  selectForgotten,
+} from "./consolidation";
+import { AtomNode } from "../types";
+import { atomHandle } from "../atomspace";
+import type { InferenceTrace } from "../reasoning/pln";
 
 /**
  * Memory entry structure
@@ -19,6 +47,8 @@ export interface MemoryEntry {
   accessCount: number;
   lastAccessed: number;
   metadata?: Record<string, any>;
+  embedding?: number[]; // Vector of the content text
+  embeddingModel?: string; // Id of the embedder that produced it
 }
 
 /**
@@ -34,13 +64,49 @@ export interface MemoryQuery {
 }
 
 /**
- * IndexedDB-based memory storage
+ * Filters and weighting for semantic search
+ */
+export interface SimilarityQuery {
+  agentId?: string;
+  type?: MemoryEntry["type"];
+  minImportance?: number;
+  keywordWeight?: number; // Share of the score from keyword overlap, 0-1
+  minScore?: number;
+}
+
+/**
+ * A memory ranked by hybrid keyword and vector similarity
+ */
+export interface ScoredMemory {
+  entry: MemoryEntry;
+  score: number;
+  similarity: number; // Cosine similarity of the embeddings
+  keywordScore: number; // IDF-weighted share of query terms in the content
+}
+
+/**
+ * Default share of the hybrid score from keyword overlap
+ */
+const DEFAULT_KEYWORD_WEIGHT = 0.3;
+
+/**
+ * A PLN inference trace as stored, keyed by the conclusion's handle
+ */
+export interface StoredTrace extends InferenceTrace {
+  handle: string;
+  timestamp: number;
+}
+
+/**
+ * IndexedDB-based memory storage. Knowledge and context entries,
+ * experiences and strategies (skills) live in separate stores with the
+ * same indexes; atoms and inference traces have stores of their own.
  */
 export class PersistentMemory {
   private dbName: string = "OpenCogMemory";
-  private dbVersion: number = 1;
-  private storeName: string = "memories";
+  private dbVersion: number = MEMORY_DB_VERSION;
   private db: IDBDatabase | null = null;
+  private embedder: Embedder = new HashingEmbedder();
 
   /**
    * Initialize the database
@@ -61,29 +127,23 @@ export class PersistentMemory {
 
       request.onsuccess = () => {
         this.db = request.result;
+        // Let a newer version open in another tab upgrade the schema
+        this.db.onversionchange = () => this.close();
         log.info("Memory database initialized");
         resolve();
       };
 
+      request.onblocked = () => {
+        log.warn("Memory database upgrade blocked by another open tab");
+      };
+
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result;
-
-        // Create object store
-        if (!db.objectStoreNames.contains(this.storeName)) {
-          const objectStore = db.createObjectStore(this.storeName, {
-            keyPath: "id",
-          });
-
-          // Create indexes
-          objectStore.createIndex("agentId", "agentId", { unique: false });
-          objectStore.createIndex("type", "type", { unique: false });
-          objectStore.createIndex("importance", "importance", {
-            unique: false,
-          });
-          objectStore.createIndex("timestamp", "timestamp", { unique: false });
-
-          log.info("Memory object store created");
-        }
+        runMigrations(
+          request.result,
+          request.transaction!,
+          event.oldVersion,
+          event.newVersion ?? this.dbVersion,
+        );
       };
     });
   }
@@ -102,11 +162,13 @@ export class PersistentMemory {
       ...entry,
       accessCount: 0,
       lastAccessed: Date.now(),
+      ...(await this.embedContent(entry.content)),
     };
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
+      const storeName = storeForType(memory.type);
+      const transaction = this.db!.transaction([storeName], "readwrite");
+      const store = transaction.objectStore(storeName);
       const request = store.add(memory);
 
       request.onsuccess = () => {
@@ -128,26 +190,30 @@ export class PersistentMemory {
     if (!this.db) return null;
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.get(id);
-
-      request.onsuccess = () => {
-        const memory = request.result as MemoryEntry | undefined;
-
-        if (memory) {
-          // Update access statistics
-          memory.accessCount++;
-          memory.lastAccessed = Date.now();
-          store.put(memory);
-        }
-
-        resolve(memory || null);
-      };
+      const transaction = this.db!.transaction(ENTRY_STORES, "readwrite");
+      let found: MemoryEntry | null = null;
+
+      for (const storeName of ENTRY_STORES) {
+        const store = transaction.objectStore(storeName);
+        const request = store.get(id);
+
+        request.onsuccess = () => {
+          const memory = request.result as MemoryEntry | undefined;
+
+          if (memory) {
+            // Update access statistics
+            memory.accessCount++;
+            memory.lastAccessed = Date.now();
+            store.put(memory);
+            found = memory;
+          }
+        };
+      }
 
-      request.onerror = () => {
-        log.error("Failed to retrieve memory:", request.error);
-        reject(request.error);
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => {
+        log.error("Failed to retrieve memory:", transaction.error);
+        reject(transaction.error);
       };
     });
   }
@@ -158,59 +224,221 @@ export class PersistentMemory {
   async query(params: MemoryQuery = {}): Promise<MemoryEntry[]> {
     if (!this.db) return [];
 
-    return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readonly");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.getAll();
+    const storeNames = params.type ? [storeForType(params.type)] : ENTRY_STORES;
+    let results = await new Promise<MemoryEntry[]>((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, "readonly");
+      const found: MemoryEntry[] = [];
+
+      for (const storeName of storeNames) {
+        const request = this.selectEntries(
+          transaction.objectStore(storeName),
+          params,
+        );
+        request.onsuccess = () => found.push(...request.result);
+      }
 
-      request.onsuccess = () => {
-        let results = request.result as MemoryEntry[];
+      transaction.oncomplete = () => resolve(found);
+      transaction.onerror = () => {
+        log.error("Failed to query memories:", transaction.error);
+        reject(transaction.error);
+      };
+    });
 
-        // Apply filters
-        if (params.agentId) {
-          results = results.filter((m) => m.agentId === params.agentId);
-        }
+    // Filters the index did not cover
+    if (params.agentId) {
+      results = results.filter((m) => m.agentId === params.agentId);
+    }
 
-        if (params.type) {
-          results = results.filter((m) => m.type === params.type);
-        }
+    if (params.type) {
+      results = results.filter((m) => m.type === params.type);
+    }
 
-        if (params.minImportance !== undefined) {
-          results = results.filter(
-            (m) => m.importance >= params.minImportance!,
-          );
-        }
+    if (params.minImportance !== undefined) {
+      results = results.filter((m) => m.importance >= params.minImportance!);
+    }
 
-        if (params.searchTerm) {
-          const term = params.searchTerm.toLowerCase();
-          results = results.filter((m) => {
-            const contentStr = JSON.stringify(m.content).toLowerCase();
-            return contentStr.includes(term);
-          });
-        }
+    if (params.searchTerm) {
+      const term = params.searchTerm.toLowerCase();
+      results = results.filter((m) => {
+        const contentStr = JSON.stringify(m.content).toLowerCase();
+        return contentStr.includes(term);
+      });
+    }
 
-        // Sort
-        const sortBy = params.sortBy || "timestamp";
-        results.sort((a, b) => {
-          if (sortBy === "timestamp") return b.timestamp - a.timestamp;
-          if (sortBy === "importance") return b.importance - a.importance;
-          if (sortBy === "accessCount") return b.accessCount - a.accessCount;
-          return 0;
-        });
+    // Sort
+    const sortBy = params.sortBy || "timestamp";
+    results.sort((a, b) => {
+      if (sortBy === "timestamp") return b.timestamp - a.timestamp;
+      if (sortBy === "importance") return b.importance - a.importance;
+      if (sortBy === "accessCount") return b.accessCount - a.accessCount;
+      return 0;
+    });
 
-        // Limit
-        if (params.limit) {
-          results = results.slice(0, params.limit);
-        }
+    // Limit
+    if (params.limit) {
+      results = results.slice(0, params.limit);
+    }
 
-        resolve(results);
-      };
+    return results;
+  }
 
-      request.onerror = () => {
-        log.error("Failed to query memories:", request.error);
-        reject(request.error);
+  /**
+   * Read the entries of one store through the narrowest index for the
+   * query: agentId+type, agentId+importance, then the single-field ones
+   */
+  private selectEntries(
+    store: IDBObjectStore,
+    params: MemoryQuery,
+  ): IDBRequest<MemoryEntry[]> {
+    const { agentId, type, minImportance } = params;
+
+    if (agentId && type) {
+      return store
+        .index("agentId_type")
+        .getAll(IDBKeyRange.only([agentId, type]));
+    }
+    if (agentId) {
+      return store
+        .index("agentId_importance")
+        .getAll(
+          IDBKeyRange.bound(
+            [agentId, minImportance ?? -Infinity],
+            [agentId, Infinity],
+          ),
+        );
+    }
+    if (type) {
+      return store.index("type").getAll(IDBKeyRange.only(type));
+    }
+    if (minImportance !== undefined) {
+      return store
+        .index("importance")
+        .getAll(IDBKeyRange.lowerBound(minImportance));
+    }
+    return store.getAll();
+  }
+
+  /**
+   * Find the k memories most similar to a text. The score mixes cosine
+   * similarity of the embeddings with keyword overlap, so exact terms
+   * such as names still count when the embedder misses them.
+   */
+  async similar(
+    text: string,
+    k: number = 5,
+    params: SimilarityQuery = {},
+  ): Promise<ScoredMemory[]> {
+    const candidates = (
+      await this.query({
+        agentId: params.agentId,
+        type: params.type,
+        minImportance: params.minImportance,
+      })
+    ).filter((entry) => contentText(entry.content).trim() !== "");
+    if (candidates.length === 0 || text.trim() === "") return [];
+
+    await this.embedMissing(candidates);
+    const [queryVector] = await this.embedder.embed([text]);
+    const keywordScores = this.keywordScores(text, candidates);
+    const keywordWeight = params.keywordWeight ?? DEFAULT_KEYWORD_WEIGHT;
+
+    return candidates
+      .map((entry, i) => {
+        const similarity =
+          entry.embeddingModel === this.embedder.id && entry.embedding
+            ? Math.max(0, cosineSimilarity(queryVector, entry.embedding))
+            : 0;
+        return {
+          entry,
+          score:
+            (1 - keywordWeight) * similarity + keywordWeight * keywordScores[i],
+          similarity,
+          keywordScore: keywordScores[i],
+        };
+      })
+      .filter((result) => result.score > (params.minScore ?? 0))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, k);
+  }
+
+  /**
+   * Embed and save the entries missing a current embedding
+   */
+  private async embedMissing(entries: MemoryEntry[]): Promise<number> {
+    const missing = entries.filter(
+      (entry) =>
+        entry.embeddingModel !== this.embedder.id &&
+        contentText(entry.content).trim() !== "",
+    );
+    if (missing.length === 0 || !this.db) return 0;
+
+    const vectors = await this.embedder.embed(
+      missing.map((entry) => contentText(entry.content)),
+    );
+    missing.forEach((entry, i) => {
+      entry.embedding = vectors[i];
+      entry.embeddingModel = this.embedder.id;
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      const transaction = this.db!.transaction(ENTRY_STORES, "readwrite");
+      missing.forEach((entry) =>
+        transaction.objectStore(storeForType(entry.type)).put(entry),
+      );
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        log.error("Failed to save embeddings:", transaction.error);
+        reject(transaction.error);
       };
     });
+
+    log.debug(`Embedded ${missing.length} memories with ${this.embedder.id}`);
+    return missing.length;
+  }
+
+  /**
+   * Embedding fields for a memory's content; empty when there is no text
+   * or the embedder fails, so the entry is embedded again later
+   */
+  private async embedContent(
+    content: unknown,
+  ): Promise<Pick<MemoryEntry, "embedding" | "embeddingModel">> {
+    const text = contentText(content);
+    if (text.trim() === "") return {};
+
+    try {
+      const [embedding] = await this.embedder.embed([text]);
+      return { embedding, embeddingModel: this.embedder.id };
+    } catch (error) {
+      log.warn("Failed to embed memory:", error);
+      return {};
+    }
+  }
+
+  /**
+   * IDF-weighted share of the query's terms found in each entry, in [0, 1]
+   */
+  private keywordScores(text: string, entries: MemoryEntry[]): number[] {
+    const terms = Array.from(new Set(keywords(text)));
+    const documents = entries.map(
+      (entry) => new Set(keywords(contentText(entry.content))),
+    );
+
+    const weights = terms.map((term) => {
+      const frequency = documents.filter((doc) => doc.has(term)).length;
+      return Math.log(1 + (documents.length + 1) / (frequency + 1));
+    });
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) return documents.map(() => 0);
+
+    return documents.map(
+      (doc) =>
+        terms.reduce(
+          (sum, term, i) => sum + (doc.has(term) ? weights[i] : 0),
+          0,
+        ) / total,
+    );
   }
 
   /**
@@ -226,20 +454,28 @@ export class PersistentMemory {
     }
 
     const updated = { ...memory, ...updates };
+    if (updates.content !== undefined && updates.embedding === undefined) {
+      Object.assign(updated, await this.embedContent(updated.content));
+    }
+
+    // A new type may move the entry to another store
+    const target = storeForType(updated.type);
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.put(updated);
+      const transaction = this.db!.transaction(ENTRY_STORES, "readwrite");
+      ENTRY_STORES.filter((storeName) => storeName !== target).forEach(
+        (storeName) => transaction.objectStore(storeName).delete(id),
+      );
+      transaction.objectStore(target).put(updated);
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         log.debug(`Updated memory: ${id}`);
         resolve();
       };
 
-      request.onerror = () => {
-        log.error("Failed to update memory:", request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        log.error("Failed to update memory:", transaction.error);
+        reject(transaction.error);
       };
     });
   }
@@ -251,50 +487,235 @@ export class PersistentMemory {
     if (!this.db) return;
 
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.delete(id);
+      const transaction = this.db!.transaction(ENTRY_STORES, "readwrite");
+      ENTRY_STORES.forEach((storeName) =>
+        transaction.objectStore(storeName).delete(id),
+      );
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         log.debug(`Deleted memory: ${id}`);
         resolve();
       };
 
+      transaction.onerror = () => {
+        log.error("Failed to delete memory:", transaction.error);
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * Save atoms, replacing any stored under the same handles. Returns the
+   * handles.
+   */
+  async saveAtoms(atoms: AtomNode[]): Promise<string[]> {
+    const handles = atoms.map((atom) => atomHandle(atom));
+    await this.write([MEMORY_STORES.atoms], (transaction) => {
+      const store = transaction.objectStore(MEMORY_STORES.atoms);
+      atoms.forEach((atom, i) =>
+        store.put({ handle: handles[i], atom, timestamp: Date.now() }),
+      );
+    });
+    return handles;
+  }
+
+  /**
+   * Load all stored atoms
+   */
+  async loadAtoms(): Promise<AtomNode[]> {
+    const records = await this.readAll<{ atom: AtomNode }>(MEMORY_STORES.atoms);
+    return records.map((record) => record.atom);
+  }
+
+  async deleteAtoms(handles: string[]): Promise<void> {
+    await this.write([MEMORY_STORES.atoms], (transaction) => {
+      const store = transaction.objectStore(MEMORY_STORES.atoms);
+      handles.forEach((handle) => store.delete(handle));
+    });
+  }
+
+  /**
+   * Save inference traces, one per conclusion; a newer trace of the same
+   * atom replaces the older one
+   */
+  async saveTraces(traces: InferenceTrace[]): Promise<void> {
+    await this.write([MEMORY_STORES.traces], (transaction) => {
+      const store = transaction.objectStore(MEMORY_STORES.traces);
+      traces.forEach((trace) =>
+        store.put({
+          ...trace,
+          handle: atomHandle(trace.atom),
+          timestamp: Date.now(),
+        }),
+      );
+    });
+  }
+
+  /**
+   * Load inference traces, newest first
+   */
+  async getTraces(limit?: number): Promise<StoredTrace[]> {
+    const traces = await this.readAll<StoredTrace>(MEMORY_STORES.traces);
+    return traces.reverse().slice(0, limit);
+  }
+
+  /**
+   * Run writes in one transaction, resolving when it commits
+   */
+  private async write(
+    storeNames: MemoryStoreName[],
+    operation: (transaction: IDBTransaction) => void,
+  ): Promise<void> {
+    if (!this.db) return;
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction(storeNames, "readwrite");
+      operation(transaction);
+
+      transaction.oncomplete = () => resolve();
+      transaction.onerror = () => {
+        log.error(
+          `Failed to write ${storeNames.join(", ")}:`,
+          transaction.error,
+        );
+        reject(transaction.error);
+      };
+    });
+  }
+
+  /**
+   * All records of a store in timestamp order
+   */
+  private async readAll<T>(storeName: MemoryStoreName): Promise<T[]> {
+    if (!this.db) return [];
+
+    return new Promise((resolve, reject) => {
+      const transaction = this.db!.transaction([storeName], "readonly");
+      const request = transaction
+        .objectStore(storeName)
+        .index("timestamp")
+        .getAll();
+
+      request.onsuccess = () => resolve(request.result as T[]);
       request.onerror = () => {
-        log.error("Failed to delete memory:", request.error);
+        log.error(`Failed to read ${storeName}:`, request.error);
         reject(request.error);
       };
     });
   }
 
   /**
-   * Consolidate memories - reduce low-importance, rarely accessed memories
+   * Consolidate memories - forget those the policies select, first
+   * merging clusters of similar old experiences into knowledge entries
+   * when a summarizer is given. A dry run only reports.
    */
-  async consolidate(): Promise<number> {
-    const allMemories = await this.query({});
+  async consolidate(
+    options: ConsolidationOptions = {},
+  ): Promise<ConsolidationReport> {
+    const entries = await this.query({});
     const now = Date.now();
-    const ONE_WEEK = 7 * 24 * 60 * 60 * 1000;
-
-    let deletedCount = 0;
-
-    for (const memory of allMemories) {
-      const age = now - memory.timestamp;
-      const timeSinceAccess = now - memory.lastAccessed;
-
-      // Delete if:
-      // - Low importance AND old AND not accessed recently
-      if (
-        memory.importance < 0.3 &&
-        age > ONE_WEEK &&
-        timeSinceAccess > ONE_WEEK
-      ) {
-        await this.delete(memory.id);
-        deletedCount++;
+    const policies =
+      options.policies ?? createPolicies(DEFAULT_CONSOLIDATION_CONFIG);
+    let forgotten = selectForgotten(entries, policies, now);
+
+    const summaries = options.summarizer
+      ? await this.planSummaries(
+          forgotten.map((candidate) => candidate.entry),
+          options.summarize,
+        )
+      : [];
+    const dryRun = options.dryRun ?? false;
+
+    if (!dryRun) {
+      const byId = new Map(entries.map((entry) => [entry.id, entry]));
+      const kept = new Set<string>();
+
+      for (const summary of summaries) {
+        const sources = summary.sourceIds.map((id) => byId.get(id)!);
+        try {
+          const text = (await options.summarizer!.summarize(sources)).trim();
+          if (!text) {
+            throw new Error("Empty summary");
+          }
+          summary.summary = text;
+        } catch (error) {
+          // Never forget what could not be summarized
+          log.warn("Failed to summarize memories, keeping them:", error);
+          summary.sourceIds.forEach((id) => kept.add(id));
+          continue;
+        }
+
+        summary.id = await this.store({
+          agentId: summary.agentId,
+          type: "knowledge",
+          content: summary.summary,
+          importance: Math.max(...sources.map((entry) => entry.importance)),
+          timestamp: now,
+          accessCount: 0,
+          lastAccessed: now,
+          metadata: {
+            consolidatedFrom: summary.sourceIds,
+            from: Math.min(...sources.map((entry) => entry.timestamp)),
+            to: Math.max(...sources.map((entry) => entry.timestamp)),
+          },
+        });
       }
+
+      forgotten = forgotten.filter(
+        (candidate) => !kept.has(candidate.entry.id),
+      );
+      const ids = forgotten.map((candidate) => candidate.entry.id);
+      await this.write(ENTRY_STORES, (transaction) =>
+        ENTRY_STORES.forEach((storeName) => {
+          const store = transaction.objectStore(storeName);
+          ids.forEach((id) => store.delete(id));
+        }),
+      );
     }
 
-    log.info(`Memory consolidation: deleted ${deletedCount} memories`);
-    return deletedCount;
+    log.info(
+      `Memory consolidation${dryRun ? " (dry run)" : ""}: ${dryRun ? "would delete" : "deleted"} ${forgotten.length} memories, ${summaries.length} summaries`,
+    );
+    return {
+      dryRun,
+      examined: entries.length,
+      forgotten,
+      summaries: summaries.filter((summary) => dryRun || summary.id),
+    };
+  }
+
+  /**
+   * Cluster the summarizable entries about to be forgotten. Vectors
+   * missing for the current embedder are computed but not saved, since
+   * the entries are going away.
+   */
+  private async planSummaries(
+    entries: MemoryEntry[],
+    options: SummarizeOptions = {},
+  ): Promise<ConsolidationSummary[]> {
+    const types = options.types ?? ["experience"];
+    const summarizable = entries.filter(
+      (entry) =>
+        types.includes(entry.type) && contentText(entry.content).trim() !== "",
+    );
+
+    const missing = summarizable.filter(
+      (entry) => entry.embeddingModel !== this.embedder.id || !entry.embedding,
+    );
+    const computed = await this.embedder.embed(
+      missing.map((entry) => contentText(entry.content)),
+    );
+    const vectors = summarizable.map((entry) => {
+      const i = missing.indexOf(entry);
+      return i >= 0 ? computed[i] : entry.embedding!;
+    });
+
+    return clusterEntries(summarizable, vectors, options.similarity ?? 0.5)
+      .filter((cluster) => cluster.length >= (options.minClusterSize ?? 2))
+      .map((cluster) => ({
+        agentId: cluster[0].agentId,
+        sourceIds: cluster.map((entry) => entry.id),
+      }));
   }
 
   /**
@@ -333,19 +754,22 @@ export class PersistentMemory {
   async clear(): Promise<void> {
     if (!this.db) return;
 
+    const storeNames = Object.values(MEMORY_STORES);
+
     return new Promise((resolve, reject) => {
-      const transaction = this.db!.transaction([this.storeName], "readwrite");
-      const store = transaction.objectStore(this.storeName);
-      const request = store.clear();
+      const transaction = this.db!.transaction(storeNames, "readwrite");
+      storeNames.forEach((storeName) =>
+        transaction.objectStore(storeName).clear(),
+      );
 
-      request.onsuccess = () => {
+      transaction.oncomplete = () => {
         log.info("All memories cleared");
         resolve();
       };
 
-      request.onerror = () => {
-        log.error("Failed to clear memories:", request.error);
-        reject(request.error);
+      transaction.onerror = () => {
+        log.error("Failed to clear memories:", transaction.error);
+        reject(transaction.error);
       };
     });
   }
@@ -3,7 +3,48 @@
  * Handles conversion between MeTTa expressions and structured data
  */
 
-import { MeTTaExpression } from "./types";
+import { MeTTaExpression, MeTTaExpressionType } from "./types";
+import {
+  ParseError,
+  SExpr,
+  SExprOptions,
+  SourcePosition,
+  quoteString,
+  readSExpr,
+  readSExprs,
+} from "./sexpr";
+
+export const METTA_SYNTAX: SExprOptions = { prefixes: ["!"] };
+
+const NUMBER_PATTERN = /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/;
+
+/**
+ * Operations implemented natively by the interpreter rather than by
+ * rewriting rules
+ */
+const GROUNDED_SYMBOLS = new Set([
+  "+",
+  "-",
+  "*",
+  "/",
+  "%",
+  "<",
+  ">",
+  "<=",
+  ">=",
+  "==",
+  "match",
+  "superpose",
+  "collapse",
+  "add-atom",
+  "remove-atom",
+  "get-atoms",
+  "new-space",
+  "get-type",
+  "car-atom",
+  "cdr-atom",
+  "cons-atom",
+]);
 
 export class MeTTaParser {
   /**
@@ -11,119 +52,112 @@ export class MeTTaParser {
    * Example: "(= (fib 0) 1)"
    * Example: "(: Human Type)"
    * Example: "(-> Person (knows Person))"
+   * Example: "!(fib 5)"
+   * Throws ParseError with the source position on malformed input.
    */
   static parse(metta: string): MeTTaExpression {
-    const trimmed = metta.trim();
-
-    // Handle atoms (simple values)
-    if (!trimmed.startsWith("(")) {
-      return {
-        type: trimmed.startsWith("$") ? "variable" : "atom",
-        value: trimmed,
-      };
-    }
-
-    // Parse expression
-    const tokens = this.tokenize(trimmed);
-    return this.parseTokens(tokens);
+    return this.toExpression(readSExpr(metta, METTA_SYNTAX), true);
   }
 
-  private static tokenize(str: string): string[] {
-    const tokens: string[] = [];
-    let current = "";
-    let depth = 0;
-
-    for (let i = 0; i < str.length; i++) {
-      const char = str[i];
-
-      if (char === "(") {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
-        }
-        depth++;
-        tokens.push("(");
-      } else if (char === ")") {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
-        }
-        depth--;
-        tokens.push(")");
-      } else if (/\s/.test(char) && depth === 0) {
-        if (current.trim()) {
-          tokens.push(current.trim());
-          current = "";
-        }
-      } else {
-        current += char;
-      }
-    }
+  /**
+   * Parse every top-level expression in a MeTTa file
+   */
+  static parseAll(metta: string): MeTTaExpression[] {
+    return readSExprs(metta, METTA_SYNTAX).map((expr) =>
+      this.toExpression(expr, true),
+    );
+  }
 
-    if (current.trim()) {
-      tokens.push(current.trim());
+  /**
+   * Classify a bare token: number, string literal, variable, grounded
+   * symbol or plain symbol
+   */
+  static classifyToken(token: string): MeTTaExpressionType {
+    if (token.startsWith("$")) return "variable";
+    if (NUMBER_PATTERN.test(token)) return "number";
+    if (
+      token.startsWith("&") ||
+      token.endsWith("!") ||
+      GROUNDED_SYMBOLS.has(token)
+    ) {
+      return "grounded";
     }
-
-    return tokens;
+    return "symbol";
   }
 
-  private static parseTokens(tokens: string[]): MeTTaExpression {
-    let index = 0;
-
-    const parseExpr = (): MeTTaExpression => {
-      if (tokens[index] !== "(") {
-        const token = tokens[index++];
-        return {
-          type: token.startsWith("$") ? "variable" : "atom",
-          value: token,
-        };
-      }
-
-      index++; // skip '('
-      const elements: MeTTaExpression[] = [];
-
-      while (index < tokens.length && tokens[index] !== ")") {
-        elements.push(parseExpr());
-      }
+  /**
+   * Build an atom from a bare token
+   */
+  static atom(token: string): MeTTaExpression {
+    return { type: this.classifyToken(token), value: token };
+  }
 
-      index++; // skip ')'
+  private static toExpression(
+    expr: SExpr,
+    topLevel: boolean = false,
+  ): MeTTaExpression {
+    if (expr.prefix && (expr.prefix !== "!" || !topLevel)) {
+      throw new ParseError(
+        expr.prefix === "!"
+          ? "'!' is only allowed before top-level expressions"
+          : `Unexpected '${expr.prefix}'`,
+        expr.start,
+      );
+    }
 
-      return {
+    let result: MeTTaExpression;
+    if (expr.kind === "list") {
+      result = {
         type: "expression",
-        value: elements,
+        value: expr.items.map((item) => this.toExpression(item)),
       };
-    };
+    } else if (expr.kind === "string") {
+      result = { type: "string", value: expr.value };
+    } else {
+      result = this.atom(expr.text);
+    }
+
+    if (expr.prefix === "!") {
+      result.evaluate = true;
+    }
 
-    return parseExpr();
+    return result;
   }
 
   /**
    * Generate MeTTa expression from MeTTaExpression structure
    */
   static generate(expr: MeTTaExpression): string {
-    if (expr.type === "atom" || expr.type === "variable") {
-      return String(expr.value);
-    }
+    const prefix = expr.evaluate ? "!" : "";
 
     if (Array.isArray(expr.value)) {
       const elements = expr.value.map((e) => this.generate(e)).join(" ");
-      return `(${elements})`;
+      return `${prefix}(${elements})`;
+    }
+
+    if (expr.type === "string") {
+      return prefix + quoteString(expr.value);
     }
 
-    return String(expr.value);
+    return prefix + String(expr.value);
   }
 
   /**
    * Validate MeTTa syntax
    */
-  static validate(metta: string): { valid: boolean; error?: string } {
+  static validate(metta: string): {
+    valid: boolean;
+    error?: string;
+    position?: SourcePosition;
+  } {
     try {
-      this.parse(metta);
+      this.parseAll(metta);
       return { valid: true };
     } catch (error) {
       return {
         valid: false,
         error: error instanceof Error ? error.message : "Invalid MeTTa",
+        position: error instanceof ParseError ? error.position : undefined,
       };
     }
   }
@@ -137,9 +171,9 @@ export class MeTTaParser {
       return {
         type: "expression",
         value: [
-          { type: "atom", value: ":" },
-          { type: "atom", value: name },
-          { type: "atom", value: type },
+          { type: "symbol", value: ":" },
+          MeTTaParser.atom(name),
+          MeTTaParser.atom(type),
         ],
       };
     },
@@ -153,12 +187,12 @@ export class MeTTaParser {
       return {
         type: "expression",
         value: [
-          { type: "atom", value: "=" },
+          { type: "symbol", value: "=" },
           {
             type: "expression",
             value: [
-              { type: "atom", value: name },
-              ...args.map((arg) => ({ type: "atom" as const, value: arg })),
+              MeTTaParser.atom(name),
+              ...args.map((arg) => MeTTaParser.atom(arg)),
             ],
           },
           body,
@@ -171,9 +205,9 @@ export class MeTTaParser {
       return {
         type: "expression",
         value: [
-          { type: "atom", value: "->" },
-          { type: "atom", value: from },
-          { type: "atom", value: to },
+          { type: "symbol", value: "->" },
+          MeTTaParser.atom(from),
+          MeTTaParser.atom(to),
         ],
       };
     },
@@ -186,7 +220,7 @@ export class MeTTaParser {
     ): MeTTaExpression {
       return {
         type: "expression",
-        value: [{ type: "atom", value: "match" }, expr, pattern, body],
+        value: [MeTTaParser.atom("match"), expr, pattern, body],
       };
     },
   };
@@ -0,0 +1,68 @@
+import "fake-indexeddb/auto";
+import { beforeAll, describe, expect, it } from "@jest/globals";
+import { BaseAgent } from "./agents";
+import { AgentLearning, PersistentMemory } from "./memory";
+import { AgentOrchestrator, ROUTING_LEARNER } from "./orchestrator";
+
+// PersistentMemory only opens IndexedDB in a browser window
+Object.assign(globalThis, { window: globalThis });
+
+class DeductionAgent extends BaseAgent {
+  constructor(name: string) {
+    super(name, "reasoner", ["deduction"]);
+  }
+
+  protected async processTask(task: string): Promise<string> {
+    return `Deduced ${task}`;
+  }
+
+  protected async answerQuery(query: string): Promise<string> {
+    return query;
+  }
+}
+
+describe("AgentOrchestrator routing", () => {
+  const memory = new PersistentMemory();
+  beforeAll(() => memory.initialize());
+
+  it("routes tasks created for an agent with that agent's learning", async () => {
+    const orchestrator = new AgentOrchestrator();
+    const planner = new DeductionAgent("Planner");
+    orchestrator.registerAgent(planner);
+    orchestrator.registerAgent(new DeductionAgent("Prover"));
+
+    const routing = new AgentLearning(ROUTING_LEARNER, memory);
+    const planning = new AgentLearning(planner.name, memory, "ucb1");
+    orchestrator.setRoutingLearning(routing);
+    orchestrator.setRoutingLearning(planning, planner.id);
+
+    for (let i = 0; i < 3; i++) {
+      await orchestrator.createTask(`goal ${i}`, "deduction", 1, planner.id);
+    }
+    await orchestrator.createTask("lemma", "deduction");
+
+    expect(planning.getStatistics()).toMatchObject({
+      algorithm: "ucb1",
+      decisions: 3,
+    });
+    expect(routing.getStatistics()).toMatchObject({
+      algorithm: "epsilon-greedy",
+      decisions: 1,
+    });
+    expect(
+      orchestrator.getTasks().every((task) => task.status === "completed"),
+    ).toBe(true);
+  });
+
+  it("falls back to the orchestrator's learning", async () => {
+    const orchestrator = new AgentOrchestrator();
+    const agent = new DeductionAgent("Prover");
+    orchestrator.registerAgent(agent);
+
+    const routing = new AgentLearning(ROUTING_LEARNER, memory);
+    orchestrator.setRoutingLearning(routing);
+    await orchestrator.createTask("lemma", "deduction", 1, agent.id);
+
+    expect(routing.getStatistics().decisions).toBe(1);
+  });
+});
@@ -15,17 +15,63 @@ import {
   OrchestrationState,
 } from "./types";
 import { BaseAgent } from "./agents";
+import type { AgentLearning } from "./memory";
+
+/**
+ * Agent id under which routing decisions are learned and stored
+ */
+export const ROUTING_LEARNER = "orchestrator";
+
+const LATENCY_WEIGHT = 0.5; // Most reward a slow success can lose
+const LATENCY_SCALE = 5000; // ms of latency that costs half of LATENCY_WEIGHT
+
+/**
+ * What routing had learned about a candidate agent for a task
+ */
+export interface RoutingScore {
+  agentId: string;
+  agentName: string;
+  expectedReward: number; // -1 to 1
+  attempts: number;
+  successRate: number;
+  averageLatency?: number; // ms
+}
 
 export class AgentOrchestrator {
   private agents: Map<string, BaseAgent> = new Map();
   private tasks: Map<string, Task> = new Map();
   private messageHistory: AgentMessage[] = [];
   private activeSession?: string;
+  private routing: Map<string, AgentLearning> = new Map(); // Requester ID -> its routing learning
+  private assignments: Map<
+    string,
+    {
+      capability: string;
+      context: Record<string, any>;
+      assignedAt: number;
+      learning: AgentLearning;
+    }
+  > = new Map(); // Task ID -> what to learn from its outcome
 
   constructor() {
     log.info("Agent Orchestrator initialized");
   }
 
+  /**
+   * Route tasks with a bandit per capability whose arms are the capable
+   * agents, rewarded by the outcome and latency of each routed task.
+   * Arms are agent names, since agent ids change every session. Tasks
+   * created for an agent are routed by that agent's learning, if set,
+   * so that routing algorithms can be compared; the rest by the
+   * orchestrator's.
+   */
+  setRoutingLearning(
+    learning: AgentLearning,
+    requesterId: string = ROUTING_LEARNER,
+  ): void {
+    this.routing.set(requesterId, learning);
+  }
+
   /**
    * Register an agent with the orchestrator
    */
@@ -48,17 +94,19 @@ export class AgentOrchestrator {
     if (agent) {
       agent.setStatus(AgentStatus.OFFLINE);
       this.agents.delete(agentId);
+      this.routing.delete(agentId);
       log.info(`Agent unregistered: ${agent.name}`);
     }
   }
 
   /**
-   * Create and assign a task
+   * Create and assign a task, on behalf of an agent if requesterId is given
    */
   async createTask(
     description: string,
     requiredCapability?: string,
     priority: number = 1,
+    requesterId?: string,
   ): Promise<Task> {
     const task: Task = {
       id: nanoid(),
@@ -73,7 +121,12 @@ export class AgentOrchestrator {
 
     // Auto-assign if capability specified
     if (requiredCapability) {
-      const agent = this.findAgentByCapability(requiredCapability);
+      const agent = await this.findAgentByCapability(
+        requiredCapability,
+        task,
+        {},
+        requesterId,
+      );
       if (agent) {
         await this.assignTask(task.id, agent.id);
       }
@@ -101,6 +154,10 @@ export class AgentOrchestrator {
     task.status = TaskStatus.ASSIGNED;
     task.updatedAt = Date.now();
 
+    // Latency of a routed task counts from its assignment
+    const routed = this.assignments.get(taskId);
+    if (routed) routed.assignedAt = Date.now();
+
     // Send task to agent
     const message: AgentMessage = {
       id: nanoid(),
@@ -112,9 +169,10 @@ export class AgentOrchestrator {
       metadata: { taskId: task.id },
     };
 
-    await agent.receiveMessage(message);
+    // The agent may finish the task before receiveMessage returns
     task.status = TaskStatus.IN_PROGRESS;
     task.updatedAt = Date.now();
+    await agent.receiveMessage(message);
 
     log.info(`Task ${taskId} assigned to agent ${agent.name}`);
   }
@@ -150,32 +208,173 @@ export class AgentOrchestrator {
         task.result = message.content;
         task.updatedAt = Date.now();
         log.info(`Task ${task.id} completed`);
+        this.recordOutcome(task, "success");
       } else if (task && message.metadata.taskFailed) {
         task.status = TaskStatus.FAILED;
         task.updatedAt = Date.now();
         log.error(`Task ${task.id} failed: ${message.content}`);
+        this.recordOutcome(task, "failure");
       }
     }
   }
 
   /**
-   * Find an available agent by capability
+   * Reward the routing decision behind a finished task. A success is
+   * worth less the longer it took; a failure always costs the most.
    */
-  findAgentByCapability(capability: string): BaseAgent | undefined {
-    for (const agent of this.agents.values()) {
-      if (agent.canHandle(capability) && agent.status === AgentStatus.IDLE) {
-        return agent;
-      }
-    }
+  private recordOutcome(task: Task, outcome: "success" | "failure"): void {
+    const assignment = this.assignments.get(task.id);
+    this.assignments.delete(task.id);
+
+    const agent = task.assignedTo
+      ? this.agents.get(task.assignedTo)
+      : undefined;
+    if (!assignment || !agent) return;
+
+    const latency = Date.now() - assignment.assignedAt;
+    const reward =
+      outcome === "success"
+        ? 1 - (LATENCY_WEIGHT * latency) / (latency + LATENCY_SCALE)
+        : -1;
+
+    assignment.learning
+      .recordExperience(
+        assignment.capability,
+        agent.name,
+        outcome,
+        assignment.context,
+        latency,
+        reward,
+      )
+      .catch((error) =>
+        log.error(`Failed to record routing of task ${task.id}:`, error),
+      );
+  }
 
-    // If no idle agent, return any agent with the capability
-    for (const agent of this.agents.values()) {
-      if (agent.canHandle(capability)) {
-        return agent;
-      }
+  /**
+   * Find an available agent by capability. Idle agents are preferred;
+   * among them, with routing learning set for the requester or the
+   * orchestrator, the capability's bandit picks one. When a task is
+   * given, its outcome is learned from and the reasoning is logged in
+   * the message history.
+   */
+  async findAgentByCapability(
+    capability: string,
+    task?: Task,
+    context: Record<string, any> = {},
+    requesterId?: string,
+  ): Promise<BaseAgent | undefined> {
+    const capable = this.getAgentsByCapability(capability);
+    const idle = capable.filter((agent) => agent.status === AgentStatus.IDLE);
+
+    // If no idle agent, consider any agent with the capability
+    const candidates = idle.length > 0 ? idle : capable;
+    if (candidates.length === 0) return undefined;
+    const learning =
+      (requesterId && this.routing.get(requesterId)) ||
+      this.routing.get(ROUTING_LEARNER);
+    if (!learning) return candidates[0];
+
+    const taskContext = this.taskContext(capability, task, context);
+    const name = await learning.selectAction(
+      capability,
+      taskContext,
+      candidates.map((agent) => agent.name),
+    );
+    const chosen = candidates.find((agent) => agent.name === name)!;
+
+    if (task) {
+      this.assignments.set(task.id, {
+        capability,
+        context: taskContext,
+        assignedAt: Date.now(),
+        learning,
+      });
+      this.logRouting(
+        task,
+        capability,
+        chosen,
+        learning,
+        this.routingScores(learning, candidates, capability, taskContext),
+        idle.length === 0,
+      );
     }
 
-    return undefined;
+    return chosen;
+  }
+
+  /**
+   * What routing has learned about each candidate, best first
+   */
+  private routingScores(
+    learning: AgentLearning,
+    candidates: BaseAgent[],
+    capability: string,
+    context: Record<string, any>,
+  ): RoutingScore[] {
+    const rewards = learning.estimateRewards(
+      capability,
+      context,
+      candidates.map((agent) => agent.name),
+    );
+
+    return candidates
+      .map((agent) => {
+        const statistics = learning.getActionStatistics(capability, agent.name);
+        return {
+          agentId: agent.id,
+          agentName: agent.name,
+          expectedReward: rewards[agent.name],
+          ...statistics,
+        };
+      })
+      .sort((a, b) => b.expectedReward - a.expectedReward);
+  }
+
+  private taskContext(
+    capability: string,
+    task?: Task,
+    context: Record<string, any> = {},
+  ): Record<string, any> {
+    return { ...context, capability, priority: task?.priority ?? 1 };
+  }
+
+  /**
+   * Add the reasoning behind an assignment to the message history
+   */
+  private logRouting(
+    task: Task,
+    capability: string,
+    chosen: BaseAgent,
+    learning: AgentLearning,
+    scores: RoutingScore[],
+    noneIdle: boolean,
+  ): void {
+    const description =
+      task.description.length > 60
+        ? `${task.description.slice(0, 57)}...`
+        : task.description;
+    const reasons = scores.map((s) => {
+      if (s.attempts === 0) return `${s.agentName}: untried`;
+
+      const latency =
+        s.averageLatency !== undefined
+          ? `, ${(s.averageLatency / 1000).toFixed(1)}s average`
+          : "";
+      return `${s.agentName}: expected reward ${s.expectedReward.toFixed(2)} (${Math.round(s.successRate * 100)}% success over ${s.attempts} tasks${latency})`;
+    });
+
+    const message: AgentMessage = {
+      id: nanoid(),
+      senderId: "orchestrator",
+      receiverId: chosen.id,
+      content: `Routed "${description}" (${capability}) to ${chosen.name} by ${learning.getAlgorithm()}${noneIdle ? ", no agent was idle" : ""}. ${reasons.join("; ")}`,
+      timestamp: Date.now(),
+      type: MessageType.ROUTING,
+      metadata: { taskId: task.id, capability, scores },
+    };
+    this.messageHistory.push(message);
+    log.info(message.content);
   }
 
   /**
@@ -314,7 +513,11 @@ export class AgentOrchestrator {
     const task = await this.createTask(request, undefined, 1);
 
     // Determine which agents should handle this
-    const planningAgent = this.findAgentByCapability("task-decomposition");
+    const planningAgent = await this.findAgentByCapability(
+      "task-decomposition",
+      task,
+      context,
+    );
 
     if (planningAgent) {
       // Get plan from planning agent
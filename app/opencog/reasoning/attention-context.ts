@@ -0,0 +1,150 @@
+/**
+ * Attention-driven Context
+ * Stimulates atoms mentioned in chat text and serializes the attentional
+ * focus so prompts can be grounded in what ECAN considers important
+ */
+
+import { AtomNode } from "../types";
+import { AtomHandle, AtomSpace, atomHandle } from "../atomspace";
+import { AtomeseParser } from "../atomese";
+import { MeTTaParser } from "../metta";
+import { AtomeseMeTTaConverter } from "../converter";
+import { ECANEngine } from "./ecan";
+
+export type AttentionContextFormat = "atomese" | "metta";
+
+export interface AttentionContextOptions {
+  format: AttentionContextFormat;
+  maxAtoms: number; // Upper bound on serialized atoms
+  stimulus?: number; // Stimulus for mentions in the newest text
+  spreadSteps?: number; // Spreading cycles after stimulation
+}
+
+/**
+ * Mentions in older texts get this fraction of the next newer text's
+ * stimulus
+ */
+const RECENCY_FACTOR = 0.5;
+
+/**
+ * Find named atoms mentioned in free text. Single words and two-word
+ * phrases (joined by a space, underscore or hyphen) are looked up by
+ * exact and lower-case name.
+ */
+export function findMentionedAtoms(
+  space: AtomSpace,
+  text: string,
+): AtomHandle[] {
+  const words = text.match(/[\p{L}\p{N}_'-]+/gu) || [];
+  const candidates = new Set<string>();
+
+  words.forEach((word, i) => {
+    candidates.add(word);
+    const next = words[i + 1];
+    if (next) {
+      candidates.add(`${word} ${next}`);
+      candidates.add(`${word}_${next}`);
+      candidates.add(`${word}-${next}`);
+    }
+  });
+
+  const handles = new Set<AtomHandle>();
+  for (const candidate of candidates) {
+    for (const name of new Set([candidate, candidate.toLowerCase()])) {
+      space.getByName(name).forEach((handle) => handles.add(handle));
+    }
+  }
+
+  return Array.from(handles);
+}
+
+/**
+ * Stimulate the atoms mentioned in a series of texts, ordered oldest to
+ * newest. Returns the stimulated handles.
+ */
+export function stimulateMentions(
+  ecan: ECANEngine,
+  space: AtomSpace,
+  texts: string[],
+  stimulus: number = 60,
+): AtomHandle[] {
+  const stimulated = new Set<AtomHandle>();
+  let amount = stimulus;
+
+  for (let i = texts.length - 1; i >= 0; i--) {
+    for (const handle of findMentionedAtoms(space, texts[i])) {
+      ecan.stimulate(handle, amount);
+      stimulated.add(handle);
+    }
+    amount *= RECENCY_FACTOR;
+  }
+
+  return Array.from(stimulated);
+}
+
+/**
+ * Serialize the top atoms of the attentional focus, one per line. Spare
+ * room is filled with the next most important atoms, which picks up the
+ * links that attention spread into. Atoms already contained in another
+ * selected atom are left out and attention values are dropped, keeping
+ * the block compact.
+ */
+export function serializeAttentionalFocus(
+  ecan: ECANEngine,
+  format: AttentionContextFormat,
+  maxAtoms: number,
+): string {
+  const selected = ecan.getAtomicFocus().slice(0, maxAtoms);
+  const handles = new Set(selected.map(atomHandle));
+  for (const atom of ecan.getTopAtoms(maxAtoms)) {
+    if (selected.length >= maxAtoms) break;
+    const handle = atomHandle(atom);
+    if ((atom.attentionValue?.sti || 0) > 0 && !handles.has(handle)) {
+      selected.push(atom);
+      handles.add(handle);
+    }
+  }
+
+  const contained = new Set<AtomHandle>();
+  const collect = (atom: AtomNode) =>
+    (atom.children || []).forEach((child) => {
+      contained.add(atomHandle(child));
+      collect(child);
+    });
+  selected.forEach(collect);
+
+  return selected
+    .filter((atom) => !contained.has(atomHandle(atom)))
+    .map(withoutAttention)
+    .map((atom) =>
+      format === "metta"
+        ? MeTTaParser.generate(AtomeseMeTTaConverter.toMetta(atom))
+        : AtomeseParser.generate(atom),
+    )
+    .join("\n");
+}
+
+/**
+ * Stimulate mentions, let attention spread, then serialize the focus.
+ * Returns an empty string when nothing is in focus.
+ */
+export function buildAttentionContext(
+  ecan: ECANEngine,
+  space: AtomSpace,
+  texts: string[],
+  options: AttentionContextOptions,
+): string {
+  stimulateMentions(ecan, space, texts, options.stimulus);
+  for (let i = 0; i < (options.spreadSteps ?? 1); i++) {
+    ecan.spreadAttention();
+  }
+
+  return serializeAttentionalFocus(ecan, options.format, options.maxAtoms);
+}
+
+function withoutAttention(atom: AtomNode): AtomNode {
+  const { attentionValue, ...rest } = atom;
+  return rest.children
+    ? { ...rest, children: rest.children.map(withoutAttention) }
+    : rest;
+}
@@ -3,20 +3,10 @@
  * Manages attention allocation across atoms in the AtomSpace
  */
 
-import { AtomNode } from "../types";
+import { AtomNode, AtomType, AttentionValue } from "../types";
+import { AtomHandle, atomHandle } from "../atomspace";
 import log from "loglevel";
 
-/**
- * Short-Term Importance (STI) - Attention currency for immediate focus
- * Long-Term Importance (LTI) - Historical significance
- * Very-Long-Term Importance (VLTI) - Permanent importance
- */
-export interface AttentionValue {
-  sti: number; // Short-term importance (-100 to 100)
-  lti: number; // Long-term importance (0 to 100)
-  vlti: number; // Very long-term importance (0 to 100)
-}
-
 export interface AtomWithAttention extends AtomNode {
   attentionValue?: AttentionValue;
 }
@@ -28,71 +18,237 @@ export interface AtomWithAttention extends AtomNode {
 const AFB_THRESHOLD = 50;
 
 /**
- * Forgetting threshold - atoms below this may be forgotten
+ * Forgetting threshold - atoms with LTI below this may be forgotten
+ */
+const FORGETTING_THRESHOLD = 1;
+
+/**
+ * Per-atom importance limits
+ */
+const MAX_ATOM_STI = 100;
+const MAX_ATOM_LTI = 100;
+
+/**
+ * Importance below this is rounded to zero so idle atoms drop out of
+ * the active set
+ */
+const IMPORTANCE_EPSILON = 0.01;
+
+/**
+ * Directed HebbianLink between two atoms that were in focus together.
+ * Strength estimates P(target in focus | source in focus).
+ */
+export interface HebbianLink {
+  source: string;
+  target: string;
+  strength: number;
+  updates: number;
+}
+
+/**
+ * Tunable ECAN parameters
  */
-const FORGETTING_THRESHOLD = -50;
+export interface ECANParameters {
+  maxSTI: number; // Total STI budget held by the bank and the atoms
+  maxLTI: number; // Total LTI budget held by the bank and the atoms
+  spreadRate: number; // Fraction of a focused atom's STI spread per tick
+  decayRate: number; // How fast unfocused atoms return STI to the bank
+  rentRate: number; // STI rent paid by focused atoms per tick
+  ltiRentRate: number; // LTI rent paid by unfocused atoms per LTI update
+  stiWage: number; // STI paid per unit of stimulus
+  ltiWage: number; // LTI paid per unit of stimulus
+  focusLTIWage: number; // LTI paid to focused atoms per LTI update
+  hebbianRate: number; // Learning rate for HebbianLink strengths
+  minHebbianStrength: number; // Weaker HebbianLinks are dropped
+  maxFocusSize: number; // Upper bound on the attentional focus
+  maxAtoms: number; // Forgetting starts above this many atoms
+}
+
+const DEFAULT_PARAMETERS: ECANParameters = {
+  maxSTI: 10000,
+  maxLTI: 10000,
+  spreadRate: 0.1,
+  decayRate: 0.05,
+  rentRate: 0.01,
+  ltiRentRate: 0.01,
+  stiWage: 1,
+  ltiWage: 0.1,
+  focusLTIWage: 0.1,
+  hebbianRate: 0.1,
+  minHebbianStrength: 0.01,
+  maxFocusSize: 100,
+  maxAtoms: 50000,
+};
 
 /**
  * ECAN Attention Allocation Engine
+ *
+ * STI and LTI are currencies: the bank pays wages to stimulated atoms
+ * and collects rent and decay, so atoms plus bank always hold the
+ * configured budget. Structure is indexed by handle, and only atoms in
+ * focus (or holding importance) are visited per tick.
  */
 export class ECANEngine {
-  private atoms: Map<string, AtomWithAttention> = new Map();
+  private atoms: Map<string, AtomNode> = new Map();
+  // ID -> attention; kept apart, since the atoms may be shared
+  private attention: Map<string, AttentionValue> = new Map();
+  private handleIndex: Map<AtomHandle, string> = new Map(); // Atom handle -> ID
+  private handles: Map<string, AtomHandle> = new Map(); // ID -> atom handle
+  private outgoing: Map<string, AtomHandle[]> = new Map(); // ID -> child handles
+  private incoming: Map<AtomHandle, Set<string>> = new Map(); // Child -> parent IDs
+  private hebbian: Map<string, Map<string, HebbianLink>> = new Map(); // Source -> target
+  private hebbianIncoming: Map<string, Set<string>> = new Map(); // Target -> sources
+  private focus: Set<string> = new Set(); // IDs with STI >= AFB
+  private active: Set<string> = new Set(); // IDs holding any STI or LTI
   private totalSTI: number = 0;
-  private maxSTI: number = 10000; // Total STI budget
-  private spreadRate: number = 0.1; // How much STI spreads per tick
-  private decayRate: number = 0.05; // How fast unused atoms decay
-  private rentRate: number = 0.01; // Cost of staying in attentional focus
+  private totalLTI: number = 0;
+  private params: ECANParameters = { ...DEFAULT_PARAMETERS };
 
   /**
    * Add atom to attention network
    */
   addAtom(id: string, atom: AtomWithAttention): void {
-    if (!atom.attentionValue) {
-      atom.attentionValue = {
-        sti: 0,
-        lti: 0,
-        vlti: 0,
-      };
+    if (this.atoms.has(id)) {
+      this.unindex(id);
     }
+
+    const handle = atomHandle(atom);
+    const children = Array.from(new Set((atom.children || []).map(atomHandle)));
+
+    const av = { ...(atom.attentionValue ?? { sti: 0, lti: 0, vlti: 0 }) };
     this.atoms.set(id, atom);
+    this.attention.set(id, av);
+    this.handleIndex.set(handle, id);
+    this.handles.set(id, handle);
+    this.outgoing.set(id, children);
+    for (const child of children) {
+      let parents = this.incoming.get(child);
+      if (!parents) {
+        parents = new Set();
+        this.incoming.set(child, parents);
+      }
+      parents.add(id);
+    }
+
+    this.totalSTI += av.sti;
+    this.totalLTI += av.lti;
+    this.track(id, av);
   }
 
   /**
-   * Stimulate an atom - increase its STI
+   * Remove atom from attention network
    */
-  stimulate(atomId: string, amount: number): void {
-    const atom = this.atoms.get(atomId);
-    if (!atom || !atom.attentionValue) return;
+  removeAtom(id: string): void {
+    if (!this.atoms.has(id)) return;
 
-    // Increase STI (capped at reasonable limits)
-    atom.attentionValue.sti = Math.min(100, atom.attentionValue.sti + amount);
-    this.totalSTI += amount;
+    this.unindex(id);
+    for (const target of Array.from(this.hebbian.get(id)?.keys() || [])) {
+      this.removeHebbianLink(id, target);
+    }
+    for (const source of Array.from(this.hebbianIncoming.get(id) || [])) {
+      this.removeHebbianLink(source, id);
+    }
   }
 
   /**
-   * Run one cycle of attention spreading
+   * Drop an atom's structural index entries and return its importance
+   * to the bank
    */
-  spreadAttention(): void {
-    const focusedAtoms = this.getAtomicFocus();
+  private unindex(id: string): void {
+    const av = this.attention.get(id)!;
+    const handle = this.handles.get(id)!;
+
+    for (const child of this.outgoing.get(id) || []) {
+      const parents = this.incoming.get(child);
+      parents?.delete(id);
+      if (parents && parents.size === 0) this.incoming.delete(child);
+    }
 
-    for (const atom of focusedAtoms) {
-      if (!atom.attentionValue) continue;
+    this.totalSTI -= av.sti;
+    this.totalLTI -= av.lti;
+    this.atoms.delete(id);
+    this.attention.delete(id);
+    this.handleIndex.delete(handle);
+    this.handles.delete(id);
+    this.outgoing.delete(id);
+    this.focus.delete(id);
+    this.active.delete(id);
+  }
 
-      // Spread STI to connected atoms
-      if (atom.children) {
-        const spreadAmount =
-          atom.attentionValue.sti *
-          this.spreadRate *
-          (1 / atom.children.length);
+  /**
+   * Keep the focus and active sets in step with an attention value
+   */
+  private track(id: string, av: AttentionValue): void {
+    if (av.sti >= AFB_THRESHOLD) {
+      this.focus.add(id);
+    } else {
+      this.focus.delete(id);
+    }
 
-        for (const child of atom.children) {
-          // Find child in atom map and spread attention
-          this.spreadToChild(child, spreadAmount);
-        }
-      }
+    if (av.sti !== 0 || av.lti !== 0) {
+      this.active.add(id);
+    } else {
+      this.active.delete(id);
+    }
+  }
 
-      // Pay rent for being in focus
-      atom.attentionValue.sti -= this.rentRate * atom.attentionValue.sti;
+  /**
+   * Set an atom's STI, settling the difference with the bank
+   */
+  private setSTI(id: string, av: AttentionValue, sti: number): void {
+    const value = Math.abs(sti) < IMPORTANCE_EPSILON ? 0 : sti;
+    this.totalSTI += value - av.sti;
+    av.sti = value;
+    this.track(id, av);
+  }
+
+  /**
+   * Set an atom's LTI, settling the difference with the bank
+   */
+  private setLTI(id: string, av: AttentionValue, lti: number): void {
+    const value = Math.abs(lti) < IMPORTANCE_EPSILON ? 0 : lti;
+    this.totalLTI += value - av.lti;
+    av.lti = value;
+    this.track(id, av);
+  }
+
+  /**
+   * Stimulate an atom - pay it STI and LTI wages from the bank
+   */
+  stimulate(atomId: string, amount: number): void {
+    const av = this.attention.get(atomId);
+    if (!av) return;
+
+    const stiWage = Math.min(
+      amount * this.params.stiWage,
+      Math.max(0, this.getSTIFunds()),
+      MAX_ATOM_STI - av.sti,
+    );
+    const ltiWage = Math.min(
+      amount * this.params.ltiWage,
+      Math.max(0, this.getLTIFunds()),
+      MAX_ATOM_LTI - av.lti,
+    );
+
+    if (stiWage > 0) this.setSTI(atomId, av, av.sti + stiWage);
+    if (ltiWage > 0) this.setLTI(atomId, av, av.lti + ltiWage);
+  }
+
+  /**
+   * Run one cycle of attention allocation: learn HebbianLinks between
+   * co-focused atoms, spread STI along the atom graph, collect rent and
+   * let unfocused atoms decay back to the bank
+   */
+  spreadAttention(): void {
+    const focusIds = this.getFocusIds();
+
+    this.updateHebbianLinks(focusIds);
+    this.spreadImportance(focusIds);
+
+    // Pay rent for being in focus
+    for (const id of focusIds) {
+      const av = this.attention.get(id)!;
+      this.setSTI(id, av, av.sti - this.params.rentRate * av.sti);
     }
 
     // Decay unfocused atoms
@@ -103,64 +259,155 @@ export class ECANEngine {
   }
 
   /**
-   * Spread attention to a child atom
+   * IDs in attentional focus, highest STI first, bounded by maxFocusSize
    */
-  private spreadToChild(child: AtomNode, amount: number): void {
-    // Find the child in our atom map
-    for (const [id, atom] of this.atoms.entries()) {
-      if (this.atomsMatch(atom, child)) {
-        if (!atom.attentionValue) {
-          atom.attentionValue = { sti: 0, lti: 0, vlti: 0 };
+  private getFocusIds(): string[] {
+    return Array.from(this.focus)
+      .sort((a, b) => this.attention.get(b)!.sti - this.attention.get(a)!.sti)
+      .slice(0, this.params.maxFocusSize);
+  }
+
+  /**
+   * Move each source's HebbianLinks towards 1 for targets that are in
+   * focus with it and towards 0 for those that are not. Links are
+   * asymmetric: A -> B only learns while A is in focus.
+   */
+  private updateHebbianLinks(focusIds: string[]): void {
+    const rate = this.params.hebbianRate;
+    const inFocus = new Set(focusIds);
+
+    for (const source of focusIds) {
+      for (const target of focusIds) {
+        if (target === source) continue;
+        const link = this.getOrCreateHebbianLink(source, target);
+        link.strength += rate * (1 - link.strength);
+        link.updates++;
+      }
+
+      for (const link of Array.from(this.hebbian.get(source)?.values() || [])) {
+        if (inFocus.has(link.target)) continue;
+        link.strength -= rate * link.strength;
+        link.updates++;
+        if (link.strength < this.params.minHebbianStrength) {
+          this.removeHebbianLink(source, link.target);
         }
-        atom.attentionValue.sti += amount;
-        break;
       }
     }
   }
 
+  private getOrCreateHebbianLink(source: string, target: string): HebbianLink {
+    let links = this.hebbian.get(source);
+    if (!links) {
+      links = new Map();
+      this.hebbian.set(source, links);
+    }
+
+    let link = links.get(target);
+    if (!link) {
+      link = { source, target, strength: 0, updates: 0 };
+      links.set(target, link);
+
+      let sources = this.hebbianIncoming.get(target);
+      if (!sources) {
+        sources = new Set();
+        this.hebbianIncoming.set(target, sources);
+      }
+      sources.add(source);
+    }
+
+    return link;
+  }
+
+  private removeHebbianLink(source: string, target: string): void {
+    const links = this.hebbian.get(source);
+    links?.delete(target);
+    if (links && links.size === 0) this.hebbian.delete(source);
+
+    const sources = this.hebbianIncoming.get(target);
+    sources?.delete(source);
+    if (sources && sources.size === 0) this.hebbianIncoming.delete(target);
+  }
+
   /**
-   * Check if two atoms match
+   * Transfer a share of each focused atom's STI to its outgoing set,
+   * incoming set and HebbianLink targets. Transfers are computed from
+   * the STI at the start of the tick, so visiting order does not matter.
    */
-  private atomsMatch(atom1: AtomNode, atom2: AtomNode): boolean {
-    return (
-      atom1.type === atom2.type &&
-      atom1.name === atom2.name &&
-      atom1.value === atom2.value
-    );
+  private spreadImportance(focusIds: string[]): void {
+    const transfers: Map<string, number> = new Map();
+    const credit = (id: string, amount: number) =>
+      transfers.set(id, (transfers.get(id) || 0) + amount);
+
+    for (const id of focusIds) {
+      const amount = this.attention.get(id)!.sti * this.params.spreadRate;
+      if (amount <= 0) continue;
+
+      const targets = this.getSpreadTargets(id);
+      const totalWeight = Array.from(targets.values()).reduce(
+        (sum, weight) => sum + weight,
+        0,
+      );
+      if (totalWeight === 0) continue;
+
+      credit(id, -amount);
+      for (const [target, weight] of targets) {
+        credit(target, (amount * weight) / totalWeight);
+      }
+    }
+
+    for (const [id, amount] of transfers) {
+      const av = this.attention.get(id)!;
+      this.setSTI(id, av, Math.min(MAX_ATOM_STI, av.sti + amount));
+    }
   }
 
   /**
-   * Decay atoms not in focus
+   * Neighbours of an atom with their spreading weights: 1 for each
+   * structural neighbour, the link strength for each HebbianLink target
    */
-  private decayUnfocusedAtoms(): void {
-    for (const atom of this.atoms.values()) {
-      if (!atom.attentionValue) continue;
+  private getSpreadTargets(id: string): Map<string, number> {
+    const targets: Map<string, number> = new Map();
+    const add = (target: string | undefined, weight: number) => {
+      if (target === undefined || target === id) return;
+      targets.set(target, (targets.get(target) || 0) + weight);
+    };
 
-      if (atom.attentionValue.sti < AFB_THRESHOLD) {
-        atom.attentionValue.sti *= 1 - this.decayRate;
+    for (const child of this.outgoing.get(id) || []) {
+      add(this.handleIndex.get(child), 1);
+    }
+    for (const parent of this.incoming.get(this.handles.get(id)!) || []) {
+      add(parent, 1);
+    }
+    for (const link of this.hebbian.get(id)?.values() || []) {
+      add(link.target, link.strength);
+    }
 
-        // Forget very unimportant atoms
-        if (atom.attentionValue.sti < FORGETTING_THRESHOLD) {
-          atom.attentionValue.sti = FORGETTING_THRESHOLD;
-        }
+    return targets;
+  }
+
+  /**
+   * Decay atoms not in focus, returning their STI to the bank
+   */
+  private decayUnfocusedAtoms(): void {
+    for (const id of Array.from(this.active)) {
+      const av = this.attention.get(id)!;
+      if (av.sti !== 0 && av.sti < AFB_THRESHOLD) {
+        this.setSTI(id, av, av.sti * (1 - this.params.decayRate));
       }
     }
   }
 
   /**
-   * Normalize total STI to stay within budget
+   * Scale STI back down if the atoms hold more than the budget
    */
   private normalizeSTI(): void {
-    if (this.totalSTI > this.maxSTI) {
-      const scaleFactor = this.maxSTI / this.totalSTI;
+    if (this.totalSTI > this.params.maxSTI) {
+      const scaleFactor = this.params.maxSTI / this.totalSTI;
 
-      for (const atom of this.atoms.values()) {
-        if (atom.attentionValue) {
-          atom.attentionValue.sti *= scaleFactor;
-        }
+      for (const id of Array.from(this.active)) {
+        const av = this.attention.get(id)!;
+        this.setSTI(id, av, av.sti * scaleFactor);
       }
-
-      this.totalSTI = this.maxSTI;
     }
   }
 
@@ -168,42 +415,131 @@ export class ECANEngine {
    * Get atoms currently in attentional focus (above AFB)
    */
   getAtomicFocus(): AtomWithAttention[] {
-    return Array.from(this.atoms.values()).filter(
-      (atom) => atom.attentionValue && atom.attentionValue.sti >= AFB_THRESHOLD,
-    );
+    return this.getFocusIds().map((id) => this.withAttention(id));
   }
 
   /**
    * Get top N atoms by STI
    */
   getTopAtoms(n: number): AtomWithAttention[] {
-    return Array.from(this.atoms.values())
-      .sort((a, b) => {
-        const stiA = a.attentionValue?.sti || 0;
-        const stiB = b.attentionValue?.sti || 0;
-        return stiB - stiA;
-      })
-      .slice(0, n);
+    const pool =
+      this.active.size >= n ? Array.from(this.active) : this.atoms.keys();
+    return Array.from(pool)
+      .sort((a, b) => this.attention.get(b)!.sti - this.attention.get(a)!.sti)
+      .slice(0, n)
+      .map((id) => this.withAttention(id));
+  }
+
+  /**
+   * Copy of an atom carrying its current attention value
+   */
+  private withAttention(id: string): AtomWithAttention {
+    return { ...this.atoms.get(id)!, attentionValue: this.getAttention(id) };
+  }
+
+  /**
+   * Current attention value of an atom
+   */
+  getAttention(id: string): AttentionValue | undefined {
+    const av = this.attention.get(id);
+    return av ? { ...av } : undefined;
   }
 
   /**
    * Update LTI based on STI history
-   * Called periodically to convert short-term to long-term importance
+   * Focused atoms earn an LTI wage, the rest pay LTI rent to the bank
    */
   updateLTI(): void {
-    for (const atom of this.atoms.values()) {
-      if (!atom.attentionValue) continue;
-
-      // LTI increases slowly based on sustained high STI
-      if (atom.attentionValue.sti > AFB_THRESHOLD) {
-        atom.attentionValue.lti = Math.min(100, atom.attentionValue.lti + 0.1);
-      } else {
-        // Slowly decay LTI if not in focus
-        atom.attentionValue.lti *= 0.99;
+    for (const id of Array.from(this.active)) {
+      const av = this.attention.get(id)!;
+
+      if (av.sti >= AFB_THRESHOLD) {
+        const wage = Math.min(
+          this.params.focusLTIWage,
+          Math.max(0, this.getLTIFunds()),
+          MAX_ATOM_LTI - av.lti,
+        );
+        if (wage > 0) this.setLTI(id, av, av.lti + wage);
+      } else if (av.lti > 0) {
+        this.setLTI(id, av, av.lti * (1 - this.params.ltiRentRate));
       }
     }
   }
 
+  /**
+   * Forget the lowest-LTI atoms once the network holds more than
+   * maxAtoms. Only unfocused atoms without VLTI, below the forgetting
+   * threshold and with no incoming links are candidates. Returns the
+   * forgotten IDs so the caller can drop them from the AtomSpace.
+   */
+  forget(): string[] {
+    const excess = this.atoms.size - this.params.maxAtoms;
+    if (excess <= 0) return [];
+
+    const candidates: string[] = [];
+    for (const [id, av] of this.attention) {
+      if (
+        av.vlti === 0 &&
+        av.lti < FORGETTING_THRESHOLD &&
+        !this.focus.has(id) &&
+        !this.incoming.has(this.handles.get(id)!)
+      ) {
+        candidates.push(id);
+      }
+    }
+
+    const forgotten = candidates
+      .sort((a, b) => this.attention.get(a)!.lti - this.attention.get(b)!.lti)
+      .slice(0, excess);
+    forgotten.forEach((id) => this.removeAtom(id));
+
+    if (forgotten.length > 0) {
+      log.info(`ECAN forgot ${forgotten.length} low-LTI atoms`);
+    }
+    return forgotten;
+  }
+
+  /**
+   * Get HebbianLinks, optionally only those leaving one atom
+   */
+  getHebbianLinks(source?: string): HebbianLink[] {
+    if (source !== undefined) {
+      return Array.from(this.hebbian.get(source)?.values() || []);
+    }
+    return Array.from(this.hebbian.values()).flatMap((links) =>
+      Array.from(links.values()),
+    );
+  }
+
+  /**
+   * Get HebbianLinks as AsymmetricHebbianLink atoms, with the link
+   * strength as truth value strength and the update count as evidence
+   */
+  getHebbianAtoms(): AtomNode[] {
+    return this.getHebbianLinks().map((link) => ({
+      type: AtomType.ASYMMETRIC_HEBBIAN_LINK,
+      children: [this.atoms.get(link.source)!, this.atoms.get(link.target)!],
+      truthValue: {
+        strength: link.strength,
+        confidence: link.updates / (link.updates + 10),
+      },
+    }));
+  }
+
+  /**
+   * STI held by the bank
+   */
+  getSTIFunds(): number {
+    return this.params.maxSTI - this.totalSTI;
+  }
+
+  /**
+   * LTI held by the bank
+   */
+  getLTIFunds(): number {
+    return this.params.maxLTI - this.totalLTI;
+  }
+
   /**
    * Get attention statistics
    */
@@ -212,21 +548,25 @@ export class ECANEngine {
     focusedAtoms: number;
     averageSTI: number;
     totalSTI: number;
+    totalLTI: number;
+    stiFunds: number;
+    ltiFunds: number;
+    hebbianLinks: number;
   } {
-    const focusedCount = this.getAtomicFocus().length;
-    const avgSTI =
-      this.atoms.size > 0
-        ? Array.from(this.atoms.values()).reduce(
-            (sum, atom) => sum + (atom.attentionValue?.sti || 0),
-            0,
-          ) / this.atoms.size
-        : 0;
+    let hebbianLinks = 0;
+    for (const links of this.hebbian.values()) {
+      hebbianLinks += links.size;
+    }
 
     return {
       totalAtoms: this.atoms.size,
-      focusedAtoms: focusedCount,
-      averageSTI: avgSTI,
+      focusedAtoms: Math.min(this.focus.size, this.params.maxFocusSize),
+      averageSTI: this.atoms.size > 0 ? this.totalSTI / this.atoms.size : 0,
       totalSTI: this.totalSTI,
+      totalLTI: this.totalLTI,
+      stiFunds: this.getSTIFunds(),
+      ltiFunds: this.getLTIFunds(),
+      hebbianLinks,
     };
   }
 
@@ -235,29 +575,34 @@ export class ECANEngine {
    */
   clear(): void {
     this.atoms.clear();
+    this.attention.clear();
+    this.handleIndex.clear();
+    this.handles.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+    this.hebbian.clear();
+    this.hebbianIncoming.clear();
+    this.focus.clear();
+    this.active.clear();
     this.totalSTI = 0;
+    this.totalLTI = 0;
   }
 
   /**
    * Get all atoms
    */
   getAllAtoms(): AtomWithAttention[] {
-    return Array.from(this.atoms.values());
+    return Array.from(this.atoms.keys(), (id) => this.withAttention(id));
   }
 
   /**
    * Set attention parameters
    */
-  setParameters(params: {
-    spreadRate?: number;
-    decayRate?: number;
-    rentRate?: number;
-    maxSTI?: number;
-  }): void {
-    if (params.spreadRate !== undefined) this.spreadRate = params.spreadRate;
-    if (params.decayRate !== undefined) this.decayRate = params.decayRate;
-    if (params.rentRate !== undefined) this.rentRate = params.rentRate;
-    if (params.maxSTI !== undefined) this.maxSTI = params.maxSTI;
+  setParameters(params: Partial<ECANParameters>): void {
+    for (const key of Object.keys(params) as (keyof ECANParameters)[]) {
+      if (params[key] !== undefined) this.params[key] = params[key]!;
+    }
+    this.normalizeSTI();
   }
 }
 
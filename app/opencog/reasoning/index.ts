@@ -6,3 +6,9 @@
 export * from "./pln";
 export * from "./ecan";
 export * from "./moses";
+export * from "./moses-program";
+export * from "./moses-fitness";
+export * from "./moses-representation";
+export * from "./moses-export";
+export * from "./moses-worker";
+export * from "./attention-context";
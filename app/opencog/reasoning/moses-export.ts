@@ -0,0 +1,275 @@
+/**
+ * MOSES Model Export
+ * Converts evolved programs to Atomese atoms and MeTTa function
+ * definitions
+ */
+
+import { AtomNode, AtomType, MeTTaExpression } from "../types";
+import { countTV } from "../truth-value";
+import { formatAtomese, formatMetta } from "../formatter";
+import type { Candidate, ProgramNode } from "./moses";
+import type { FitnessTaskKind } from "./moses-fitness";
+import type { VariableSpec } from "./moses-program";
+
+/**
+ * What a model predicts and the data it was scored on
+ */
+export interface ModelExportOptions {
+  name: string; // Name of the defined schema, predicate or MeTTa function
+  target: string; // Predicted column
+  kind: FitnessTaskKind;
+  inputs: VariableSpec[];
+  evidence: number; // Rows the fitness was measured on
+}
+
+/**
+ * Atomese for the built-in boolean primitives
+ */
+const LOGIC_LINKS: Record<string, AtomType> = {
+  and: AtomType.AND_LINK,
+  or: AtomType.OR_LINK,
+  not: AtomType.NOT_LINK,
+};
+
+/**
+ * MeTTa names for primitives that are spelled differently there
+ */
+const METTA_OPERATORS: Record<string, string> = {
+  "=": "==",
+};
+
+/**
+ * Convert a program body to Atomese. Numeric inputs become VariableNodes
+ * and boolean inputs PredicateNodes; numeric primitives are applied with
+ * ExecutionOutputLink over a SchemaNode, comparisons are evaluated with
+ * EvaluationLink over a PredicateNode, and and/or/not map to logic links.
+ */
+export function programToAtom(
+  program: ProgramNode,
+  inputs: VariableSpec[],
+): AtomNode {
+  const name = String(program.value);
+
+  switch (program.type) {
+    case "terminal":
+      return typeof program.value === "number"
+        ? { type: AtomType.NUMBER_NODE, name }
+        : { type: AtomType.PREDICATE_NODE, name };
+    case "variable":
+      return inputs.find((v) => v.name === name)?.type === "boolean"
+        ? { type: AtomType.PREDICATE_NODE, name }
+        : { type: AtomType.VARIABLE_NODE, name: `$${name}` };
+  }
+
+  const children = (program.children || []).map((child) =>
+    programToAtom(child, inputs),
+  );
+  if (LOGIC_LINKS[name]) {
+    return { type: LOGIC_LINKS[name], children };
+  }
+
+  const args: AtomNode = { type: AtomType.LIST_LINK, children };
+  return isComparison(name)
+    ? {
+        type: AtomType.EVALUATION_LINK,
+        children: [{ type: AtomType.PREDICATE_NODE, name }, args],
+      }
+    : {
+        type: AtomType.EXECUTION_OUTPUT_LINK,
+        children: [{ type: AtomType.SCHEMA_NODE, name }, args],
+      };
+}
+
+/**
+ * Convert a learned model to atoms. Every model is defined with a
+ * DefineLink, over a LambdaLink when it has numeric inputs. Classifiers also
+ * get an implication from the program body to the target predicate, so
+ * PLN can reason with the learned rule. The truth value carries the
+ * fitness as strength and the number of rows as evidence.
+ */
+export function modelToAtoms(
+  candidate: Candidate,
+  options: ModelExportOptions,
+): AtomNode[] {
+  const truthValue = countTV(
+    Math.max(0, Math.min(1, candidate.fitness)),
+    options.evidence,
+  );
+  const body = programToAtom(candidate.program, options.inputs);
+  const variables = (specs: VariableSpec[]): AtomNode => ({
+    type: AtomType.VARIABLE_LIST,
+    children: specs.map((v) => ({
+      type: AtomType.VARIABLE_NODE,
+      name: `$${v.name}`,
+    })),
+  });
+  const numericInputs = options.inputs.filter((v) => v.type === "number");
+
+  const definition: AtomNode = {
+    type: AtomType.DEFINE_LINK,
+    children: [
+      {
+        type:
+          options.kind === "classification"
+            ? AtomType.DEFINED_PREDICATE_NODE
+            : AtomType.DEFINED_SCHEMA_NODE,
+        name: options.name,
+      },
+      numericInputs.length === 0
+        ? body
+        : {
+            type: AtomType.LAMBDA_LINK,
+            children: [variables(numericInputs), body],
+          },
+    ],
+  };
+
+  if (options.kind !== "classification") {
+    return [{ ...definition, truthValue }];
+  }
+
+  const used = numericInputs.filter((v) =>
+    usesVariable(candidate.program, v.name),
+  );
+  const target: AtomNode = {
+    type: AtomType.PREDICATE_NODE,
+    name: options.target,
+  };
+  const rule: AtomNode =
+    used.length === 0
+      ? {
+          type: AtomType.IMPLICATION_LINK,
+          children: [body, target],
+          truthValue,
+        }
+      : {
+          type: AtomType.IMPLICATION_SCOPE_LINK,
+          children: [
+            variables(used),
+            body,
+            {
+              type: AtomType.EVALUATION_LINK,
+              children: [
+                target,
+                {
+                  type: AtomType.LIST_LINK,
+                  children: used.map((v) => ({
+                    type: AtomType.VARIABLE_NODE,
+                    name: `$${v.name}`,
+                  })),
+                },
+              ],
+            },
+          ],
+          truthValue,
+        };
+
+  return [definition, rule];
+}
+
+/**
+ * Pretty-printed Atomese for a learned model
+ */
+export function modelToAtomese(
+  candidate: Candidate,
+  options: ModelExportOptions,
+): string {
+  return formatAtomese(modelToAtoms(candidate, options));
+}
+
+/**
+ * Convert a program body to a MeTTa expression over `$input` variables
+ */
+export function programToMetta(program: ProgramNode): MeTTaExpression {
+  switch (program.type) {
+    case "terminal":
+      return typeof program.value === "number"
+        ? { type: "number", value: String(program.value) }
+        : {
+            type: "symbol",
+            value: program.value === "true" ? "True" : "False",
+          };
+    case "variable":
+      return {
+        type: "variable",
+        value: `$${mettaName(String(program.value))}`,
+      };
+    case "function": {
+      const name = String(program.value);
+      return {
+        type: "expression",
+        value: [
+          { type: "symbol", value: METTA_OPERATORS[name] || name },
+          ...(program.children || []).map(programToMetta),
+        ],
+      };
+    }
+  }
+}
+
+/**
+ * MeTTa type declaration and function definition for a learned model,
+ * taking every input column as a parameter
+ */
+export function modelToMetta(
+  candidate: Candidate,
+  options: ModelExportOptions,
+): string {
+  const name = mettaName(options.name);
+  const typeName = (type: VariableSpec["type"]) =>
+    type === "boolean" ? "Bool" : "Number";
+  const symbol = (value: string): MeTTaExpression => ({
+    type: "symbol",
+    value,
+  });
+  const expression = (value: MeTTaExpression[]): MeTTaExpression => ({
+    type: "expression",
+    value,
+  });
+
+  const declaration = expression([
+    symbol(":"),
+    symbol(name),
+    expression([
+      symbol("->"),
+      ...options.inputs.map((v) => symbol(typeName(v.type))),
+      symbol(
+        typeName(options.kind === "classification" ? "boolean" : "number"),
+      ),
+    ]),
+  ]);
+  const definition = expression([
+    symbol("="),
+    expression([
+      symbol(name),
+      ...options.inputs.map(
+        (v): MeTTaExpression => ({
+          type: "variable",
+          value: `$${mettaName(v.name)}`,
+        }),
+      ),
+    ]),
+    programToMetta(candidate.program),
+  ]);
+
+  return [
+    `; ${options.target} model, fitness ${candidate.fitness.toFixed(4)}`,
+    formatMetta([declaration, definition]),
+  ].join("\n");
+}
+
+function isComparison(name: string): boolean {
+  return name === "<" || name === ">" || name === "=";
+}
+
+function usesVariable(program: ProgramNode, name: string): boolean {
+  if (program.type === "variable") return program.value === name;
+  return (program.children || []).some((child) => usesVariable(child, name));
+}
+
+/**
+ * MeTTa symbols cannot contain whitespace or parentheses
+ */
+function mettaName(name: string): string {
+  return name.replace(/[\s()";]+/g, "_");
+}
@@ -0,0 +1,278 @@
+/**
+ * MOSES Fitness Tasks
+ * Loads tabular data from CSV or JSON and builds fitness functions for
+ * boolean classification and regression
+ */
+
+import type { FitnessFunction } from "./moses";
+import {
+  PrimitiveSet,
+  ProgramInterpreter,
+  ProgramInputs,
+  ProgramValue,
+  ValueType,
+  VariableSpec,
+} from "./moses-program";
+
+/**
+ * A typed data table; every column is all-number or all-boolean
+ */
+export interface DataTable {
+  columns: VariableSpec[];
+  rows: ProgramInputs[];
+}
+
+export type FitnessTaskKind = "classification" | "regression";
+
+/**
+ * Everything MOSES needs to learn a model of one target column
+ */
+export interface FitnessTask {
+  kind: FitnessTaskKind;
+  target: string;
+  inputs: VariableSpec[];
+  returnType: ValueType;
+  primitives: PrimitiveSet;
+  fitness: FitnessFunction;
+}
+
+/**
+ * Parse CSV with a header row. Fields may be double-quoted, with ""
+ * escaping a quote. Throws on ragged rows or mixed-type columns.
+ */
+export function parseCSVTable(csv: string): DataTable {
+  const records = readCSVRecords(csv).filter(
+    (record) => !(record.length === 1 && record[0].trim() === ""),
+  );
+  if (records.length === 0) {
+    throw new Error("CSV table is empty");
+  }
+
+  const [header, ...body] = records;
+  const names = header.map((name) => name.trim());
+  const rows = body.map((record, i) => {
+    if (record.length !== names.length) {
+      throw new Error(
+        `CSV row ${i + 2} has ${record.length} fields, expected ${names.length}`,
+      );
+    }
+    return Object.fromEntries(
+      names.map((name, j) => [name, record[j].trim()]),
+    ) as Record<string, unknown>;
+  });
+
+  return typeTable(names, rows);
+}
+
+/**
+ * Parse a JSON array of flat objects
+ */
+export function parseJSONTable(json: string | unknown[]): DataTable {
+  const data = typeof json === "string" ? JSON.parse(json) : json;
+  if (!Array.isArray(data) || data.length === 0) {
+    throw new Error("JSON table must be a non-empty array of objects");
+  }
+
+  const names = Object.keys(data[0]);
+  return typeTable(names, data as Record<string, unknown>[]);
+}
+
+/**
+ * Parse a table, detecting JSON by its leading bracket
+ */
+export function parseTable(source: string): DataTable {
+  return source.trimStart().startsWith("[")
+    ? parseJSONTable(source)
+    : parseCSVTable(source);
+}
+
+/**
+ * Learn a boolean target column. Fitness is accuracy in [0, 1].
+ */
+export function booleanClassificationTask(
+  table: DataTable,
+  target: string,
+): FitnessTask {
+  const column = getColumn(table, target);
+  const labels = table.rows.map((row) =>
+    column.type === "boolean" ? row[target] : row[target] !== 0,
+  );
+
+  return buildTask(table, target, "classification", "boolean", (outputs) => {
+    let correct = 0;
+    outputs.forEach((output, i) => {
+      if (output === labels[i]) correct++;
+    });
+    return correct / outputs.length;
+  });
+}
+
+/**
+ * Learn a numeric target column. Fitness is 1 / (1 + RMSE), so a
+ * perfect fit scores 1.
+ */
+export function regressionTask(table: DataTable, target: string): FitnessTask {
+  const column = getColumn(table, target);
+  if (column.type !== "number") {
+    throw new Error(`Regression target "${target}" must be numeric`);
+  }
+  const targets = table.rows.map((row) => row[target] as number);
+
+  return buildTask(table, target, "regression", "number", (outputs) => {
+    let squaredError = 0;
+    for (let i = 0; i < outputs.length; i++) {
+      const output = outputs[i] as number;
+      if (!Number.isFinite(output)) return 0;
+      squaredError += (output - targets[i]) ** 2;
+    }
+    return 1 / (1 + Math.sqrt(squaredError / outputs.length));
+  });
+}
+
+/**
+ * Build the task for one of the kinds
+ */
+export function createFitnessTask(
+  table: DataTable,
+  target: string,
+  kind: FitnessTaskKind,
+): FitnessTask {
+  return kind === "classification"
+    ? booleanClassificationTask(table, target)
+    : regressionTask(table, target);
+}
+
+function buildTask(
+  table: DataTable,
+  target: string,
+  kind: FitnessTaskKind,
+  returnType: ValueType,
+  score: (outputs: ProgramValue[]) => number,
+): FitnessTask {
+  if (table.rows.length === 0) {
+    throw new Error("Table has no rows");
+  }
+
+  // The target is not declared as a variable, so programs cannot read it
+  const inputs = table.columns.filter((column) => column.name !== target);
+  const primitives = new PrimitiveSet(undefined, inputs);
+  const interpreter = new ProgramInterpreter(primitives);
+
+  return {
+    kind,
+    target,
+    inputs,
+    returnType,
+    primitives,
+    fitness: async (program) => {
+      if (!interpreter.isValid(program, returnType)) return 0;
+      const run = interpreter.compile(program);
+      return score(table.rows.map((row) => run(row)));
+    },
+  };
+}
+
+function getColumn(table: DataTable, name: string): VariableSpec {
+  const column = table.columns.find((c) => c.name === name);
+  if (!column) {
+    throw new Error(`Unknown target column "${name}"`);
+  }
+  return column;
+}
+
+/**
+ * Infer each column's type and convert the raw values
+ */
+function typeTable(
+  names: string[],
+  rows: Record<string, unknown>[],
+): DataTable {
+  const columns = names.map((name): VariableSpec => {
+    const values = rows.map((row) => row[name]);
+    if (values.every((value) => toBoolean(value) !== undefined)) {
+      return { name, type: "boolean" };
+    }
+    if (values.every((value) => toNumber(value) !== undefined)) {
+      return { name, type: "number" };
+    }
+
+    const bad = values.findIndex(
+      (value) =>
+        toBoolean(value) === undefined && toNumber(value) === undefined,
+    );
+    throw new Error(
+      `Column "${name}" row ${bad + 1}: "${String(values[bad])}" is neither a number nor a boolean`,
+    );
+  });
+
+  return {
+    columns,
+    rows: rows.map((row) =>
+      Object.fromEntries(
+        columns.map(({ name, type }) => [
+          name,
+          type === "boolean" ? toBoolean(row[name])! : toNumber(row[name])!,
+        ]),
+      ),
+    ),
+  };
+}
+
+function toBoolean(value: unknown): boolean | undefined {
+  if (typeof value === "boolean") return value;
+  if (typeof value !== "string") return undefined;
+
+  const lower = value.toLowerCase();
+  if (lower === "true") return true;
+  if (lower === "false") return false;
+  return undefined;
+}
+
+function toNumber(value: unknown): number | undefined {
+  if (typeof value === "number") return value;
+  if (typeof value !== "string" || value.trim() === "") return undefined;
+
+  const number = Number(value);
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function readCSVRecords(csv: string): string[][] {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+
+    if (quoted) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      record.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && csv[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== "" || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+  return records;
+}
@@ -0,0 +1,321 @@
+/**
+ * MOSES Program Representation
+ * Typed primitive set and interpreter for ProgramNode trees
+ */
+
+import type { ProgramNode } from "./moses";
+
+export type ValueType = "number" | "boolean";
+export type ProgramValue = number | boolean;
+export type ProgramInputs = Record<string, ProgramValue>;
+
+/**
+ * A function that programs may call
+ */
+export interface Primitive {
+  name: string;
+  argTypes: ValueType[];
+  returnType: ValueType;
+  apply: (...args: any[]) => ProgramValue;
+}
+
+/**
+ * A typed program input
+ */
+export interface VariableSpec {
+  name: string;
+  type: ValueType;
+}
+
+/**
+ * Differences below this count as equal, and division by a smaller
+ * magnitude is protected
+ */
+const EPSILON = 1e-9;
+
+export const ARITHMETIC_PRIMITIVES: Primitive[] = [
+  {
+    name: "+",
+    argTypes: ["number", "number"],
+    returnType: "number",
+    apply: (a: number, b: number) => a + b,
+  },
+  {
+    name: "-",
+    argTypes: ["number", "number"],
+    returnType: "number",
+    apply: (a: number, b: number) => a - b,
+  },
+  {
+    name: "*",
+    argTypes: ["number", "number"],
+    returnType: "number",
+    apply: (a: number, b: number) => a * b,
+  },
+  {
+    // Protected division: x / 0 = 1
+    name: "/",
+    argTypes: ["number", "number"],
+    returnType: "number",
+    apply: (a: number, b: number) => (Math.abs(b) < EPSILON ? 1 : a / b),
+  },
+  {
+    name: "if",
+    argTypes: ["boolean", "number", "number"],
+    returnType: "number",
+    apply: (test: boolean, then: number, otherwise: number) =>
+      test ? then : otherwise,
+  },
+];
+
+export const BOOLEAN_PRIMITIVES: Primitive[] = [
+  {
+    name: "and",
+    argTypes: ["boolean", "boolean"],
+    returnType: "boolean",
+    apply: (a: boolean, b: boolean) => a && b,
+  },
+  {
+    name: "or",
+    argTypes: ["boolean", "boolean"],
+    returnType: "boolean",
+    apply: (a: boolean, b: boolean) => a || b,
+  },
+  {
+    name: "not",
+    argTypes: ["boolean"],
+    returnType: "boolean",
+    apply: (a: boolean) => !a,
+  },
+];
+
+export const COMPARISON_PRIMITIVES: Primitive[] = [
+  {
+    name: "<",
+    argTypes: ["number", "number"],
+    returnType: "boolean",
+    apply: (a: number, b: number) => a < b,
+  },
+  {
+    name: ">",
+    argTypes: ["number", "number"],
+    returnType: "boolean",
+    apply: (a: number, b: number) => a > b,
+  },
+  {
+    name: "=",
+    argTypes: ["number", "number"],
+    returnType: "boolean",
+    apply: (a: number, b: number) => Math.abs(a - b) < EPSILON,
+  },
+];
+
+export const DEFAULT_PRIMITIVES: Primitive[] = [
+  ...ARITHMETIC_PRIMITIVES,
+  ...BOOLEAN_PRIMITIVES,
+  ...COMPARISON_PRIMITIVES,
+];
+
+/**
+ * Registry of the primitives and variables programs may use
+ */
+export class PrimitiveSet {
+  private primitives: Map<string, Primitive> = new Map();
+  private variables: Map<string, VariableSpec> = new Map();
+
+  constructor(
+    primitives: Primitive[] = DEFAULT_PRIMITIVES,
+    variables: VariableSpec[] = [],
+  ) {
+    primitives.forEach((primitive) => this.register(primitive));
+    variables.forEach((variable) => this.addVariable(variable));
+  }
+
+  /**
+   * Register a primitive. Throws if the name is taken.
+   */
+  register(primitive: Primitive): void {
+    if (this.primitives.has(primitive.name)) {
+      throw new Error(`Primitive "${primitive.name}" is already registered`);
+    }
+    this.primitives.set(primitive.name, primitive);
+  }
+
+  /**
+   * Declare a program input
+   */
+  addVariable(variable: VariableSpec): void {
+    this.variables.set(variable.name, variable);
+  }
+
+  get(name: string): Primitive | undefined {
+    return this.primitives.get(name);
+  }
+
+  getVariable(name: string): VariableSpec | undefined {
+    return this.variables.get(name);
+  }
+
+  /**
+   * Get primitives, optionally only those returning a type
+   */
+  getPrimitives(returnType?: ValueType): Primitive[] {
+    const all = Array.from(this.primitives.values());
+    return returnType ? all.filter((p) => p.returnType === returnType) : all;
+  }
+
+  /**
+   * Get variables, optionally only those of a type
+   */
+  getVariables(type?: ValueType): VariableSpec[] {
+    const all = Array.from(this.variables.values());
+    return type ? all.filter((v) => v.type === type) : all;
+  }
+
+  /**
+   * Primitives interchangeable with the given one (same signature)
+   */
+  getCompatible(primitive: Primitive): Primitive[] {
+    return this.getPrimitives(primitive.returnType).filter(
+      (p) =>
+        p.argTypes.length === primitive.argTypes.length &&
+        p.argTypes.every((type, i) => type === primitive.argTypes[i]),
+    );
+  }
+}
+
+/**
+ * Evaluates and type-checks ProgramNode trees against a primitive set.
+ * Boolean constants are terminals with the value "true" or "false".
+ */
+export class ProgramInterpreter {
+  private primitives: PrimitiveSet;
+
+  constructor(primitives: PrimitiveSet = new PrimitiveSet()) {
+    this.primitives = primitives;
+  }
+
+  /**
+   * Evaluate a program once
+   */
+  evaluate(program: ProgramNode, inputs: ProgramInputs): ProgramValue {
+    return this.compile(program)(inputs);
+  }
+
+  /**
+   * Compile a program into a function, so it can be run over many rows
+   * without re-walking the tree. Throws on unknown primitives, arity
+   * mismatches and undeclared variables.
+   */
+  compile(program: ProgramNode): (inputs: ProgramInputs) => ProgramValue {
+    switch (program.type) {
+      case "terminal": {
+        const value = terminalValue(program);
+        return () => value;
+      }
+      case "variable": {
+        const name = String(program.value);
+        if (!this.primitives.getVariable(name)) {
+          throw new Error(`Unknown variable "${name}"`);
+        }
+        return (inputs) => {
+          if (!(name in inputs)) {
+            throw new Error(`Missing input for variable "${name}"`);
+          }
+          return inputs[name];
+        };
+      }
+      case "function": {
+        const primitive = this.getPrimitive(program);
+        const args = (program.children || []).map((child) =>
+          this.compile(child),
+        );
+        return (inputs) => primitive.apply(...args.map((arg) => arg(inputs)));
+      }
+    }
+  }
+
+  /**
+   * Infer a program's result type. Throws if the program is ill-typed.
+   */
+  typeOf(program: ProgramNode): ValueType {
+    switch (program.type) {
+      case "terminal":
+        return typeof terminalValue(program) === "boolean"
+          ? "boolean"
+          : "number";
+      case "variable": {
+        const variable = this.primitives.getVariable(String(program.value));
+        if (!variable) {
+          throw new Error(`Unknown variable "${program.value}"`);
+        }
+        return variable.type;
+      }
+      case "function": {
+        const primitive = this.getPrimitive(program);
+        (program.children || []).forEach((child, i) => {
+          const type = this.typeOf(child);
+          if (type !== primitive.argTypes[i]) {
+            throw new Error(
+              `Argument ${i + 1} of "${primitive.name}" must be ${primitive.argTypes[i]}, got ${type}`,
+            );
+          }
+        });
+        return primitive.returnType;
+      }
+    }
+  }
+
+  /**
+   * Check that a program is well-typed and returns the expected type
+   */
+  isValid(program: ProgramNode, returnType?: ValueType): boolean {
+    try {
+      const type = this.typeOf(program);
+      return returnType === undefined || type === returnType;
+    } catch {
+      return false;
+    }
+  }
+
+  private getPrimitive(program: ProgramNode): Primitive {
+    const primitive = this.primitives.get(String(program.value));
+    if (!primitive) {
+      throw new Error(`Unknown primitive "${program.value}"`);
+    }
+
+    const arity = program.children?.length || 0;
+    if (arity !== primitive.argTypes.length) {
+      throw new Error(
+        `"${primitive.name}" expects ${primitive.argTypes.length} arguments, got ${arity}`,
+      );
+    }
+    return primitive;
+  }
+}
+
+/**
+ * Render a program as a compact S-expression, e.g. (+ x0 (* 2.5 x1))
+ */
+export function formatProgram(program: ProgramNode): string {
+  if (program.type !== "function") {
+    return typeof program.value === "number"
+      ? String(Number(program.value.toFixed(4)))
+      : String(program.value);
+  }
+
+  const args = (program.children || []).map(formatProgram);
+  return `(${[program.value, ...args].join(" ")})`;
+}
+
+function terminalValue(program: ProgramNode): ProgramValue {
+  if (program.value === "true") return true;
+  if (program.value === "false") return false;
+  if (typeof program.value === "number") return program.value;
+
+  const value = Number(program.value);
+  if (Number.isNaN(value)) {
+    throw new Error(`Invalid constant "${program.value}"`);
+  }
+  return value;
+}
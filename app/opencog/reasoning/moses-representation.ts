@@ -0,0 +1,362 @@
+/**
+ * MOSES Representation Building
+ * Program reduction to normal form, complexity measures, and knob-based
+ * representations of the program neighbourhood around an exemplar
+ */
+
+import type { ProgramNode } from "./moses";
+import {
+  DEFAULT_PRIMITIVES,
+  Primitive,
+  PrimitiveSet,
+  ProgramInterpreter,
+  ProgramValue,
+  formatProgram,
+} from "./moses-program";
+
+/**
+ * Primitives whose arguments may be reordered
+ */
+const COMMUTATIVE = new Set(["+", "*", "and", "or", "="]);
+
+const BUILTIN_PRIMITIVES: Map<string, Primitive> = new Map(
+  DEFAULT_PRIMITIVES.map((p) => [p.name, p]),
+);
+
+/**
+ * Reduce a program to a normal form: fold constant subexpressions,
+ * apply algebraic and boolean identities such as (+ x 0) => x and
+ * (not (not x)) => x, and sort the arguments of commutative primitives
+ * so equivalent programs print the same. Identities are only applied to
+ * the built-in primitives, never to user-registered ones.
+ */
+export function reduceProgram(
+  program: ProgramNode,
+  primitives: PrimitiveSet = new PrimitiveSet(),
+): ProgramNode {
+  if (program.type !== "function") {
+    return { type: program.type, value: program.value };
+  }
+
+  const name = String(program.value);
+  const primitive = primitives.get(name);
+  const builtin =
+    primitive !== undefined && primitive === BUILTIN_PRIMITIVES.get(name);
+  let args = (program.children || []).map((child) =>
+    reduceProgram(child, primitives),
+  );
+
+  if (builtin && COMMUTATIVE.has(name)) {
+    args = args.sort((a, b) =>
+      formatProgram(a).localeCompare(formatProgram(b)),
+    );
+  }
+
+  if (
+    primitive &&
+    args.length === primitive.argTypes.length &&
+    args.every(isConstant)
+  ) {
+    const value = primitive.apply(...args.map(constantValue));
+    if (typeof value === "boolean" || Number.isFinite(value)) {
+      return constant(value);
+    }
+  }
+
+  const simplified = builtin ? simplify(name, args) : undefined;
+  return simplified || { type: "function", value: name, children: args };
+}
+
+/**
+ * Program size as a node count, used for Occam penalties
+ */
+export function programComplexity(program: ProgramNode): number {
+  return (program.children || []).reduce(
+    (sum, child) => sum + programComplexity(child),
+    1,
+  );
+}
+
+/**
+ * A discrete degree of freedom around one node of the exemplar.
+ * Setting 0 leaves the node unchanged.
+ */
+export interface Knob {
+  path: string; // Child indices from the root, e.g. ".0.1"
+  kind: "constant" | "primitive" | "variable" | "insert";
+  settings: ((node: ProgramNode) => ProgramNode)[];
+}
+
+/**
+ * The knobs of an exemplar program. Each instance is a vector of knob
+ * settings; instantiating it yields a program in the exemplar's
+ * neighbourhood.
+ */
+export class Representation {
+  readonly exemplar: ProgramNode;
+  readonly knobs: Knob[] = [];
+  private knobsByPath: Map<string, number[]> = new Map();
+  private primitives: PrimitiveSet;
+  private interpreter: ProgramInterpreter;
+
+  constructor(exemplar: ProgramNode, primitives: PrimitiveSet) {
+    this.exemplar = exemplar;
+    this.primitives = primitives;
+    this.interpreter = new ProgramInterpreter(primitives);
+    this.buildKnobs(exemplar, "");
+  }
+
+  /**
+   * Settings that reproduce the exemplar
+   */
+  defaultSettings(): number[] {
+    return this.knobs.map(() => 0);
+  }
+
+  /**
+   * Build the program for a settings vector
+   */
+  instantiate(settings: number[]): ProgramNode {
+    return this.build(this.exemplar, "", settings);
+  }
+
+  /**
+   * Turn each knob to a random other setting with the given probability,
+   * changing at least one knob
+   */
+  twiddle(settings: number[], rate: number): number[] {
+    const next = settings.slice();
+    if (this.knobs.length === 0) return next;
+
+    const turn = (i: number) => {
+      const count = this.knobs[i].settings.length;
+      next[i] = (next[i] + 1 + Math.floor(Math.random() * (count - 1))) % count;
+    };
+
+    let changed = false;
+    this.knobs.forEach((_, i) => {
+      if (Math.random() < rate) {
+        turn(i);
+        changed = true;
+      }
+    });
+    if (!changed) {
+      turn(Math.floor(Math.random() * this.knobs.length));
+    }
+
+    return next;
+  }
+
+  private build(
+    node: ProgramNode,
+    path: string,
+    settings: number[],
+  ): ProgramNode {
+    let result: ProgramNode = {
+      type: node.type,
+      value: node.value,
+      children: node.children?.map((child, i) =>
+        this.build(child, `${path}.${i}`, settings),
+      ),
+    };
+
+    for (const index of this.knobsByPath.get(path) || []) {
+      const setting = settings[index] || 0;
+      if (setting > 0) {
+        result = this.knobs[index].settings[setting](result);
+      }
+    }
+    return result;
+  }
+
+  private addKnob(
+    path: string,
+    kind: Knob["kind"],
+    alternatives: ((node: ProgramNode) => ProgramNode)[],
+  ): void {
+    if (alternatives.length === 0) return;
+
+    const indices = this.knobsByPath.get(path) || [];
+    indices.push(this.knobs.length);
+    this.knobsByPath.set(path, indices);
+    this.knobs.push({
+      path,
+      kind,
+      settings: [(node) => node, ...alternatives],
+    });
+  }
+
+  /**
+   * Value knobs come before insertion knobs at the same path, so the
+   * inserted structure wraps the already-tweaked node
+   */
+  private buildKnobs(node: ProgramNode, path: string): void {
+    let type;
+    try {
+      type = this.interpreter.typeOf(node);
+    } catch {
+      return;
+    }
+
+    node.children?.forEach((child, i) =>
+      this.buildKnobs(child, `${path}.${i}`),
+    );
+
+    const withValue = (value: string | number) => (n: ProgramNode) => ({
+      ...n,
+      value,
+    });
+
+    if (node.type === "terminal" && typeof node.value === "number") {
+      const c = node.value;
+      this.addKnob(
+        path,
+        "constant",
+        [c + 1, c - 1, c * 2, c / 2, -c].map(withValue),
+      );
+    } else if (node.type === "terminal") {
+      this.addKnob(path, "constant", [
+        withValue(node.value === "true" ? "false" : "true"),
+      ]);
+    } else if (node.type === "variable") {
+      this.addKnob(
+        path,
+        "variable",
+        this.primitives
+          .getVariables(type)
+          .filter((v) => v.name !== node.value)
+          .map((v) => withValue(v.name)),
+      );
+    } else {
+      const primitive = this.primitives.get(String(node.value));
+      this.addKnob(
+        path,
+        "primitive",
+        primitive
+          ? this.primitives
+              .getCompatible(primitive)
+              .filter((p) => p.name !== primitive.name)
+              .map((p) => withValue(p.name))
+          : [],
+      );
+    }
+
+    this.addKnob(path, "insert", this.insertions(type));
+  }
+
+  /**
+   * New structure that can wrap a node of the given type
+   */
+  private insertions(
+    type: "number" | "boolean",
+  ): ((node: ProgramNode) => ProgramNode)[] {
+    const wrap =
+      (name: string, arg: ProgramNode) =>
+      (node: ProgramNode): ProgramNode => ({
+        type: "function",
+        value: name,
+        children: [node, arg],
+      });
+    const available = (name: string) => this.primitives.get(name) !== undefined;
+    const variables = this.primitives
+      .getVariables(type)
+      .map((v): ProgramNode => ({ type: "variable", value: v.name }));
+
+    if (type === "number") {
+      return ["+", "-", "*"]
+        .filter(available)
+        .flatMap((name) => variables.map((v) => wrap(name, v)));
+    }
+
+    const negate: ((node: ProgramNode) => ProgramNode)[] = available("not")
+      ? [(node) => ({ type: "function", value: "not", children: [node] })]
+      : [];
+    return negate.concat(
+      ["and", "or"]
+        .filter(available)
+        .flatMap((name) => variables.map((v) => wrap(name, v))),
+    );
+  }
+}
+
+function isConstant(node: ProgramNode): boolean {
+  return node.type === "terminal";
+}
+
+function constantValue(node: ProgramNode): ProgramValue {
+  if (node.value === "true") return true;
+  if (node.value === "false") return false;
+  return Number(node.value);
+}
+
+function constant(value: ProgramValue): ProgramNode {
+  return {
+    type: "terminal",
+    value: typeof value === "boolean" ? String(value) : value,
+  };
+}
+
+function isValue(node: ProgramNode | undefined, value: ProgramValue): boolean {
+  return (
+    node !== undefined && isConstant(node) && constantValue(node) === value
+  );
+}
+
+function sameProgram(a: ProgramNode, b: ProgramNode): boolean {
+  return formatProgram(a) === formatProgram(b);
+}
+
+/**
+ * Identities of the built-in primitives; returns undefined when none
+ * applies
+ */
+function simplify(name: string, args: ProgramNode[]): ProgramNode | undefined {
+  const [a, b, c] = args;
+
+  switch (name) {
+    case "+":
+      if (isValue(a, 0)) return b;
+      if (isValue(b, 0)) return a;
+      break;
+    case "-":
+      if (isValue(b, 0)) return a;
+      if (sameProgram(a, b)) return constant(0);
+      break;
+    case "*":
+      if (isValue(a, 0) || isValue(b, 0)) return constant(0);
+      if (isValue(a, 1)) return b;
+      if (isValue(b, 1)) return a;
+      break;
+    case "/":
+      if (isValue(b, 1)) return a;
+      if (sameProgram(a, b)) return constant(1); // x / 0 is protected to 1
+      break;
+    case "if":
+      if (isValue(a, true)) return b;
+      if (isValue(a, false)) return c;
+      if (sameProgram(b, c)) return b;
+      break;
+    case "and":
+      if (isValue(a, false) || isValue(b, false)) return constant(false);
+      if (isValue(a, true)) return b;
+      if (isValue(b, true) || sameProgram(a, b)) return a;
+      break;
+    case "or":
+      if (isValue(a, true) || isValue(b, true)) return constant(true);
+      if (isValue(a, false)) return b;
+      if (isValue(b, false) || sameProgram(a, b)) return a;
+      break;
+    case "not":
+      if (a.type === "function" && a.value === "not") return a.children![0];
+      break;
+    case "<":
+    case ">":
+      if (sameProgram(a, b)) return constant(false);
+      break;
+    case "=":
+      if (sameProgram(a, b)) return constant(true);
+      break;
+  }
+
+  return undefined;
+}
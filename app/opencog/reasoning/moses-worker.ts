@@ -0,0 +1,373 @@
+/**
+ * MOSES Worker
+ * Runs evolution off the main thread with per-generation progress,
+ * pause/resume/cancel, and checkpoints persisted to IndexedDB so long
+ * runs survive a page reload
+ */
+
+import log from "loglevel";
+import { Candidate, MOSESCheckpoint, MOSESConfig, MOSESEngine } from "./moses";
+import { DataTable, FitnessTaskKind, createFitnessTask } from "./moses-fitness";
+
+/**
+ * The data a fitness task is built from. Fitness functions cannot cross
+ * the worker boundary, so the worker rebuilds the task.
+ */
+export interface MOSESTaskSpec {
+  table: DataTable;
+  target: string;
+  kind: FitnessTaskKind;
+}
+
+/**
+ * One evolution run. Without a task the engine's default primitives and
+ * random fitness are used.
+ */
+export interface MOSESRun {
+  id: string;
+  task?: MOSESTaskSpec;
+  config?: Partial<MOSESConfig>;
+  generations: number; // Generation to stop at, counted from the start of the run
+  checkpoint?: MOSESCheckpoint; // State to continue from
+}
+
+export type MOSESStatistics = ReturnType<MOSESEngine["getStatistics"]>;
+
+export interface MOSESProgress {
+  runId: string;
+  generation: number;
+  generations: number;
+  statistics: MOSESStatistics;
+  best: Candidate | null;
+}
+
+export interface MOSESRunResult {
+  best: Candidate | null;
+  checkpoint: MOSESCheckpoint;
+  cancelled: boolean;
+}
+
+export type MOSESWorkerRequest =
+  | { type: "start"; run: MOSESRun }
+  | { type: "pause" }
+  | { type: "resume" }
+  | { type: "cancel" };
+
+export type MOSESWorkerResponse =
+  | ({ type: "progress" } & MOSESProgress)
+  | { type: "checkpoint"; runId: string; checkpoint: MOSESCheckpoint }
+  | { type: "paused"; runId: string; checkpoint: MOSESCheckpoint }
+  | { type: "resumed"; runId: string }
+  | ({ type: "done"; runId: string } & MOSESRunResult)
+  | { type: "error"; runId?: string; error: string };
+
+/**
+ * Generations between checkpoints
+ */
+export const CHECKPOINT_INTERVAL = 5;
+
+/**
+ * Worker-side message handler. Evolves one generation at a time and
+ * yields between generations so control messages are picked up.
+ */
+export class MOSESWorkerHandler {
+  private post: (response: MOSESWorkerResponse) => void;
+  private runId?: string;
+  private paused: boolean = false;
+  private cancelled: boolean = false;
+  private wake?: () => void;
+
+  constructor(post: (response: MOSESWorkerResponse) => void) {
+    this.post = post;
+  }
+
+  onmessage(event: MessageEvent<MOSESWorkerRequest>): void {
+    const request = event.data;
+
+    switch (request.type) {
+      case "start":
+        this.start(request.run);
+        break;
+      case "pause":
+        this.paused = true;
+        break;
+      case "resume":
+        this.paused = false;
+        this.wake?.();
+        break;
+      case "cancel":
+        this.cancelled = true;
+        this.wake?.();
+        break;
+    }
+  }
+
+  private async start(run: MOSESRun): Promise<void> {
+    if (this.runId) {
+      this.post({
+        type: "error",
+        runId: run.id,
+        error: `MOSES run ${this.runId} is already in progress`,
+      });
+      return;
+    }
+
+    this.runId = run.id;
+    this.paused = false;
+    this.cancelled = false;
+
+    try {
+      const engine = new MOSESEngine(run.config);
+      if (run.task) {
+        const { table, target, kind } = run.task;
+        engine.setTask(createFitnessTask(table, target, kind));
+      }
+      if (run.checkpoint) {
+        engine.restoreCheckpoint(run.checkpoint);
+      }
+
+      while (!this.cancelled && engine.getGeneration() < run.generations) {
+        await engine.evolve(1);
+
+        const generation = engine.getGeneration();
+        this.post({
+          type: "progress",
+          runId: run.id,
+          generation,
+          generations: run.generations,
+          statistics: engine.getStatistics(),
+          best: engine.getBest(),
+        });
+        if (generation % CHECKPOINT_INTERVAL === 0) {
+          this.post({
+            type: "checkpoint",
+            runId: run.id,
+            checkpoint: engine.getCheckpoint(),
+          });
+        }
+
+        await new Promise((resolve) => setTimeout(resolve, 0));
+        if (this.paused && !this.cancelled) {
+          this.post({
+            type: "paused",
+            runId: run.id,
+            checkpoint: engine.getCheckpoint(),
+          });
+          await new Promise<void>((resolve) => (this.wake = resolve));
+          this.wake = undefined;
+          if (!this.cancelled) {
+            this.post({ type: "resumed", runId: run.id });
+          }
+        }
+      }
+
+      this.post({
+        type: "done",
+        runId: run.id,
+        best: engine.getBest(),
+        checkpoint: engine.getCheckpoint(),
+        cancelled: this.cancelled,
+      });
+    } catch (error) {
+      this.post({
+        type: "error",
+        runId: run.id,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.runId = undefined;
+    }
+  }
+}
+
+export interface MOSESRunHandlers {
+  onProgress?: (progress: MOSESProgress) => void;
+  onCheckpoint?: (checkpoint: MOSESCheckpoint) => void;
+  onPause?: () => void;
+  onResume?: () => void;
+}
+
+/**
+ * Main-thread side of the worker. Runs one evolution at a time.
+ */
+export class MOSESWorkerClient {
+  private worker: Worker;
+  private current?: {
+    runId: string;
+    handlers: MOSESRunHandlers;
+    resolve: (result: MOSESRunResult) => void;
+    reject: (error: Error) => void;
+  };
+
+  constructor(worker: Worker) {
+    this.worker = worker;
+    this.worker.onmessage = (event: MessageEvent<MOSESWorkerResponse>) =>
+      this.handleResponse(event.data);
+    this.worker.onerror = (event) => {
+      log.error("MOSES worker error:", event.message);
+      this.finish()?.reject(new Error(event.message || "MOSES worker error"));
+    };
+  }
+
+  /**
+   * Start a run; resolves when it finishes or is cancelled
+   */
+  run(run: MOSESRun, handlers: MOSESRunHandlers = {}): Promise<MOSESRunResult> {
+    if (this.current) {
+      return Promise.reject(
+        new Error(`MOSES run ${this.current.runId} is already in progress`),
+      );
+    }
+
+    return new Promise((resolve, reject) => {
+      this.current = { runId: run.id, handlers, resolve, reject };
+      this.post({ type: "start", run });
+    });
+  }
+
+  /**
+   * Pause after the current generation
+   */
+  pause(): void {
+    this.post({ type: "pause" });
+  }
+
+  resume(): void {
+    this.post({ type: "resume" });
+  }
+
+  /**
+   * Stop after the current generation; the run resolves with what it found
+   */
+  cancel(): void {
+    this.post({ type: "cancel" });
+  }
+
+  isRunning(): boolean {
+    return this.current !== undefined;
+  }
+
+  terminate(): void {
+    this.worker.terminate();
+    this.finish()?.reject(new Error("MOSES worker terminated"));
+  }
+
+  private post(request: MOSESWorkerRequest): void {
+    this.worker.postMessage(request);
+  }
+
+  private handleResponse(response: MOSESWorkerResponse): void {
+    const current = this.current;
+    if (!current || (response.runId && response.runId !== current.runId)) {
+      return;
+    }
+
+    switch (response.type) {
+      case "progress":
+        current.handlers.onProgress?.(response);
+        break;
+      case "checkpoint":
+        current.handlers.onCheckpoint?.(response.checkpoint);
+        break;
+      case "paused":
+        current.handlers.onCheckpoint?.(response.checkpoint);
+        current.handlers.onPause?.();
+        break;
+      case "resumed":
+        current.handlers.onResume?.();
+        break;
+      case "done":
+        this.finish();
+        current.resolve(response);
+        break;
+      case "error":
+        this.finish();
+        current.reject(new Error(response.error));
+        break;
+    }
+  }
+
+  private finish() {
+    const current = this.current;
+    this.current = undefined;
+    return current;
+  }
+}
+
+/**
+ * IndexedDB storage for the checkpoint of the current run
+ */
+export class MOSESCheckpointStore {
+  private dbName: string = "OpenCogMOSES";
+  private dbVersion: number = 1;
+  private storeName: string = "runs";
+  private key: string = "current";
+  private db: Promise<IDBDatabase | null> | null = null;
+
+  /**
+   * Save a run, replacing any previous one
+   */
+  async save(run: MOSESRun): Promise<void> {
+    await this.request("readwrite", (store) => store.put(run, this.key));
+  }
+
+  /**
+   * Load the saved run, if any
+   */
+  async load(): Promise<MOSESRun | null> {
+    const run = await this.request<MOSESRun | undefined>("readonly", (store) =>
+      store.get(this.key),
+    );
+    return run ?? null;
+  }
+
+  async clear(): Promise<void> {
+    await this.request("readwrite", (store) => store.delete(this.key));
+  }
+
+  private async request<T>(
+    mode: IDBTransactionMode,
+    operation: (store: IDBObjectStore) => IDBRequest,
+  ): Promise<T | undefined> {
+    const db = await this.open();
+    if (!db) return undefined;
+
+    return new Promise((resolve, reject) => {
+      const transaction = db.transaction([this.storeName], mode);
+      const request = operation(transaction.objectStore(this.storeName));
+
+      request.onsuccess = () => resolve(request.result as T);
+      request.onerror = () => {
+        log.error("MOSES checkpoint storage failed:", request.error);
+        reject(request.error);
+      };
+    });
+  }
+
+  private open(): Promise<IDBDatabase | null> {
+    if (this.db) return this.db;
+
+    if (typeof indexedDB === "undefined") {
+      log.warn("IndexedDB not available - MOSES checkpoints will not persist");
+      this.db = Promise.resolve(null);
+      return this.db;
+    }
+
+    this.db = new Promise((resolve, reject) => {
+      const request = indexedDB.open(this.dbName, this.dbVersion);
+
+      request.onerror = () => {
+        log.error("Failed to open MOSES checkpoint database:", request.error);
+        this.db = null;
+        reject(request.error);
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onupgradeneeded = () => {
+        if (!request.result.objectStoreNames.contains(this.storeName)) {
+          request.result.createObjectStore(this.storeName);
+        }
+      };
+    });
+    return this.db;
+  }
+}
@@ -1,10 +1,28 @@
 /**
  * MOSES (Meta-Optimizing Semantic Evolutionary Search) Implementation
  * Evolves program trees to solve optimization problems
+ *
+ * The search keeps a metapopulation of exemplars. Each deme explores the
+ * neighbourhood of one exemplar through the knobs of its representation;
+ * demes that stop improving are closed and their best programs merged
+ * back into the metapopulation.
  */
 
 import { nanoid } from "nanoid";
 import log from "loglevel";
+import {
+  ARITHMETIC_PRIMITIVES,
+  PrimitiveSet,
+  ProgramInterpreter,
+  ValueType,
+  formatProgram,
+} from "./moses-program";
+import {
+  Representation,
+  programComplexity,
+  reduceProgram,
+} from "./moses-representation";
+import type { FitnessTask } from "./moses-fitness";
 
 /**
  * A program tree node
@@ -20,21 +38,29 @@ export interface ProgramNode {
  */
 export interface Candidate {
   id: string;
-  program: ProgramNode;
+  program: ProgramNode; // Reduced to normal form
   fitness: number;
+  score: number; // Fitness minus the Occam complexity penalty
+  complexity: number; // Node count
   generation: number;
+  demeId?: string;
 }
 
 /**
  * MOSES Evolution Parameters
  */
 export interface MOSESConfig {
-  populationSize: number;
+  populationSize: number; // Metapopulation size and evaluations per generation
   maxGenerations: number;
-  mutationRate: number;
-  crossoverRate: number;
-  elitismCount: number;
-  tournamentSize: number;
+  mutationRate: number; // Chance of turning each knob when sampling a deme
+  crossoverRate: number; // Chance of breeding an exemplar once all are explored
+  elitismCount: number; // Best deme instances that new samples are drawn from
+  tournamentSize: number; // Exemplar selection from the metapopulation
+  initialDepth: number; // Depth of randomly generated programs
+  maxProgramDepth: number; // Deeper programs are discarded
+  demeCount: number; // Demes searched side by side
+  demeStagnation: number; // Generations without improvement before a deme closes
+  complexityPenalty: number; // Score lost per program node
 }
 
 /**
@@ -47,22 +73,107 @@ const DEFAULT_CONFIG: MOSESConfig = {
   crossoverRate: 0.7,
   elitismCount: 5,
   tournamentSize: 3,
+  initialDepth: 4,
+  maxProgramDepth: 8,
+  demeCount: 4,
+  demeStagnation: 5,
+  complexityPenalty: 0.001,
 };
 
+/**
+ * Fitness cache entries kept before the cache is reset
+ */
+const MAX_CACHED_FITNESS = 10000;
+
+/**
+ * Primitives used when no task has been set: binary arithmetic over
+ * the numeric inputs x0, x1 and x2
+ */
+const DEFAULT_PROGRAM_PRIMITIVES = new PrimitiveSet(
+  ARITHMETIC_PRIMITIVES.filter((p) => p.argTypes.every((t) => t === "number")),
+  ["x0", "x1", "x2"].map((name) => ({ name, type: "number" as const })),
+);
+
 /**
  * Fitness evaluation function type
  */
 export type FitnessFunction = (program: ProgramNode) => Promise<number>;
 
+/**
+ * Search state of one deme
+ */
+export interface DemeStatistics {
+  id: string;
+  exemplar: string; // S-expression of the exemplar program
+  knobs: number;
+  age: number; // Generations searched
+  size: number;
+  bestFitness: number;
+  bestScore: number;
+  averageFitness: number;
+  stagnation: number; // Generations since the best score improved
+}
+
+interface DemeInstance {
+  settings: number[];
+  candidate: Candidate;
+}
+
+/**
+ * Saved state of one deme. Its representation is rebuilt from the
+ * exemplar on restore.
+ */
+export interface DemeCheckpoint {
+  id: string;
+  exemplar: Candidate;
+  instances: DemeInstance[];
+  age: number;
+  stagnation: number;
+  bestScore: number;
+}
+
+/**
+ * Serializable search state, for resuming a run in another engine. The
+ * fitness function is not included: restore into an engine that has the
+ * same task set.
+ */
+export interface MOSESCheckpoint {
+  config: MOSESConfig;
+  generation: number;
+  demeCounter: number;
+  population: Candidate[];
+  demes: DemeCheckpoint[];
+  explored: string[];
+  best: Candidate | null;
+}
+
+interface Deme {
+  id: string;
+  exemplar: Candidate;
+  representation: Representation;
+  instances: DemeInstance[]; // Best first
+  seen: Set<string>; // Reduced programs already sampled
+  age: number;
+  stagnation: number;
+  bestScore: number;
+}
+
 /**
  * MOSES Evolutionary Engine
  */
 export class MOSESEngine {
   private config: MOSESConfig;
-  private population: Candidate[] = [];
+  private population: Candidate[] = []; // Metapopulation, best first
+  private demes: Deme[] = [];
+  private demeCounter: number = 0;
+  private explored: Set<string> = new Set(); // Programs used as exemplars
+  private fitnessCache: Map<string, number> = new Map();
   private generation: number = 0;
   private bestCandidate: Candidate | null = null;
   private fitnessFunction?: FitnessFunction;
+  private primitives: PrimitiveSet = DEFAULT_PROGRAM_PRIMITIVES;
+  private interpreter = new ProgramInterpreter(DEFAULT_PROGRAM_PRIMITIVES);
+  private returnType: ValueType = "number";
 
   constructor(config: Partial<MOSESConfig> = {}) {
     this.config = { ...DEFAULT_CONFIG, ...config };
@@ -73,28 +184,45 @@ export class MOSESEngine {
    */
   setFitnessFunction(fn: FitnessFunction): void {
     this.fitnessFunction = fn;
+    this.fitnessCache.clear();
+  }
+
+  /**
+   * Set the primitives programs are built from and their result type
+   */
+  setPrimitives(primitives: PrimitiveSet, returnType: ValueType = "number") {
+    this.primitives = primitives;
+    this.interpreter = new ProgramInterpreter(primitives);
+    this.returnType = returnType;
+    this.fitnessCache.clear();
+  }
+
+  /**
+   * Learn a fitness task from scratch
+   */
+  setTask(task: FitnessTask): void {
+    this.reset();
+    this.setPrimitives(task.primitives, task.returnType);
+    this.setFitnessFunction(task.fitness);
   }
 
   /**
-   * Initialize population with random programs
+   * Initialize the metapopulation with random programs and open the
+   * first demes
    */
   async initializePopulation(
     generateInitial: () => ProgramNode,
   ): Promise<void> {
-    this.population = [];
-
+    const initial: Candidate[] = [];
     for (let i = 0; i < this.config.populationSize; i++) {
-      const program = generateInitial();
-      const fitness = await this.evaluateFitness(program);
-
-      this.population.push({
-        id: nanoid(),
-        program,
-        fitness,
-        generation: 0,
-      });
+      initial.push(await this.createCandidate(generateInitial()));
     }
 
+    this.population = this.selectMetapopulation(initial);
+    this.demes = [];
+    this.explored.clear();
+    await this.openDemes();
+
     this.updateBest();
     log.info(`Initialized population of ${this.population.length} candidates`);
   }
@@ -105,6 +233,16 @@ export class MOSESEngine {
   async evolve(generations?: number): Promise<Candidate> {
     const maxGen = generations || this.config.maxGenerations;
 
+    if (this.population.length === 0) {
+      await this.initializePopulation(() =>
+        ProgramBuilder.randomProgram(
+          this.config.initialDepth,
+          this.primitives,
+          this.returnType,
+        ),
+      );
+    }
+
     for (let gen = 0; gen < maxGen; gen++) {
       this.generation++;
       await this.evolveGeneration();
@@ -120,104 +258,233 @@ export class MOSESEngine {
   }
 
   /**
-   * Evolve one generation
+   * Evolve one generation: expand every deme, close the stagnated ones
+   * and open replacements
    */
   private async evolveGeneration(): Promise<void> {
-    const newPopulation: Candidate[] = [];
-
-    // Elitism - keep best candidates
-    const sorted = [...this.population].sort((a, b) => b.fitness - a.fitness);
-    newPopulation.push(...sorted.slice(0, this.config.elitismCount));
-
-    // Generate rest of population
-    while (newPopulation.length < this.config.populationSize) {
-      if (Math.random() < this.config.crossoverRate) {
-        // Crossover
-        const parent1 = this.selectParent();
-        const parent2 = this.selectParent();
-        const offspring = this.crossover(parent1.program, parent2.program);
-        const fitness = await this.evaluateFitness(offspring);
-
-        newPopulation.push({
-          id: nanoid(),
-          program: offspring,
-          fitness,
-          generation: this.generation,
-        });
+    const budget = Math.ceil(
+      this.config.populationSize / this.config.demeCount,
+    );
+    for (const deme of this.demes) {
+      await this.expandDeme(deme, budget);
+    }
+
+    const merged: Candidate[] = [];
+    const open: Deme[] = [];
+    for (const deme of this.demes) {
+      if (deme.stagnation >= this.config.demeStagnation) {
+        // Close the deme, keeping everything it found
+        merged.push(...deme.instances.map((instance) => instance.candidate));
+        log.debug(
+          `Closed deme ${deme.id} after ${deme.age} generations, best score ${deme.bestScore}`,
+        );
       } else {
-        // Mutation
-        const parent = this.selectParent();
-        const mutated = this.mutate(parent.program);
-        const fitness = await this.evaluateFitness(mutated);
-
-        newPopulation.push({
-          id: nanoid(),
-          program: mutated,
-          fitness,
-          generation: this.generation,
-        });
+        open.push(deme);
+        merged.push(deme.instances[0].candidate);
       }
     }
 
-    this.population = newPopulation;
+    this.population = this.selectMetapopulation([
+      ...this.population,
+      ...merged,
+    ]);
+    this.demes = open;
+    await this.openDemes();
     this.updateBest();
   }
 
   /**
-   * Select parent using tournament selection
+   * Sample new instances around the deme's elite by turning knobs, and
+   * keep the best `budget` of them
+   */
+  private async expandDeme(deme: Deme, budget: number): Promise<void> {
+    const elite = deme.instances.slice(
+      0,
+      Math.max(1, this.config.elitismCount),
+    );
+
+    for (let i = 0; i < budget; i++) {
+      const parent = elite[Math.floor(Math.random() * elite.length)];
+      const settings = deme.representation.twiddle(
+        parent.settings,
+        this.config.mutationRate,
+      );
+      const program = deme.representation.instantiate(settings);
+      if (this.depthOf(program) > this.config.maxProgramDepth) continue;
+
+      const candidate = await this.createCandidate(program, deme.id);
+      const key = formatProgram(candidate.program);
+      if (deme.seen.has(key)) continue;
+
+      deme.seen.add(key);
+      deme.instances.push({ settings, candidate });
+    }
+
+    deme.instances = deme.instances
+      .sort((a, b) => b.candidate.score - a.candidate.score)
+      .slice(0, budget);
+    deme.age++;
+
+    const best = deme.instances[0].candidate.score;
+    if (best > deme.bestScore) {
+      deme.bestScore = best;
+      deme.stagnation = 0;
+    } else {
+      deme.stagnation++;
+    }
+  }
+
+  /**
+   * Open demes until demeCount are running
+   */
+  private async openDemes(): Promise<void> {
+    while (this.demes.length < this.config.demeCount) {
+      const exemplar = await this.selectExemplar();
+      const id = `deme-${++this.demeCounter}`;
+      const representation = new Representation(
+        exemplar.program,
+        this.primitives,
+      );
+
+      this.explored.add(formatProgram(exemplar.program));
+      this.demes.push({
+        id,
+        exemplar,
+        representation,
+        instances: [
+          {
+            settings: representation.defaultSettings(),
+            candidate: { ...exemplar, demeId: id },
+          },
+        ],
+        seen: new Set([formatProgram(exemplar.program)]),
+        age: 0,
+        stagnation: 0,
+        bestScore: exemplar.score,
+      });
+    }
+  }
+
+  /**
+   * Pick the next exemplar: a tournament among unexplored metapopulation
+   * members, else a crossover of two members, else a random program
+   */
+  private async selectExemplar(): Promise<Candidate> {
+    const unexplored = this.population.filter(
+      (c) => !this.explored.has(formatProgram(c.program)),
+    );
+    if (unexplored.length > 0) {
+      return this.tournament(unexplored);
+    }
+
+    if (
+      this.population.length >= 2 &&
+      Math.random() < this.config.crossoverRate
+    ) {
+      const offspring = this.crossover(
+        this.tournament(this.population).program,
+        this.tournament(this.population).program,
+      );
+      const candidate = await this.createCandidate(offspring);
+      if (!this.explored.has(formatProgram(candidate.program))) {
+        return candidate;
+      }
+    }
+
+    return this.createCandidate(
+      ProgramBuilder.randomProgram(
+        this.config.initialDepth,
+        this.primitives,
+        this.returnType,
+      ),
+    );
+  }
+
+  /**
+   * Drop duplicate programs and keep the best populationSize by score
    */
-  private selectParent(): Candidate {
+  private selectMetapopulation(candidates: Candidate[]): Candidate[] {
+    const unique: Map<string, Candidate> = new Map();
+    for (const candidate of candidates) {
+      const key = formatProgram(candidate.program);
+      const existing = unique.get(key);
+      if (!existing || candidate.score > existing.score) {
+        unique.set(key, candidate);
+      }
+    }
+
+    return Array.from(unique.values())
+      .sort((a, b) => b.score - a.score)
+      .slice(0, this.config.populationSize);
+  }
+
+  /**
+   * Select a candidate using tournament selection on score
+   */
+  private tournament(candidates: Candidate[]): Candidate {
     const tournament: Candidate[] = [];
 
     for (let i = 0; i < this.config.tournamentSize; i++) {
-      const randomIndex = Math.floor(Math.random() * this.population.length);
-      tournament.push(this.population[randomIndex]);
+      const randomIndex = Math.floor(Math.random() * candidates.length);
+      tournament.push(candidates[randomIndex]);
     }
 
     return tournament.reduce((best, current) =>
-      current.fitness > best.fitness ? current : best,
+      current.score > best.score ? current : best,
     );
   }
 
   /**
-   * Crossover two program trees
+   * Reduce, evaluate and score a program
    */
-  private crossover(parent1: ProgramNode, parent2: ProgramNode): ProgramNode {
-    // Simple subtree crossover
-    const p1Copy = this.copyProgram(parent1);
-    const p2Copy = this.copyProgram(parent2);
-
-    // Get random subtrees
-    const subtree1 = this.getRandomSubtree(p1Copy);
-    const subtree2 = this.getRandomSubtree(p2Copy);
+  private async createCandidate(
+    program: ProgramNode,
+    demeId?: string,
+  ): Promise<Candidate> {
+    const reduced = reduceProgram(program, this.primitives);
+    const key = formatProgram(reduced);
+
+    let fitness = this.fitnessCache.get(key);
+    if (fitness === undefined) {
+      fitness = await this.evaluateFitness(reduced);
+      if (this.fitnessCache.size >= MAX_CACHED_FITNESS) {
+        this.fitnessCache.clear();
+      }
+      this.fitnessCache.set(key, fitness);
+    }
 
-    // Swap them (simplified - just return one of the subtrees)
-    return Math.random() < 0.5 ? subtree1 : subtree2;
+    const complexity = programComplexity(reduced);
+    return {
+      id: nanoid(),
+      program: reduced,
+      fitness,
+      score: fitness - this.config.complexityPenalty * complexity,
+      complexity,
+      generation: this.generation,
+      demeId,
+    };
   }
 
   /**
-   * Mutate a program tree
+   * Crossover two program trees: replace a random subtree of the first
+   * parent with a subtree of the same type from the second
    */
-  private mutate(program: ProgramNode): ProgramNode {
-    const copy = this.copyProgram(program);
+  private crossover(parent1: ProgramNode, parent2: ProgramNode): ProgramNode {
+    const offspring = this.copyProgram(parent1);
+    const target = this.getRandomSubtree(offspring);
+    const type = this.typeOf(target);
 
-    if (Math.random() < this.config.mutationRate) {
-      // Mutate node value
-      if (copy.type === "terminal" && typeof copy.value === "number") {
-        copy.value += (Math.random() - 0.5) * 2;
-      } else if (copy.type === "function") {
-        // Randomly change function
-        const functions = ["+", "-", "*", "/", "if", "and", "or"];
-        copy.value = functions[Math.floor(Math.random() * functions.length)];
-      }
+    const donors = this.collectNodes(parent2).filter(
+      (node) => this.typeOf(node) === type,
+    );
+    if (donors.length === 0) return offspring;
 
-      // Recursively mutate children
-      if (copy.children) {
-        copy.children = copy.children.map((child) => this.mutate(child));
-      }
-    }
+    const donor = donors[Math.floor(Math.random() * donors.length)];
+    Object.assign(target, this.copyProgram(donor));
 
-    return copy;
+    return this.depthOf(offspring) > this.config.maxProgramDepth
+      ? this.copyProgram(parent1)
+      : offspring;
   }
 
   /**
@@ -243,6 +510,26 @@ export class MOSESEngine {
     return nodes;
   }
 
+  /**
+   * Result type of a subtree, or undefined for programs outside the
+   * primitive set
+   */
+  private typeOf(program: ProgramNode): ValueType | undefined {
+    try {
+      return this.interpreter.typeOf(program);
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * Depth of a program tree
+   */
+  private depthOf(program: ProgramNode): number {
+    if (!program.children || program.children.length === 0) return 0;
+    return 1 + Math.max(...program.children.map((c) => this.depthOf(c)));
+  }
+
   /**
    * Deep copy a program tree
    */
@@ -274,17 +561,18 @@ export class MOSESEngine {
    * Update best candidate
    */
   private updateBest(): void {
-    const best = this.population.reduce((best, current) =>
-      current.fitness > best.fitness ? current : best,
-    );
+    const best = this.population[0];
 
-    if (!this.bestCandidate || best.fitness > this.bestCandidate.fitness) {
+    if (
+      best &&
+      (!this.bestCandidate || best.score > this.bestCandidate.score)
+    ) {
       this.bestCandidate = best;
     }
   }
 
   /**
-   * Get current population
+   * Get current metapopulation
    */
   getPopulation(): Candidate[] {
     return [...this.population];
@@ -311,31 +599,107 @@ export class MOSESEngine {
     generation: number;
     populationSize: number;
     bestFitness: number;
+    bestComplexity: number;
     averageFitness: number;
     diversityScore: number;
+    demes: DemeStatistics[];
   } {
+    const size = this.population.length;
     const avgFitness =
-      this.population.reduce((sum, c) => sum + c.fitness, 0) /
-      this.population.length;
+      size > 0
+        ? this.population.reduce((sum, c) => sum + c.fitness, 0) / size
+        : 0;
 
-    // Simple diversity measure - count unique fitness values
-    const uniqueFitness = new Set(this.population.map((c) => c.fitness)).size;
-    const diversityScore = uniqueFitness / this.population.length;
+    // Diversity - share of distinct programs after reduction
+    const uniquePrograms = new Set(
+      this.population.map((c) => formatProgram(c.program)),
+    ).size;
+    const diversityScore = size > 0 ? uniquePrograms / size : 0;
 
     return {
       generation: this.generation,
-      populationSize: this.population.length,
+      populationSize: size,
       bestFitness: this.bestCandidate?.fitness || 0,
+      bestComplexity: this.bestCandidate?.complexity || 0,
       averageFitness: avgFitness,
       diversityScore,
+      demes: this.demes.map((deme) => {
+        const candidates = deme.instances.map((instance) => instance.candidate);
+        return {
+          id: deme.id,
+          exemplar: formatProgram(deme.exemplar.program),
+          knobs: deme.representation.knobs.length,
+          age: deme.age,
+          size: candidates.length,
+          bestFitness: Math.max(...candidates.map((c) => c.fitness)),
+          bestScore: deme.bestScore,
+          averageFitness:
+            candidates.reduce((sum, c) => sum + c.fitness, 0) /
+            candidates.length,
+          stagnation: deme.stagnation,
+        };
+      }),
+    };
+  }
+
+  /**
+   * Capture the search state
+   */
+  getCheckpoint(): MOSESCheckpoint {
+    return {
+      config: { ...this.config },
+      generation: this.generation,
+      demeCounter: this.demeCounter,
+      population: [...this.population],
+      demes: this.demes.map((deme) => ({
+        id: deme.id,
+        exemplar: deme.exemplar,
+        instances: [...deme.instances],
+        age: deme.age,
+        stagnation: deme.stagnation,
+        bestScore: deme.bestScore,
+      })),
+      explored: Array.from(this.explored),
+      best: this.bestCandidate,
     };
   }
 
+  /**
+   * Continue from a checkpoint. Keeps the current primitives and fitness
+   * function; programs already sampled by a deme are only remembered as
+   * far as its surviving instances.
+   */
+  restoreCheckpoint(checkpoint: MOSESCheckpoint): void {
+    this.config = { ...checkpoint.config };
+    this.generation = checkpoint.generation;
+    this.demeCounter = checkpoint.demeCounter;
+    this.population = [...checkpoint.population];
+    this.explored = new Set(checkpoint.explored);
+    this.bestCandidate = checkpoint.best;
+    this.demes = checkpoint.demes.map((deme) => ({
+      ...deme,
+      instances: [...deme.instances],
+      representation: new Representation(
+        deme.exemplar.program,
+        this.primitives,
+      ),
+      seen: new Set(
+        [deme.exemplar, ...deme.instances.map((i) => i.candidate)].map(
+          (candidate) => formatProgram(candidate.program),
+        ),
+      ),
+    }));
+  }
+
   /**
    * Reset evolution
    */
   reset(): void {
     this.population = [];
+    this.demes = [];
+    this.demeCounter = 0;
+    this.explored.clear();
+    this.fitnessCache.clear();
     this.generation = 0;
     this.bestCandidate = null;
   }
@@ -377,30 +741,47 @@ export class ProgramBuilder {
   }
 
   /**
-   * Generate random program of given depth
+   * Create a boolean constant
    */
-  static randomProgram(maxDepth: number): ProgramNode {
-    if (maxDepth === 0 || Math.random() < 0.3) {
+  static boolean(value: boolean): ProgramNode {
+    return {
+      type: "terminal",
+      value: String(value),
+    };
+  }
+
+  /**
+   * Generate a random well-typed program of at most the given depth,
+   * calling each primitive with as many arguments as it takes
+   */
+  static randomProgram(
+    maxDepth: number,
+    primitives: PrimitiveSet = DEFAULT_PROGRAM_PRIMITIVES,
+    returnType: ValueType = "number",
+  ): ProgramNode {
+    const functions = primitives.getPrimitives(returnType);
+
+    if (maxDepth === 0 || functions.length === 0 || Math.random() < 0.3) {
       // Terminal
-      return Math.random() < 0.5
-        ? this.constant(Math.random() * 10 - 5)
-        : this.variable(`x${Math.floor(Math.random() * 3)}`);
+      const variables = primitives.getVariables(returnType);
+      if (variables.length > 0 && Math.random() < 0.5) {
+        const variable =
+          variables[Math.floor(Math.random() * variables.length)];
+        return this.variable(variable.name);
+      }
+      return returnType === "boolean"
+        ? this.boolean(Math.random() < 0.5)
+        : this.constant(Math.random() * 10 - 5);
     } else {
       // Function
-      const functions = ["+", "-", "*", "/"];
-      const func = functions[Math.floor(Math.random() * functions.length)];
-      const arity = 2; // Binary operators
-
-      const children: ProgramNode[] = [];
-      for (let i = 0; i < arity; i++) {
-        children.push(this.randomProgram(maxDepth - 1));
-      }
-
-      return {
-        type: "function",
-        value: func,
-        children,
-      };
+      const primitive = functions[Math.floor(Math.random() * functions.length)];
+
+      return this.func(
+        primitive.name,
+        ...primitive.argTypes.map((type) =>
+          this.randomProgram(maxDepth - 1, primitives, type),
+        ),
+      );
     }
   }
 }
@@ -0,0 +1,166 @@
+import { describe, expect, it } from "@jest/globals";
+import { AtomNode } from "../types";
+import { countTV, simpleTV } from "../truth-value";
+import {
+  PLNBackwardChainer,
+  PLNForwardChainer,
+  deductionRule,
+  negationRule,
+  revisionRule,
+} from "./pln";
+
+const concept = (name: string, strength?: number): AtomNode => ({
+  type: "ConceptNode",
+  name,
+  ...(strength !== undefined && { truthValue: simpleTV(strength, 0.9) }),
+});
+
+const inheritance = (
+  a: string,
+  b: string,
+  truthValue = simpleTV(0.9, 0.9),
+): AtomNode => ({
+  type: "InheritanceLink",
+  children: [concept(a), concept(b)],
+  truthValue,
+});
+
+function chainer(atoms: AtomNode[]): PLNForwardChainer {
+  const forward = new PLNForwardChainer();
+  atoms.forEach((atom, index) => forward.addAtom(`atom_${index}`, atom));
+  return forward;
+}
+
+describe("PLN rules", () => {
+  it("multiplies strengths in deduction", () => {
+    const tv = deductionRule(simpleTV(0.8, 0.9), simpleTV(0.5, 0.9));
+    expect(tv.strength).toBeCloseTo(0.4);
+    expect(tv.confidence).toBeCloseTo(0.9 * 0.9 * 0.8 * 0.5);
+  });
+
+  it("weights revision by evidence and adds the counts", () => {
+    const tv = revisionRule(countTV(1, 10), countTV(0, 30));
+    expect(tv).toMatchObject({ kind: "count", count: 40 });
+    expect(tv.strength).toBeCloseTo(0.25);
+  });
+
+  it("keeps the evidence when negating", () => {
+    expect(negationRule(countTV(0.2, 10))).toEqual(countTV(0.8, 10));
+  });
+});
+
+describe("PLNForwardChainer", () => {
+  it("derives a deduction from a chain of inheritance links", async () => {
+    const forward = chainer([
+      inheritance("cat", "mammal"),
+      inheritance("mammal", "animal"),
+    ]);
+    const { derived, truncated } = await forward.infer();
+    expect(truncated).toBe(false);
+
+    const catAnimal = derived.find(
+      (atom) =>
+        atom.type === "InheritanceLink" &&
+        atom.children?.[0].name === "cat" &&
+        atom.children?.[1].name === "animal",
+    );
+    expect(catAnimal?.truthValue?.strength).toBeCloseTo(0.81);
+    expect(forward.getTrace(catAnimal!)?.steps[0].rule).toBe(
+      "InheritanceLink-deduction",
+    );
+  });
+
+  it("does not introduce negations, conjunctions or disjunctions", async () => {
+    const forward = chainer([
+      concept("cat", 0.1),
+      concept("dog", 0.2),
+      inheritance("cat", "dog"),
+    ]);
+    const { derived } = await forward.infer();
+
+    expect(
+      derived.filter((atom) =>
+        ["NotLink", "AndLink", "OrLink"].includes(atom.type),
+      ),
+    ).toEqual([]);
+  });
+
+  it("explains restored traces after a restart", async () => {
+    const forward = chainer([
+      inheritance("cat", "mammal"),
+      inheritance("mammal", "animal"),
+    ]);
+    await forward.infer();
+
+    const restarted = new PLNForwardChainer();
+    restarted.restoreTraces(forward.getTraces());
+    const tree = restarted.getProofTree(inheritance("cat", "animal"));
+    expect(tree.steps[0].rule).toBe("InheritanceLink-deduction");
+    expect(tree.steps[0].premises).toHaveLength(2);
+  });
+
+  it("reports the limit that cut a run short", async () => {
+    const chain = ["a", "b", "c", "d", "e", "f"];
+    const forward = new PLNForwardChainer({ maxAtoms: 7 });
+    chain
+      .slice(1)
+      .forEach((name, index) =>
+        forward.addAtom(`atom_${index}`, inheritance(chain[index], name)),
+      );
+
+    const result = await forward.infer();
+    expect(result).toMatchObject({ truncated: true, limit: "atoms" });
+    expect(forward.getKnowledgeBase()).toHaveLength(7);
+  });
+});
+
+describe("PLNBackwardChainer", () => {
+  const kb = [
+    inheritance("cat", "mammal"),
+    inheritance("mammal", "animal"),
+    inheritance("dog", "mammal"),
+  ];
+
+  it("proves a ground target through deduction", () => {
+    const result = new PLNBackwardChainer().query(
+      inheritance("cat", "animal"),
+      kb,
+    );
+    expect(result.truthValue?.strength).toBeCloseTo(0.81);
+  });
+
+  it("binds the variables of a target", () => {
+    const result = new PLNBackwardChainer().query(
+      {
+        type: "InheritanceLink",
+        children: [{ type: "VariableNode", name: "$X" }, concept("animal")],
+      },
+      kb,
+    );
+    const names = result.solutions.map((solution) => solution.bindings.$X.name);
+    expect(names).toEqual(expect.arrayContaining(["cat", "dog", "mammal"]));
+  });
+
+  it("does not search a goal again under other variable names", () => {
+    const result = new PLNBackwardChainer().query(
+      {
+        type: "InheritanceLink",
+        children: [
+          { type: "VariableNode", name: "$X" },
+          { type: "VariableNode", name: "$Y" },
+        ],
+      },
+      kb,
+    );
+    expect(result.solutions).toHaveLength(9);
+    expect(result.steps).toBeLessThan(100);
+  });
+
+  it("introduces a negation when the target asks for one", () => {
+    const result = new PLNBackwardChainer().query(
+      { type: "NotLink", children: [concept("cat")] },
+      [concept("cat", 0.3)],
+    );
+    expect(result.truthValue?.strength).toBeCloseTo(0.7);
+  });
+});
@@ -4,21 +4,70 @@
  */
 
 import { AtomNode, TruthValue, AtomType } from "../types";
+import { atomTypes } from "../atom-types";
+import { AtomSpace, atomHandle } from "../atomspace";
+import {
+  Bindings,
+  PatternMatcher,
+  VariableDeclaration,
+  substitute,
+} from "../knowledge/pattern-matcher";
+import {
+  confidenceToCount,
+  countToConfidence,
+  countTV,
+  simpleTV,
+  truthValueConfidence,
+  truthValueCount,
+  truthValuesEqual,
+} from "../truth-value";
 import log from "loglevel";
 
 /**
  * Truth value revision - combines evidence from multiple sources
+ * Strengths are averaged weighted by evidence count and the counts add up.
+ * Count truth values stay count truth values; other kinds revise to simple.
  */
 export function revisionRule(tv1: TruthValue, tv2: TruthValue): TruthValue {
-  // PLN revision formula
-  const k = 1; // Evidence weight parameter
-  const w1 = tv1.confidence / (1 - tv1.confidence);
-  const w2 = tv2.confidence / (1 - tv2.confidence);
+  const n1 = truthValueCount(tv1);
+  const n2 = truthValueCount(tv2);
 
-  const strength = (w1 * tv1.strength + w2 * tv2.strength) / (w1 + w2);
-  const confidence = (w1 + w2) / (w1 + w2 + k);
+  // Fully confident evidence (infinite count) dominates finite evidence
+  let strength: number;
+  if (!isFinite(n1) || !isFinite(n2)) {
+    strength =
+      isFinite(n1) === isFinite(n2)
+        ? (tv1.strength + tv2.strength) / 2
+        : isFinite(n1)
+          ? tv2.strength
+          : tv1.strength;
+  } else {
+    strength =
+      n1 + n2 > 0
+        ? (n1 * tv1.strength + n2 * tv2.strength) / (n1 + n2)
+        : (tv1.strength + tv2.strength) / 2;
+  }
+
+  const count = n1 + n2;
+  if (tv1.kind === "count" || tv2.kind === "count") {
+    return countTV(strength, count);
+  }
 
-  return { strength, confidence };
+  return simpleTV(strength, isFinite(count) ? countToConfidence(count) : 1);
+}
+
+/**
+ * Result of a rule, in the kind of its premises: a count truth value when
+ * any premise counts its evidence, a simple one otherwise
+ */
+function ruleResult(
+  strength: number,
+  confidence: number,
+  premises: TruthValue[],
+): TruthValue {
+  return premises.some((tv) => tv.kind === "count")
+    ? countTV(strength, confidenceToCount(confidence), confidence)
+    : simpleTV(strength, confidence);
 }
 
 /**
@@ -28,9 +77,12 @@ export function deductionRule(tvAB: TruthValue, tvBC: TruthValue): TruthValue {
   // PLN deduction formula
   const strength = tvAB.strength * tvBC.strength;
   const confidence =
-    tvAB.confidence * tvBC.confidence * tvAB.strength * tvBC.strength;
+    truthValueConfidence(tvAB) *
+    truthValueConfidence(tvBC) *
+    tvAB.strength *
+    tvBC.strength;
 
-  return { strength, confidence };
+  return ruleResult(strength, confidence, [tvAB, tvBC]);
 }
 
 /**
@@ -41,11 +93,11 @@ export function inductionRule(
   nA: number,
   nB: number,
 ): TruthValue {
-  // PLN induction formula with size dependency
-  const strength = tvAB.strength * (nA / nB);
-  const confidence = tvAB.confidence * Math.sqrt(nA / (nA + nB));
+  // PLN induction formula with size dependency, capped at certainty
+  const strength = Math.min(1, tvAB.strength * (nA / nB));
+  const confidence = truthValueConfidence(tvAB) * Math.sqrt(nA / (nA + nB));
 
-  return { strength, confidence };
+  return ruleResult(strength, confidence, [tvAB]);
 }
 
 /**
@@ -54,9 +106,10 @@ export function inductionRule(
 export function abductionRule(tvAB: TruthValue, tvCB: TruthValue): TruthValue {
   // Simplified abduction
   const strength = tvAB.strength * tvCB.strength;
-  const confidence = tvAB.confidence * tvCB.confidence * 0.8; // Reduce confidence
+  const confidence =
+    truthValueConfidence(tvAB) * truthValueConfidence(tvCB) * 0.8; // Reduce confidence
 
-  return { strength, confidence };
+  return ruleResult(strength, confidence, [tvAB, tvCB]);
 }
 
 /**
@@ -64,9 +117,9 @@ export function abductionRule(tvAB: TruthValue, tvCB: TruthValue): TruthValue {
  */
 export function conjunctionRule(tv1: TruthValue, tv2: TruthValue): TruthValue {
   const strength = tv1.strength * tv2.strength;
-  const confidence = tv1.confidence * tv2.confidence;
+  const confidence = truthValueConfidence(tv1) * truthValueConfidence(tv2);
 
-  return { strength, confidence };
+  return ruleResult(strength, confidence, [tv1, tv2]);
 }
 
 /**
@@ -74,128 +127,596 @@ export function conjunctionRule(tv1: TruthValue, tv2: TruthValue): TruthValue {
  */
 export function disjunctionRule(tv1: TruthValue, tv2: TruthValue): TruthValue {
   const strength = tv1.strength + tv2.strength - tv1.strength * tv2.strength;
-  const confidence = tv1.confidence * tv2.confidence;
+  const confidence = truthValueConfidence(tv1) * truthValueConfidence(tv2);
 
-  return { strength, confidence };
+  return ruleResult(strength, confidence, [tv1, tv2]);
 }
 
 /**
  * Negation rule: Negate truth value
  */
 export function negationRule(tv: TruthValue): TruthValue {
+  if (tv.kind === "indefinite") {
+    return {
+      ...tv,
+      lower: 1 - tv.upper,
+      upper: 1 - tv.lower,
+      strength: 1 - tv.strength,
+    };
+  }
+
+  // Negation keeps the amount of evidence, so the kind is preserved
   return {
+    ...tv,
     strength: 1 - tv.strength,
-    confidence: tv.confidence,
   };
 }
 
 /**
- * Simple forward chainer for PLN inference
+ * Modus ponens: If A->B and A, infer B
+ */
+export function modusPonensRule(tvAB: TruthValue, tvA: TruthValue): TruthValue {
+  const strength = tvAB.strength * tvA.strength;
+  const confidence = Math.min(
+    truthValueConfidence(tvAB),
+    truthValueConfidence(tvA),
+  );
+
+  return ruleResult(strength, confidence, [tvAB, tvA]);
+}
+
+/**
+ * Inference rule: premise patterns over VariableNodes, matched together
+ * against the knowledge base, and a conclusion template with a TV formula
+ */
+export interface PLNRule {
+  name: string;
+  description: string;
+  premises: AtomNode[];
+  conclusion: AtomNode;
+  variables?: VariableDeclaration[]; // Typed variables; others are untyped
+  distinct?: string[]; // Variables that must ground to different atoms
+  // Truth values of the grounded premises, in premise order; null to skip
+  formula: (premises: TruthValue[], bindings: Bindings) => TruthValue | null;
+  // Only applied toward an explicit target by the backward chainer; the
+  // forward chainer skips it, since it would fire on every term or pair
+  targeted?: boolean;
+}
+
+const variable = (name: string): AtomNode => ({
+  type: AtomType.VARIABLE_NODE,
+  name,
+});
+
+const link = (type: AtomType, ...children: AtomNode[]): AtomNode => ({
+  type,
+  children,
+});
+
+const [A, B, C] = ["$A", "$B", "$C"].map(variable);
+
+// Term probabilities, read from node truth values, for rules that need them
+const termProbability = (atom: AtomNode | undefined) =>
+  atom?.truthValue?.strength;
+
+const TERM_TYPES = [AtomType.CONCEPT_NODE, AtomType.PREDICATE_NODE];
+
+/**
+ * Built-in PLN rules
+ */
+const BUILTIN_RULES: PLNRule[] = [
+  ...[
+    AtomType.INHERITANCE_LINK,
+    AtomType.IMPLICATION_LINK,
+    AtomType.SIMILARITY_LINK,
+  ].map(
+    (type): PLNRule => ({
+      name: `${type}-deduction`,
+      description: `(${type} A B), (${type} B C) => (${type} A C)`,
+      premises: [link(type, A, B), link(type, B, C)],
+      conclusion: link(type, A, C),
+      distinct: ["$A", "$C"],
+      formula: ([ab, bc]) => deductionRule(ab, bc),
+    }),
+  ),
+  {
+    name: "induction",
+    description: "(Inheritance A B) => (Inheritance B A), using P(A)/P(B)",
+    premises: [link(AtomType.INHERITANCE_LINK, A, B)],
+    conclusion: link(AtomType.INHERITANCE_LINK, B, A),
+    distinct: ["$A", "$B"],
+    formula: ([ab], bindings) => {
+      const nA = termProbability(bindings.$A);
+      const nB = termProbability(bindings.$B);
+      return nA !== undefined && nB ? inductionRule(ab, nA, nB) : null;
+    },
+  },
+  {
+    name: "abduction",
+    description: "(Inheritance A B), (Inheritance C B) => (Inheritance A C)",
+    premises: [
+      link(AtomType.INHERITANCE_LINK, A, B),
+      link(AtomType.INHERITANCE_LINK, C, B),
+    ],
+    conclusion: link(AtomType.INHERITANCE_LINK, A, C),
+    distinct: ["$A", "$C"],
+    formula: ([ab, cb]) => abductionRule(ab, cb),
+  },
+  {
+    name: "modus-ponens",
+    description: "(Implication A B), A => B",
+    premises: [link(AtomType.IMPLICATION_LINK, A, B), A],
+    conclusion: B,
+    formula: ([ab, a]) => modusPonensRule(ab, a),
+  },
+  {
+    name: "and-introduction",
+    description: "A, B => (And A B) for concepts and predicates",
+    premises: [A, B],
+    conclusion: link(AtomType.AND_LINK, A, B),
+    variables: [
+      { name: "$A", types: TERM_TYPES },
+      { name: "$B", types: TERM_TYPES },
+    ],
+    distinct: ["$A", "$B"],
+    formula: ([a, b]) => conjunctionRule(a, b),
+    targeted: true,
+  },
+  {
+    name: "or-introduction",
+    description: "A, B => (Or A B) for concepts and predicates",
+    premises: [A, B],
+    conclusion: link(AtomType.OR_LINK, A, B),
+    variables: [
+      { name: "$A", types: TERM_TYPES },
+      { name: "$B", types: TERM_TYPES },
+    ],
+    distinct: ["$A", "$B"],
+    formula: ([a, b]) => disjunctionRule(a, b),
+    targeted: true,
+  },
+  {
+    name: "not-introduction",
+    description: "A => (Not A) for concepts and predicates",
+    premises: [A],
+    conclusion: link(AtomType.NOT_LINK, A),
+    variables: [{ name: "$A", types: TERM_TYPES }],
+    formula: ([a]) => negationRule(a),
+    targeted: true,
+  },
+];
+
+/**
+ * PLN Rule Registry
+ * Rules are applied in registration order.
+ */
+export class PLNRuleRegistry {
+  private rules: Map<string, PLNRule> = new Map();
+
+  constructor(rules: PLNRule[] = BUILTIN_RULES) {
+    rules.forEach((rule) => this.register(rule));
+  }
+
+  /**
+   * Register a rule; names must be unique
+   */
+  register(rule: PLNRule): void {
+    if (this.rules.has(rule.name)) {
+      throw new Error(`PLN rule already registered: ${rule.name}`);
+    }
+    this.rules.set(rule.name, rule);
+  }
+
+  /**
+   * Remove a rule
+   */
+  unregister(name: string): boolean {
+    return this.rules.delete(name);
+  }
+
+  has(name: string): boolean {
+    return this.rules.has(name);
+  }
+
+  get(name: string): PLNRule | undefined {
+    return this.rules.get(name);
+  }
+
+  getRules(): PLNRule[] {
+    return Array.from(this.rules.values());
+  }
+}
+
+/**
+ * One application of a rule
+ */
+interface Derivation {
+  rule: string;
+  conclusion: AtomNode;
+  premises: AtomNode[];
+  truthValue: TruthValue;
+}
+
+/**
+ * A rule application recorded for a derived atom
+ */
+export interface InferenceStep {
+  rule: string;
+  premises: AtomNode[];
+  truthValue: TruthValue; // Conclusion TV from this application alone
+  iteration: number;
+}
+
+/**
+ * How a derived atom came to be believed
+ */
+export interface InferenceTrace {
+  atom: AtomNode; // Conclusion with its final, revised TV
+  steps: InferenceStep[]; // Rule applications merged by revision
+  priorTruthValue?: TruthValue; // TV held before derivation, if known
+}
+
+/**
+ * Proof of an atom: the rule applications that derived it, each over the
+ * proofs of its premises. Facts have no steps.
+ */
+export interface ProofTree {
+  atom: AtomNode;
+  steps: {
+    rule: string;
+    truthValue: TruthValue;
+    iteration: number;
+    premises: ProofTree[];
+  }[];
+}
+
+/**
+ * Latest result of one derivation and the iteration it first appeared in
+ */
+interface Evidence {
+  derivation: Derivation;
+  iteration: number;
+}
+
+/**
+ * Forward chaining limits
+ */
+export interface ForwardChainOptions {
+  maxIterations?: number;
+  minConfidence?: number; // Conclusions below this confidence are dropped
+  tolerance?: number; // TV changes at most this large count as unchanged
+  maxAtoms?: number; // No new atoms are derived once the KB is this large
+  timeBudget?: number; // ms per infer() call, checked between rules
+}
+
+/**
+ * Outcome of a forward chaining run
+ */
+export interface ForwardChainResult {
+  derived: AtomNode[]; // Atoms derived or revised, with their final TVs
+  iterations: number;
+  truncated: boolean; // A limit stopped the run before a fixpoint
+  limit?: "time" | "atoms" | "iterations"; // The limit that was hit
+}
+
+/**
+ * Forward chainer for PLN inference
  */
 export class PLNForwardChainer {
   private knowledgeBase: Map<string, AtomNode> = new Map();
-  private maxIterations: number = 100;
+  private space: AtomSpace = new AtomSpace(); // Indexed copy of the KB
+  private matcher: PatternMatcher = new PatternMatcher(this.space);
+  private maxIterations: number;
+  private minConfidence: number;
+  private tolerance: number;
+  private maxAtoms: number;
+  private timeBudget: number;
+  private rules: PLNRuleRegistry;
+  private traces: Map<string, InferenceTrace> = new Map();
+  private index: Map<string, string> = new Map(); // Canonical key -> KB id
+  private asserted: Map<string, TruthValue | undefined> = new Map();
+  // Conclusion key -> derivation key -> latest result of that derivation
+  private evidence: Map<string, Map<string, Evidence>> = new Map();
+  // Derived atom key -> keys of every atom its derivations rest on
+  private support: Map<string, Set<string>> = new Map();
 
-  constructor(maxIterations: number = 100) {
-    this.maxIterations = maxIterations;
+  constructor(
+    options: ForwardChainOptions = {},
+    rules: PLNRuleRegistry = new PLNRuleRegistry(),
+  ) {
+    this.maxIterations = options.maxIterations ?? 100;
+    this.minConfidence = options.minConfidence ?? 0.05;
+    this.tolerance = options.tolerance ?? 0.001;
+    this.maxAtoms = options.maxAtoms ?? 5000;
+    this.timeBudget = options.timeBudget ?? 5000;
+    this.rules = rules;
+  }
+
+  /**
+   * Rules applied by this chainer
+   */
+  getRuleRegistry(): PLNRuleRegistry {
+    return this.rules;
   }
 
   /**
    * Add atom to knowledge base
+   * Its truth value counts as asserted evidence when the atom is also
+   * derived.
    */
   addAtom(id: string, atom: AtomNode): void {
+    const key = atomHandle(atom);
+    const previous = this.index.get(key);
+    if (previous !== undefined && previous !== id) {
+      this.removeFromSpace(this.knowledgeBase.get(previous));
+      this.knowledgeBase.delete(previous);
+    }
+
+    // The id may have held a different atom before
+    const replaced = this.knowledgeBase.get(id);
+    if (replaced && atomHandle(replaced) !== key) {
+      this.index.delete(atomHandle(replaced));
+      this.asserted.delete(atomHandle(replaced));
+      this.removeFromSpace(replaced);
+    }
+
     this.knowledgeBase.set(id, atom);
+    this.space.add(atom);
+    this.index.set(key, id);
+    this.asserted.set(key, atom.truthValue);
   }
 
   /**
-   * Apply inference rules to derive new knowledge
+   * Run the rules until a fixpoint: no new conclusions and no truth value
+   * moving by more than the tolerance. Derived atoms are merged into the
+   * knowledge base; the result lists each atom derived or revised, once,
+   * with its final truth value, and tells whether a limit cut the run short.
    */
-  async infer(targetQuery?: string): Promise<AtomNode[]> {
-    const derivedAtoms: AtomNode[] = [];
+  async infer(): Promise<ForwardChainResult> {
+    const changed = new Set<string>();
+    const deadline = Date.now() + this.timeBudget;
+    let delta: Set<string> | null = null; // Everything is new at first
     let iterations = 0;
+    let limit: ForwardChainResult["limit"];
 
-    while (iterations < this.maxIterations) {
-      const newAtoms = this.applyInferenceRules();
-
-      if (newAtoms.length === 0) {
-        break; // No new knowledge derived
+    for (;;) {
+      if (iterations >= this.maxIterations) {
+        limit = "iterations";
+        break;
+      }
+      if (Date.now() >= deadline) {
+        limit = "time";
+        break;
       }
 
-      derivedAtoms.push(...newAtoms);
+      const { updated, capped } = this.applyInferenceRules(
+        iterations,
+        delta,
+        deadline,
+      );
       iterations++;
+      if (capped) limit = "atoms";
+
+      if (updated.length === 0) {
+        break; // Fixpoint reached, unless the atom limit held some back
+      }
+      updated.forEach((key) => changed.add(key));
+      delta = new Set(updated);
+
+      // Let the page handle events between iterations
+      await new Promise((resolve) => setTimeout(resolve, 0));
     }
 
-    log.info(`PLN inference completed in ${iterations} iterations`);
-    return derivedAtoms;
+    if (limit) {
+      log.warn(`PLN inference stopped by its ${limit} limit`);
+    }
+    log.info(
+      `PLN inference completed in ${iterations} iterations, ${changed.size} atoms derived or revised`,
+    );
+    return {
+      derived: Array.from(changed).map(
+        (key) => this.knowledgeBase.get(this.index.get(key)!)!,
+      ),
+      iterations,
+      truncated: limit !== undefined,
+      limit,
+    };
   }
 
   /**
-   * Apply all available inference rules
+   * Apply every untargeted rule once over the knowledge base and merge the
+   * conclusions back into it. Each distinct derivation (rule and premises)
+   * contributes its latest result once; a conclusion's truth value is the
+   * revision of its asserted value with all of them. After the first
+   * iteration only derivations touching an atom changed by the previous
+   * one (delta) are recomputed; the others would give the same result.
+   * Returns the keys of atoms that were added or changed significantly, and
+   * whether the atom limit kept any new conclusion out.
    */
-  private applyInferenceRules(): AtomNode[] {
-    const newAtoms: AtomNode[] = [];
-    const atoms = Array.from(this.knowledgeBase.values());
-
-    // Apply deduction: A->B, B->C => A->C
-    for (let i = 0; i < atoms.length; i++) {
-      for (let j = 0; j < atoms.length; j++) {
-        if (this.isImplication(atoms[i]) && this.isImplication(atoms[j])) {
-          const derived = this.tryDeduction(atoms[i], atoms[j]);
-          if (derived) {
-            newAtoms.push(derived);
-          }
+  private applyInferenceRules(
+    iteration: number,
+    delta: Set<string> | null,
+    deadline: number,
+  ): { updated: string[]; capped: boolean } {
+    const touched = new Map<string, AtomNode>(); // Key -> conclusion
+    const seen = new Set<string>();
+    const seeds = delta ? this.deltaSeeds(delta) : undefined;
+
+    for (const rule of this.rules.getRules()) {
+      if (rule.targeted) continue;
+      if (Date.now() >= deadline) break;
+
+      for (const derivation of this.applyRule(rule, seeds)) {
+        if (derivation.truthValue.confidence < this.minConfidence) continue;
+
+        const premiseKeys = derivation.premises.map(atomHandle);
+        const key = atomHandle(derivation.conclusion);
+
+        // The same premises can match twice through unordered links
+        const derivationKey = [
+          derivation.rule,
+          key,
+          ...premiseKeys.sort(),
+        ].join("|");
+        if (seen.has(derivationKey)) continue;
+        seen.add(derivationKey);
+
+        // Within a run, re-deriving a known conclusion with the same result
+        // adds nothing; the first iteration revises everything afresh
+        const evidence = this.evidence.get(key) || new Map<string, Evidence>();
+        const previous = evidence.get(derivationKey)?.derivation.truthValue;
+        if (
+          delta &&
+          this.index.has(key) &&
+          truthValuesEqual(previous, derivation.truthValue)
+        ) {
+          continue;
         }
+
+        // A conclusion may not be evidence for itself, even indirectly
+        const support = new Set(premiseKeys);
+        premiseKeys.forEach((premise) =>
+          this.support.get(premise)?.forEach((atom) => support.add(atom)),
+        );
+        if (support.has(key)) continue;
+
+        evidence.set(derivationKey, {
+          derivation,
+          iteration: evidence.get(derivationKey)?.iteration ?? iteration,
+        });
+        this.evidence.set(key, evidence);
+        const supported = this.support.get(key) || new Set<string>();
+        support.forEach((atom) => supported.add(atom));
+        this.support.set(key, supported);
+        touched.set(key, derivation.conclusion);
       }
     }
 
-    return newAtoms;
+    const updated: string[] = [];
+    let capped = false;
+    touched.forEach((conclusion, key) => {
+      const evidence = Array.from(this.evidence.get(key)!.values());
+      const asserted = this.asserted.get(key);
+      const truthValue = [
+        ...(asserted ? [asserted] : []),
+        ...evidence.map((entry) => entry.derivation.truthValue),
+      ].reduce((tv1, tv2) => revisionRule(tv1, tv2));
+
+      const id = this.index.get(key);
+      const known = id !== undefined ? this.knowledgeBase.get(id) : undefined;
+      if (known?.truthValue && !this.changed(known.truthValue, truthValue)) {
+        return;
+      }
+      if (!known && this.knowledgeBase.size >= this.maxAtoms) {
+        capped = true;
+        return;
+      }
+
+      const atom = { ...(known ?? conclusion), truthValue };
+      const atomId = id ?? `derived:${key}`;
+      this.knowledgeBase.set(atomId, atom);
+      this.space.add(atom);
+      this.index.set(key, atomId);
+      this.traces.set(key, {
+        atom,
+        steps: evidence.map(({ derivation, iteration }) => ({
+          rule: derivation.rule,
+          premises: derivation.premises,
+          truthValue: derivation.truthValue,
+          iteration,
+        })),
+        priorTruthValue: asserted,
+      });
+      updated.push(key);
+    });
+
+    return { updated, capped };
   }
 
   /**
-   * Check if atom is an implication link
+   * Atoms a derivation must involve to be affected by a change: the changed
+   * atoms, as premises, and their parents, whose formulas may read the
+   * changed atoms' truth values through the bindings
    */
-  private isImplication(atom: AtomNode): boolean {
-    return (
-      atom.type === AtomType.IMPLICATION_LINK && atom.children?.length === 2
-    );
+  private deltaSeeds(delta: Set<string>): AtomNode[] {
+    const seeds = new Map<string, AtomNode>();
+    delta.forEach((key) => {
+      const atom = this.knowledgeBase.get(this.index.get(key)!)!;
+      const handle = atomHandle(atom);
+      seeds.set(handle, atom);
+      this.space.getIncoming(handle).forEach((parent) => {
+        seeds.set(parent, this.space.get(parent)!);
+      });
+    });
+    return Array.from(seeds.values());
   }
 
   /**
-   * Try to apply deduction rule
+   * Drop an atom from the index unless other atoms still contain it
    */
-  private tryDeduction(atom1: AtomNode, atom2: AtomNode): AtomNode | null {
-    if (!atom1.children || !atom2.children) return null;
-    if (!atom1.truthValue || !atom2.truthValue) return null;
-
-    // Check if B matches: A->B and B->C
-    const B1 = atom1.children[1];
-    const B2 = atom2.children[0];
-
-    if (this.atomsMatch(B1, B2)) {
-      const A = atom1.children[0];
-      const C = atom2.children[1];
-
-      return {
-        type: atom1.type, // Use the same type from the input atom
-        children: [A, C],
-        truthValue: deductionRule(atom1.truthValue, atom2.truthValue),
-      };
-    }
-
-    return null;
+  private removeFromSpace(atom: AtomNode | undefined): void {
+    if (atom) this.space.remove(atomHandle(atom));
   }
 
   /**
-   * Check if two atoms match
+   * Whether a truth value moved by more than the tolerance
    */
-  private atomsMatch(atom1: AtomNode, atom2: AtomNode): boolean {
+  private changed(before: TruthValue, after: TruthValue): boolean {
     return (
-      atom1.type === atom2.type &&
-      atom1.name === atom2.name &&
-      atom1.value === atom2.value
+      Math.abs(before.strength - after.strength) > this.tolerance ||
+      Math.abs(before.confidence - after.confidence) > this.tolerance
     );
   }
 
+  /**
+   * Ground a rule's premises and compute a conclusion for each match whose
+   * premises all carry truth values. With seeds, only matches grounding
+   * some premise to a seed are considered.
+   */
+  private applyRule(rule: PLNRule, seeds?: AtomNode[]): Derivation[] {
+    const declared = new Map(
+      (rule.variables || []).map((declaration) => [
+        declaration.name,
+        declaration,
+      ]),
+    );
+    const variables = collectVariables(rule.premises).map(
+      (name) => declared.get(name) || { name },
+    );
+    const derivations: Derivation[] = [];
+
+    const pattern = { variables, clauses: rule.premises, absent: [] };
+    const matches = seeds
+      ? rule.premises.flatMap((_, clause) =>
+          seeds.flatMap((atom) =>
+            this.matcher.match(pattern, undefined, { clause, atom }),
+          ),
+        )
+      : this.matcher.match(pattern);
+
+    for (const { bindings, groundings } of matches) {
+      const distinct = (rule.distinct || []).map((name) =>
+        atomHandle(bindings[name]),
+      );
+      if (new Set(distinct).size < distinct.length) continue;
+
+      const truthValues = groundings.map((atom) => atom.truthValue);
+      if (truthValues.some((tv) => !tv)) continue;
+
+      const truthValue = rule.formula(truthValues as TruthValue[], bindings);
+      if (!truthValue) continue;
+
+      derivations.push({
+        rule: rule.name,
+        conclusion: substitute(rule.conclusion, bindings),
+        premises: groundings,
+        truthValue,
+      });
+    }
+
+    return derivations;
+  }
+
   /**
    * Get all derived atoms
    */
@@ -203,12 +724,449 @@ export class PLNForwardChainer {
     return Array.from(this.knowledgeBase.values());
   }
 
+  /**
+   * Inference trace of a derived atom
+   */
+  getTrace(atom: AtomNode): InferenceTrace | undefined {
+    return this.traces.get(atomHandle(atom));
+  }
+
+  /**
+   * Traces of every atom derived or restored since the last clear()
+   */
+  getTraces(): InferenceTrace[] {
+    return Array.from(this.traces.values());
+  }
+
+  /**
+   * Bring back traces saved by an earlier session, so their atoms can
+   * still be explained. Traces derived since take precedence, as do
+   * earlier entries over later ones for the same atom.
+   */
+  restoreTraces(traces: InferenceTrace[]): void {
+    traces.forEach(({ atom, steps, priorTruthValue }) => {
+      const key = atomHandle(atom);
+      if (!this.traces.has(key)) {
+        this.traces.set(key, { atom, steps, priorTruthValue });
+      }
+    });
+  }
+
+  /**
+   * Expand an atom's trace into a proof tree down to known facts.
+   * Premises already being explained further up are left as leaves.
+   */
+  getProofTree(atom: AtomNode, path: string[] = []): ProofTree {
+    const key = atomHandle(atom);
+    const trace = this.traces.get(key);
+    if (!trace || path.includes(key)) {
+      return { atom: trace?.atom ?? atom, steps: [] };
+    }
+
+    return {
+      atom: trace.atom,
+      steps: trace.steps.map((step) => ({
+        rule: step.rule,
+        truthValue: step.truthValue,
+        iteration: step.iteration,
+        premises: step.premises.map((premise) =>
+          this.getProofTree(premise, [...path, key]),
+        ),
+      })),
+    };
+  }
+
   /**
    * Clear knowledge base
    */
   clear(): void {
     this.knowledgeBase.clear();
+    this.space.clear();
+    this.traces.clear();
+    this.index.clear();
+    this.asserted.clear();
+    this.evidence.clear();
+    this.support.clear();
+  }
+}
+
+/**
+ * Options for goal-directed queries
+ */
+export interface BackwardChainOptions {
+  maxDepth?: number; // Nested rule applications per proof branch
+  maxSteps?: number; // Rule applications per query
+}
+
+/**
+ * One way of satisfying a backward-chaining target
+ */
+export interface BackwardChainSolution {
+  atom: AtomNode; // Target instantiated with the bindings
+  bindings: Bindings; // Groundings of the target's variables
+  truthValue: TruthValue;
+}
+
+export interface BackwardChainResult {
+  truthValue: TruthValue | null; // Best (most confident) solution's TV
+  bindings: Bindings; // Best solution's bindings
+  solutions: BackwardChainSolution[]; // Best TV per distinct binding
+  steps: number; // Rule applications tried
+}
+
+type Substitution = Record<string, AtomNode>;
+
+/**
+ * Proofs of a goal, as the values of its variables in order of appearance,
+ * and the proof depth they were searched to
+ */
+interface TabledGoal {
+  remaining: number;
+  answers: { values: AtomNode[]; truthValue: TruthValue }[];
+}
+
+/**
+ * Backward chainer for PLN queries
+ * Proves a target, which may contain VariableNodes, from known facts by
+ * unifying it with rule conclusions and recursively proving the premises.
+ */
+export class PLNBackwardChainer {
+  private rules: PLNRuleRegistry;
+  private maxDepth: number;
+  private maxSteps: number;
+  private steps = 0;
+  private renames = 0;
+  private matcher?: PatternMatcher;
+  private table: Map<string, TabledGoal> = new Map(); // Variant key -> proofs
+
+  constructor(
+    rules: PLNRuleRegistry = new PLNRuleRegistry(),
+    options: BackwardChainOptions = {},
+  ) {
+    this.rules = rules;
+    this.maxDepth = options.maxDepth ?? 3;
+    this.maxSteps = options.maxSteps ?? 1000;
+  }
+
+  /**
+   * Find the best truth value for a target against a knowledge base
+   */
+  query(
+    target: AtomNode,
+    knowledgeBase: AtomNode[],
+    options: BackwardChainOptions = {},
+  ): BackwardChainResult {
+    const maxDepth = options.maxDepth ?? this.maxDepth;
+    const maxSteps = options.maxSteps ?? this.maxSteps;
+    this.steps = 0;
+    this.matcher = PatternMatcher.forAtoms(knowledgeBase);
+    this.table.clear();
+
+    const variables = collectVariables([target]);
+    const best = new Map<string, BackwardChainSolution>();
+
+    for (const proof of this.prove(target, {}, 0, [], maxDepth, maxSteps)) {
+      const bindings: Bindings = {};
+      variables.forEach((name) => {
+        const value = resolve(variable(name), proof.substitution);
+        if (!isVariableNode(value)) bindings[name] = value;
+      });
+
+      const key = variables
+        .map((name) => (bindings[name] ? atomHandle(bindings[name]) : ""))
+        .join("|");
+      const current = best.get(key);
+      if (
+        !current ||
+        proof.truthValue.confidence > current.truthValue.confidence
+      ) {
+        best.set(key, {
+          atom: resolve(target, proof.substitution),
+          bindings,
+          truthValue: proof.truthValue,
+        });
+      }
+    }
+
+    const solutions = Array.from(best.values()).sort(
+      (a, b) => b.truthValue.confidence - a.truthValue.confidence,
+    );
+
+    log.info(
+      `PLN backward chaining found ${solutions.length} solutions in ${this.steps} steps`,
+    );
+    return {
+      truthValue: solutions[0]?.truthValue ?? null,
+      bindings: solutions[0]?.bindings ?? {},
+      solutions,
+      steps: this.steps,
+    };
+  }
+
+  /**
+   * Proofs of a goal under a substitution: matching facts first, then
+   * rules whose conclusion unifies with the goal. Goals are tabled by
+   * their variant key, so a goal that differs from one already proved or
+   * being proved only in its variable names is not searched again.
+   */
+  private prove(
+    goal: AtomNode,
+    substitution: Substitution,
+    depth: number,
+    stack: string[],
+    maxDepth: number,
+    maxSteps: number,
+  ): { substitution: Substitution; truthValue: TruthValue }[] {
+    const resolved = resolve(goal, substitution);
+    const key = variantKey(resolved);
+    const remaining = maxDepth - depth;
+    const variables = collectVariables([resolved]);
+
+    const tabled = this.table.get(key);
+    if (tabled && tabled.remaining >= remaining) {
+      return tabled.answers.flatMap(({ values, truthValue }) => {
+        let extended: Substitution | null = substitution;
+        variables.forEach((name, i) => {
+          if (extended) {
+            extended = unifyTerms(variable(name), values[i], extended);
+          }
+        });
+        return extended ? [{ substitution: extended, truthValue }] : [];
+      });
+    }
+
+    const proofs = this.matchFacts(resolved).map((match) => ({
+      substitution: { ...substitution, ...match.bindings },
+      truthValue: match.truthValue,
+    }));
+
+    // Bare variables would unify with every rule conclusion, and a goal
+    // already being proved further up would loop
+    if (depth >= maxDepth || isVariableNode(resolved) || stack.includes(key)) {
+      return proofs;
+    }
+
+    for (const rule of this.rules.getRules()) {
+      if (this.steps >= maxSteps) break;
+
+      const renamed = this.renameApart(rule);
+      const unified = unifyTerms(renamed.conclusion, resolved, substitution);
+      if (!unified) continue;
+      this.steps++;
+
+      // Prove the premises left to right, threading the substitution
+      let branches: {
+        substitution: Substitution;
+        truthValues: TruthValue[];
+      }[] = [{ substitution: unified, truthValues: [] }];
+      for (const premise of renamed.premises) {
+        branches = branches.flatMap((branch) =>
+          this.prove(
+            premise,
+            branch.substitution,
+            depth + 1,
+            [...stack, key],
+            maxDepth,
+            maxSteps,
+          ).map((proof) => ({
+            substitution: proof.substitution,
+            truthValues: [...branch.truthValues, proof.truthValue],
+          })),
+        );
+      }
+
+      for (const branch of branches) {
+        const bindings: Bindings = {};
+        Object.entries(renamed.names).forEach(([original, name]) => {
+          bindings[original] = resolve(variable(name), branch.substitution);
+        });
+        if (!satisfiesConstraints(rule, bindings)) continue;
+
+        const truthValue = rule.formula(branch.truthValues, bindings);
+        if (truthValue) {
+          proofs.push({ substitution: branch.substitution, truthValue });
+        }
+      }
+    }
+
+    this.table.set(key, {
+      remaining,
+      answers: proofs.map(({ substitution, truthValue }) => ({
+        values: variables.map((name) => resolve(variable(name), substitution)),
+        truthValue,
+      })),
+    });
+    return proofs;
+  }
+
+  /**
+   * Facts in the knowledge base that ground the goal, with their bindings
+   */
+  private matchFacts(
+    goal: AtomNode,
+  ): { bindings: Bindings; truthValue: TruthValue }[] {
+    const variables = collectVariables([goal]).map((name) => ({ name }));
+
+    return this.matcher!.match({ variables, clauses: [goal], absent: [] })
+      .filter((match) => match.groundings[0].truthValue)
+      .map((match) => ({
+        bindings: match.bindings,
+        truthValue: match.groundings[0].truthValue!,
+      }));
+  }
+
+  /**
+   * Copy of a rule with fresh variable names, so its variables cannot
+   * clash with the goal's or another application's
+   */
+  private renameApart(rule: PLNRule): {
+    premises: AtomNode[];
+    conclusion: AtomNode;
+    names: Record<string, string>;
+  } {
+    const suffix = `#${++this.renames}`;
+    const names: Record<string, string> = {};
+    const renaming: Bindings = {};
+
+    collectVariables([...rule.premises, rule.conclusion]).forEach((name) => {
+      names[name] = `${name}${suffix}`;
+      renaming[name] = variable(names[name]);
+    });
+
+    return {
+      premises: rule.premises.map((premise) => resolve(premise, renaming)),
+      conclusion: resolve(rule.conclusion, renaming),
+      names,
+    };
+  }
+}
+
+/**
+ * Declared variable types and distinctness of a rule's groundings
+ */
+function satisfiesConstraints(rule: PLNRule, bindings: Bindings): boolean {
+  const typed = (rule.variables || []).every(
+    ({ name, types }) =>
+      !types?.length ||
+      types.some((type) => atomTypes.isA(bindings[name].type, type)),
+  );
+  if (!typed) return false;
+
+  const distinct = (rule.distinct || []).map((name) =>
+    atomHandle(bindings[name]),
+  );
+  return new Set(distinct).size === distinct.length;
+}
+
+function isVariableNode(atom: AtomNode): boolean {
+  return atom.type === AtomType.VARIABLE_NODE && atom.name !== undefined;
+}
+
+/**
+ * Follow variable bindings until a non-variable or unbound variable
+ */
+function walk(term: AtomNode, substitution: Substitution): AtomNode {
+  while (isVariableNode(term) && substitution[term.name!]) {
+    term = substitution[term.name!];
+  }
+  return term;
+}
+
+/**
+ * Apply a substitution throughout a term
+ */
+function resolve(term: AtomNode, substitution: Substitution): AtomNode {
+  const walked = walk(term, substitution);
+  if (!walked.children?.length) return walked;
+
+  return {
+    ...walked,
+    children: walked.children.map((child) => resolve(child, substitution)),
+  };
+}
+
+function occurs(
+  name: string,
+  term: AtomNode,
+  substitution: Substitution,
+): boolean {
+  const walked = walk(term, substitution);
+  if (isVariableNode(walked)) return walked.name === name;
+  return (walked.children || []).some((child) =>
+    occurs(name, child, substitution),
+  );
+}
+
+/**
+ * Unify two terms that may both contain variables
+ */
+function unifyTerms(
+  a: AtomNode,
+  b: AtomNode,
+  substitution: Substitution,
+): Substitution | null {
+  const left = walk(a, substitution);
+  const right = walk(b, substitution);
+
+  if (isVariableNode(left) && isVariableNode(right)) {
+    return left.name === right.name
+      ? substitution
+      : { ...substitution, [left.name!]: right };
+  }
+  if (isVariableNode(left) || isVariableNode(right)) {
+    const [name, value] = isVariableNode(left)
+      ? [left.name!, right]
+      : [right.name!, left];
+    return occurs(name, value, substitution)
+      ? null
+      : { ...substitution, [name]: value };
+  }
+
+  if (left.type !== right.type || left.name !== right.name) return null;
+
+  const leftChildren = left.children || [];
+  const rightChildren = right.children || [];
+  if (leftChildren.length !== rightChildren.length) return null;
+
+  let current: Substitution | null = substitution;
+  for (let i = 0; i < leftChildren.length && current; i++) {
+    current = unifyTerms(leftChildren[i], rightChildren[i], current);
   }
+  return current;
+}
+
+/**
+ * Handle of a goal with its variables renamed in order of appearance, the
+ * same for goals that differ only in variable names
+ */
+function variantKey(goal: AtomNode): string {
+  const names = new Map<string, AtomNode>();
+  const rename = (atom: AtomNode): AtomNode => {
+    if (isVariableNode(atom)) {
+      if (!names.has(atom.name!)) {
+        names.set(atom.name!, variable(`${names.size}`));
+      }
+      return names.get(atom.name!)!;
+    }
+    return atom.children?.length
+      ? { ...atom, children: atom.children.map(rename) }
+      : atom;
+  };
+  return atomHandle(rename(goal));
+}
+
+function collectVariables(atoms: AtomNode[]): string[] {
+  const names = new Set<string>();
+
+  const visit = (atom: AtomNode) => {
+    if (atom.type === AtomType.VARIABLE_NODE && atom.name !== undefined) {
+      names.add(atom.name);
+    }
+    atom.children?.forEach(visit);
+  };
+  atoms.forEach(visit);
+
+  return Array.from(names);
 }
 
 /**
@@ -216,9 +1174,13 @@ export class PLNForwardChainer {
  */
 export class PLNReasoner {
   private forwardChainer: PLNForwardChainer;
+  private backwardChainer: PLNBackwardChainer;
 
-  constructor() {
-    this.forwardChainer = new PLNForwardChainer();
+  constructor(options?: ForwardChainOptions) {
+    this.forwardChainer = new PLNForwardChainer(options);
+    this.backwardChainer = new PLNBackwardChainer(
+      this.forwardChainer.getRuleRegistry(),
+    );
   }
 
   /**
@@ -227,6 +1189,7 @@ export class PLNReasoner {
   async reason(atoms: AtomNode[]): Promise<{
     derived: AtomNode[];
     confidence: number;
+    truncated: boolean; // A forward chaining limit was hit
   }> {
     // Add atoms to knowledge base
     atoms.forEach((atom, index) => {
@@ -234,7 +1197,7 @@ export class PLNReasoner {
     });
 
     // Run inference
-    const derived = await this.forwardChainer.infer();
+    const { derived, truncated } = await this.forwardChainer.infer();
 
     // Calculate overall confidence
     const avgConfidence =
@@ -246,41 +1209,41 @@ export class PLNReasoner {
     return {
       derived,
       confidence: avgConfidence,
+      truncated,
     };
   }
 
   /**
-   * Evaluate a query against the knowledge base
+   * Answer a query, which may contain VariableNodes, by backward chaining
+   * from the target to the given atoms, or to the reasoner's knowledge base
    */
-  async query(queryAtom: AtomNode): Promise<TruthValue | null> {
-    const kb = this.forwardChainer.getKnowledgeBase();
-
-    // Simple query matching
-    for (const atom of kb) {
-      if (this.atomsEqual(atom, queryAtom)) {
-        return atom.truthValue || null;
-      }
-    }
+  async query(
+    queryAtom: AtomNode,
+    options?: BackwardChainOptions,
+    knowledgeBase: AtomNode[] = this.forwardChainer.getKnowledgeBase(),
+  ): Promise<BackwardChainResult> {
+    return this.backwardChainer.query(queryAtom, knowledgeBase, options);
+  }
 
-    return null;
+  /**
+   * Inference traces of every derived atom
+   */
+  getTraces(): InferenceTrace[] {
+    return this.forwardChainer.getTraces();
   }
 
   /**
-   * Check if two atoms are equal
+   * Restore traces saved by an earlier session, newest first
    */
-  private atomsEqual(atom1: AtomNode, atom2: AtomNode): boolean {
-    if (atom1.type !== atom2.type) return false;
-    if (atom1.name !== atom2.name) return false;
-    if (atom1.value !== atom2.value) return false;
-
-    if (atom1.children && atom2.children) {
-      if (atom1.children.length !== atom2.children.length) return false;
-      return atom1.children.every((child, i) =>
-        this.atomsEqual(child, atom2.children![i]),
-      );
-    }
+  restoreTraces(traces: InferenceTrace[]): void {
+    this.forwardChainer.restoreTraces(traces);
+  }
 
-    return true;
+  /**
+   * Explain why an atom is believed as a proof tree
+   */
+  getProofTree(atom: AtomNode): ProofTree {
+    return this.forwardChainer.getProofTree(atom);
   }
 
   /**
@@ -0,0 +1,396 @@
+/**
+ * Scheme (Guile) Reader and Generator
+ * Evaluates the OpenCog Guile subset used to build atoms and converts it
+ * to and from AtomNode structures
+ *
+ * Supported forms:
+ *   (ConceptNode "cat") (Concept "cat")       atom constructors
+ *   (InheritanceLink (stv 0.9 0.8) a b)       truth/attention values anywhere
+ *   (cog-new-node 'ConceptNode "cat" tv)      quoted type symbols
+ *   (cog-new-link 'ListLink a b)
+ *   (define cat (Concept "cat"))              bindings reusable by name
+ *   (cog-set-tv! cat (stv 0.9 0.8))
+ *   (stv s c) (ctv s c n) (itv l u b) (ftv s c) (av sti lti vlti)
+ *   and the cog-new-stv style aliases; (use-modules ...) is ignored.
+ */
+
+import { AtomNode, AtomTypeName, AttentionValue, TruthValue } from "./types";
+import { atomTypes } from "./atom-types";
+import {
+  VALUE_FORMS,
+  hasAttention,
+  truthValueFromForm,
+  truthValueToForm,
+} from "./truth-value";
+import {
+  ParseError,
+  SExpr,
+  SExprList,
+  SExprOptions,
+  SourcePosition,
+  quoteString,
+  readSExpr,
+  readSExprs,
+} from "./sexpr";
+
+export const SCHEME_SYNTAX: SExprOptions = { prefixes: ["'"] };
+
+/**
+ * Guile procedure names for value forms
+ */
+const VALUE_PROCEDURES: Record<string, string> = {
+  stv: "stv",
+  ctv: "ctv",
+  itv: "itv",
+  ftv: "ftv",
+  av: "av",
+  "cog-new-stv": "stv",
+  "cog-new-ctv": "ctv",
+  "cog-new-itv": "itv",
+  "cog-new-ftv": "ftv",
+  "cog-new-av": "av",
+};
+
+/**
+ * Procedures evaluated for their side effects on the Guile session only
+ */
+const IGNORED_PROCEDURES = new Set(["use-modules", "load"]);
+
+type SchemeValue =
+  | { kind: "atom"; atom: AtomNode }
+  | { kind: "truthValue"; truthValue: TruthValue }
+  | { kind: "attentionValue"; attentionValue: AttentionValue }
+  | { kind: "string"; value: string }
+  | { kind: "number"; value: number }
+  | { kind: "symbol"; name: string }
+  | { kind: "unspecified" };
+
+type Environment = Map<string, SchemeValue>;
+
+export class SchemeParser {
+  /**
+   * Evaluate a single Scheme expression to an atom
+   * Example: (cog-new-node 'ConceptNode "cat" (stv 0.9 0.8))
+   * Throws ParseError with the source position on malformed input.
+   */
+  static parse(scheme: string): AtomNode {
+    const expr = readSExpr(scheme, SCHEME_SYNTAX);
+    return this.expectAtom(this.evaluate(expr, new Map()), expr);
+  }
+
+  /**
+   * Evaluate a Scheme file and return the atoms its top-level forms create,
+   * in order of first appearance
+   */
+  static parseAll(scheme: string): AtomNode[] {
+    const env: Environment = new Map();
+    const atoms: AtomNode[] = [];
+    const seen = new Set<AtomNode>();
+
+    for (const expr of readSExprs(scheme, SCHEME_SYNTAX)) {
+      const value = this.evaluate(expr, env);
+      if (value.kind === "atom" && !seen.has(value.atom)) {
+        seen.add(value.atom);
+        atoms.push(value.atom);
+      }
+    }
+
+    return atoms;
+  }
+
+  private static evaluate(expr: SExpr, env: Environment): SchemeValue {
+    if (expr.kind !== "list") {
+      if (expr.kind === "string") {
+        return { kind: "string", value: expr.value };
+      }
+      if (expr.prefix === "'") {
+        return { kind: "symbol", name: expr.value };
+      }
+
+      const number = Number(expr.value);
+      if (!isNaN(number)) {
+        return { kind: "number", value: number };
+      }
+
+      const bound = env.get(expr.value);
+      if (!bound) {
+        throw new ParseError(`Unbound variable: ${expr.value}`, expr.start);
+      }
+      return bound;
+    }
+
+    // Quoting a constructor call is inert in this subset
+    const [head, ...args] = expr.items;
+    if (!head) {
+      throw new ParseError(
+        "Empty expression, expected a procedure",
+        expr.start,
+      );
+    }
+    if (head.kind !== "symbol" || head.prefix) {
+      throw new ParseError("Expected a procedure name", head.start);
+    }
+
+    const procedure = head.value;
+
+    if (procedure === "define") {
+      return this.evaluateDefine(expr, args, env);
+    }
+    if (IGNORED_PROCEDURES.has(procedure)) {
+      return { kind: "unspecified" };
+    }
+    if (procedure === "cog-new-node" || procedure === "cog-new-link") {
+      const [typeExpr, ...rest] = args;
+      const type = typeExpr && this.evaluate(typeExpr, env);
+      if (!type || type.kind !== "symbol") {
+        throw new ParseError(
+          `(${procedure} ...) expects a quoted atom type`,
+          (typeExpr || expr).start,
+        );
+      }
+
+      const atomType = this.constructorType(type.name);
+      const wantsLink = procedure === "cog-new-link";
+      if (!atomType || atomTypes.isLink(atomType) !== wantsLink) {
+        throw new ParseError(
+          `'${type.name}' is not a ${wantsLink ? "Link" : "Node"} type`,
+          typeExpr.start,
+        );
+      }
+      return this.construct(atomType, rest, env, expr);
+    }
+    if (procedure === "cog-set-tv!") {
+      return this.evaluateSetTV(expr, args, env);
+    }
+    if (Object.prototype.hasOwnProperty.call(VALUE_PROCEDURES, procedure)) {
+      return this.evaluateValue(VALUE_PROCEDURES[procedure], expr, args, env);
+    }
+
+    const type = this.constructorType(procedure);
+    if (type) {
+      return this.construct(type, args, env, expr);
+    }
+
+    throw new ParseError(`Unsupported procedure '${procedure}'`, head.start);
+  }
+
+  /**
+   * (define name expr)
+   */
+  private static evaluateDefine(
+    expr: SExprList,
+    args: SExpr[],
+    env: Environment,
+  ): SchemeValue {
+    const [name, valueExpr, ...rest] = args;
+    if (!name || name.kind !== "symbol" || name.prefix) {
+      throw new ParseError(
+        name?.kind === "list"
+          ? "Procedure definitions are not supported"
+          : "(define ...) expects a variable name",
+        (name || expr).start,
+      );
+    }
+    if (!valueExpr || rest.length > 0) {
+      throw new ParseError(
+        "(define ...) expects exactly one value",
+        expr.start,
+      );
+    }
+
+    const value = this.evaluate(valueExpr, env);
+    env.set(name.value, value);
+    return value;
+  }
+
+  /**
+   * (cog-set-tv! atom tv)
+   */
+  private static evaluateSetTV(
+    expr: SExprList,
+    args: SExpr[],
+    env: Environment,
+  ): SchemeValue {
+    if (args.length !== 2) {
+      throw new ParseError(
+        "(cog-set-tv! ...) expects an atom and a truth value",
+        expr.start,
+      );
+    }
+
+    const atom = this.expectAtom(this.evaluate(args[0], env), args[0]);
+    const tv = this.evaluate(args[1], env);
+    if (tv.kind !== "truthValue") {
+      throw new ParseError("Expected a truth value", args[1].start);
+    }
+
+    atom.truthValue = tv.truthValue;
+    return { kind: "atom", atom };
+  }
+
+  private static evaluateValue(
+    form: string,
+    expr: SExprList,
+    args: SExpr[],
+    env: Environment,
+  ): SchemeValue {
+    const arity = VALUE_FORMS[form];
+    if (args.length !== arity) {
+      throw new ParseError(
+        `(${form} ...) expects ${arity} numbers, found ${args.length}`,
+        expr.start,
+      );
+    }
+
+    const numbers = args.map((arg) => {
+      const value = this.evaluate(arg, env);
+      if (value.kind !== "number") {
+        throw new ParseError(`Expected a number in (${form} ...)`, arg.start);
+      }
+      return value.value;
+    });
+
+    if (form === "av") {
+      const [sti, lti, vlti] = numbers;
+      return { kind: "attentionValue", attentionValue: { sti, lti, vlti } };
+    }
+    return {
+      kind: "truthValue",
+      truthValue: truthValueFromForm(form, numbers),
+    };
+  }
+
+  /**
+   * Build an atom from constructor arguments
+   */
+  private static construct(
+    type: AtomTypeName,
+    args: SExpr[],
+    env: Environment,
+    expr: SExprList,
+  ): SchemeValue {
+    const isLink = atomTypes.isLink(type);
+    const atom: AtomNode = { type, children: [] };
+
+    for (const arg of args) {
+      const value = this.evaluate(arg, env);
+
+      switch (value.kind) {
+        case "truthValue":
+          if (atom.truthValue) {
+            throw new ParseError("Duplicate truth value", arg.start);
+          }
+          atom.truthValue = value.truthValue;
+          break;
+        case "attentionValue":
+          if (atom.attentionValue) {
+            throw new ParseError("Duplicate attention value", arg.start);
+          }
+          atom.attentionValue = value.attentionValue;
+          break;
+        case "atom":
+          if (!isLink) {
+            throw new ParseError(`${type} cannot contain atoms`, arg.start);
+          }
+          atom.children!.push(value.atom);
+          break;
+        case "string":
+          if (isLink || atom.name !== undefined) {
+            throw new ParseError(`Unexpected string in ${type}`, arg.start);
+          }
+          atom.name = value.value;
+          break;
+        default:
+          throw new ParseError(`Unexpected argument to ${type}`, arg.start);
+      }
+    }
+
+    if (!isLink && atom.name === undefined) {
+      throw new ParseError(`${type} expects a name`, expr.start);
+    }
+
+    return { kind: "atom", atom };
+  }
+
+  /**
+   * Map a constructor name to an atom type.
+   * Accepts full type names and the short forms Guile defines (Concept,
+   * Inheritance); unknown names with a Node/Link suffix are preserved.
+   */
+  private static constructorType(name: string): AtomTypeName | null {
+    for (const candidate of [name, `${name}Node`, `${name}Link`]) {
+      if (atomTypes.has(candidate) && !atomTypes.isAbstract(candidate)) {
+        return candidate;
+      }
+    }
+
+    return name.endsWith("Node") || name.endsWith("Link") ? name : null;
+  }
+
+  private static expectAtom(value: SchemeValue, expr: SExpr): AtomNode {
+    if (value.kind !== "atom") {
+      throw new ParseError("Expected an atom", expr.start);
+    }
+    return value.atom;
+  }
+
+  /**
+   * Generate Guile code that recreates an atom
+   * Values follow the type for links and the name for nodes, as in
+   * cog-prt-atomspace output.
+   */
+  static generate(atom: AtomNode): string {
+    const values = this.generateValues(atom);
+
+    if (!atomTypes.isLink(atom.type)) {
+      return `(${atom.type} ${quoteString(atom.name || "")}${values})`;
+    }
+
+    const children = (atom.children || [])
+      .map((child) => ` ${this.generate(child)}`)
+      .join("");
+    return `(${atom.type}${values}${children})`;
+  }
+
+  /**
+   * Generate a Scheme file for several atoms
+   */
+  static generateAll(atoms: AtomNode[]): string {
+    return atoms.map((atom) => this.generate(atom)).join("\n");
+  }
+
+  private static generateValues(atom: AtomNode): string {
+    let values = "";
+
+    if (atom.truthValue) {
+      const [form, args] = truthValueToForm(atom.truthValue);
+      values += ` (${form} ${args.join(" ")})`;
+    }
+    if (hasAttention(atom.attentionValue)) {
+      const { sti, lti, vlti } = atom.attentionValue;
+      values += ` (av ${sti} ${lti} ${vlti})`;
+    }
+
+    return values;
+  }
+
+  /**
+   * Validate Scheme syntax and atom construction
+   */
+  static validate(scheme: string): {
+    valid: boolean;
+    error?: string;
+    position?: SourcePosition;
+  } {
+    try {
+      this.parseAll(scheme);
+      return { valid: true };
+    } catch (error) {
+      return {
+        valid: false,
+        error: error instanceof Error ? error.message : "Invalid Scheme",
+        position: error instanceof ParseError ? error.position : undefined,
+      };
+    }
+  }
+}
@@ -0,0 +1,326 @@
+/**
+ * S-Expression Reader
+ * Position-tracking tokenizer and reader shared by the Atomese and MeTTa parsers
+ */
+
+export interface SourcePosition {
+  offset: number; // 0-based character offset
+  line: number; // 1-based
+  column: number; // 1-based
+}
+
+/**
+ * Syntax error with the location where parsing failed
+ */
+export class ParseError extends Error {
+  readonly reason: string;
+  readonly position: SourcePosition;
+
+  constructor(reason: string, position: SourcePosition) {
+    super(`${reason} at line ${position.line}, column ${position.column}`);
+    this.name = "ParseError";
+    this.reason = reason;
+    this.position = position;
+  }
+
+  /**
+   * Render the offending source line with a caret under the error column
+   */
+  codeFrame(source: string): string {
+    const lines = source.split("\n");
+    const lineText = lines[this.position.line - 1] ?? "";
+    const gutter = `${this.position.line} | `;
+    const caret = " ".repeat(gutter.length + this.position.column - 1) + "^";
+
+    return `${this.message}\n${gutter}${lineText}\n${caret}`;
+  }
+}
+
+export type SExprTokenKind =
+  | "open"
+  | "close"
+  | "string"
+  | "symbol"
+  | "prefix"
+  | "comment";
+
+export interface SExprToken {
+  kind: SExprTokenKind;
+  text: string; // Raw source text
+  value: string; // Unescaped contents for strings, raw text otherwise
+  start: SourcePosition;
+}
+
+export interface SExprAtom {
+  kind: "string" | "symbol" | "comment";
+  text: string;
+  value: string;
+  start: SourcePosition;
+  prefix?: string; // Reader prefix such as MeTTa's `!`
+}
+
+export interface SExprList {
+  kind: "list";
+  items: SExpr[];
+  start: SourcePosition;
+  end: SourcePosition;
+  prefix?: string;
+}
+
+export interface SExprOptions {
+  /**
+   * Characters that, at the start of a token, mark the following datum
+   * instead of being part of a symbol (e.g. "!" in MeTTa)
+   */
+  prefixes?: string[];
+  comments?: boolean; // Keep `;` line comments as comment atoms
+}
+
+export type SExpr = SExprAtom | SExprList;
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: "\n",
+  t: "\t",
+  r: "\r",
+  '"': '"',
+  "\\": "\\",
+};
+
+/**
+ * Quote a string literal, escaping characters the tokenizer unescapes
+ */
+export function quoteString(value: string): string {
+  const escaped = value
+    .replace(/\\/g, "\\\\")
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, "\\n")
+    .replace(/\t/g, "\\t")
+    .replace(/\r/g, "\\r");
+  return `"${escaped}"`;
+}
+
+/**
+ * Split source into tokens. Whitespace is skipped, and so are `;` line
+ * comments unless the options keep them.
+ */
+export function tokenizeSExpr(
+  source: string,
+  options: SExprOptions = {},
+): SExprToken[] {
+  const prefixes = options.prefixes || [];
+  const tokens: SExprToken[] = [];
+  let offset = 0;
+  let line = 1;
+  let column = 1;
+
+  const position = (): SourcePosition => ({ offset, line, column });
+  const advance = () => {
+    if (source[offset] === "\n") {
+      line++;
+      column = 1;
+    } else {
+      column++;
+    }
+    offset++;
+  };
+
+  while (offset < source.length) {
+    const char = source[offset];
+
+    if (/\s/.test(char)) {
+      advance();
+    } else if (char === ";") {
+      const start = position();
+      while (offset < source.length && source[offset] !== "\n") {
+        advance();
+      }
+
+      if (options.comments) {
+        const text = source.slice(start.offset, offset).trimEnd();
+        tokens.push({ kind: "comment", text, value: text, start });
+      }
+    } else if (char === "(" || char === ")") {
+      tokens.push({
+        kind: char === "(" ? "open" : "close",
+        text: char,
+        value: char,
+        start: position(),
+      });
+      advance();
+    } else if (prefixes.includes(char)) {
+      tokens.push({
+        kind: "prefix",
+        text: char,
+        value: char,
+        start: position(),
+      });
+      advance();
+    } else if (char === '"') {
+      const start = position();
+      let value = "";
+      advance(); // skip opening quote
+
+      while (true) {
+        if (offset >= source.length) {
+          throw new ParseError("Unterminated string literal", start);
+        }
+
+        const current = source[offset];
+        if (current === '"') {
+          advance();
+          break;
+        }
+
+        if (current === "\\") {
+          advance();
+          if (offset >= source.length) {
+            throw new ParseError("Unterminated string literal", start);
+          }
+          const escaped = source[offset];
+          value += STRING_ESCAPES[escaped] ?? escaped;
+        } else {
+          value += current;
+        }
+        advance();
+      }
+
+      tokens.push({
+        kind: "string",
+        text: source.slice(start.offset, offset),
+        value,
+        start,
+      });
+    } else {
+      const start = position();
+      while (offset < source.length && !/[\s()";]/.test(source[offset])) {
+        advance();
+      }
+
+      const text = source.slice(start.offset, offset);
+      tokens.push({ kind: "symbol", text, value: text, start });
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Read every top-level S-expression in the source.
+ * Reports unbalanced parentheses with the position of the offending paren.
+ */
+export function readSExprs(
+  source: string,
+  options: SExprOptions = {},
+): SExpr[] {
+  const tokens = tokenizeSExpr(source, options);
+  const result: SExpr[] = [];
+  const stack: SExprList[] = [];
+  let prefix = ""; // Prefix waiting for the next datum
+  let prefixStart: SourcePosition | null = null;
+
+  const missingDatum = (start: SourcePosition) =>
+    new ParseError(`Expected an expression after '${prefix}'`, start);
+
+  for (const token of tokens) {
+    switch (token.kind) {
+      case "prefix":
+        prefixStart = prefixStart || token.start;
+        prefix += token.value;
+        break;
+
+      case "open":
+        stack.push({
+          kind: "list",
+          items: [],
+          start: token.start,
+          end: token.start,
+          prefix: prefix || undefined,
+        });
+        prefix = "";
+        prefixStart = null;
+        break;
+
+      case "close": {
+        if (prefixStart) {
+          throw missingDatum(prefixStart);
+        }
+
+        const list = stack.pop();
+        if (!list) {
+          throw new ParseError("Unexpected ')'", token.start);
+        }
+        list.end = token.start;
+        (stack.length > 0 ? stack[stack.length - 1].items : result).push(list);
+        break;
+      }
+
+      case "comment":
+        // Comments do not take a pending prefix
+        (stack.length > 0 ? stack[stack.length - 1].items : result).push({
+          kind: "comment",
+          text: token.text,
+          value: token.value,
+          start: token.start,
+        });
+        break;
+
+      default: {
+        const atom: SExprAtom = {
+          kind: token.kind,
+          text: token.text,
+          value: token.value,
+          start: token.start,
+          prefix: prefix || undefined,
+        };
+        prefix = "";
+        prefixStart = null;
+        (stack.length > 0 ? stack[stack.length - 1].items : result).push(atom);
+      }
+    }
+  }
+
+  if (prefixStart) {
+    throw missingDatum(prefixStart);
+  }
+
+  if (stack.length > 0) {
+    const unclosed = stack[stack.length - 1];
+    throw new ParseError(
+      "Unclosed '(': missing ')' before end of input",
+      unclosed.start,
+    );
+  }
+
+  return result;
+}
+
+/**
+ * Read exactly one S-expression
+ */
+export function readSExpr(source: string, options: SExprOptions = {}): SExpr {
+  const exprs = readSExprs(source, options);
+
+  if (exprs.length === 0) {
+    throw new ParseError("Empty input", endPosition(source));
+  }
+  if (exprs.length > 1) {
+    throw new ParseError(
+      "Unexpected content after end of expression",
+      exprs[1].start,
+    );
+  }
+
+  return exprs[0];
+}
+
+/**
+ * Position just past the last character of the source
+ */
+function endPosition(source: string): SourcePosition {
+  const lines = source.split("\n");
+  return {
+    offset: source.length,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+  };
+}
@@ -3,9 +3,26 @@
  * Uses LLM to translate between natural language and formal representations
  */
 
-import { TranslationRequest, TranslationResponse, Format } from "./types";
+import {
+  AtomNode,
+  TranslationRequest,
+  TranslationResponse,
+  Format,
+} from "./types";
 import { AtomeseParser } from "./atomese";
 import { MeTTaParser } from "./metta";
+import { SchemeParser } from "./scheme";
+import { AtomeseMeTTaConverter } from "./converter";
+import { ParseError } from "./sexpr";
+
+/**
+ * Formats with a structural mapping to AtomNode
+ */
+const STRUCTURED_FORMATS = new Set<Format>([
+  Format.ATOMESE,
+  Format.METTA,
+  Format.SCHEME,
+]);
 
 export class LanguageTranslator {
   private llmApi: any; // Will be injected from web-llm
@@ -20,12 +37,12 @@ export class LanguageTranslator {
   async translate(request: TranslationRequest): Promise<TranslationResponse> {
     const { input, sourceFormat, targetFormat, context } = request;
 
-    // Direct Atomese <-> MeTTa conversion
-    if (sourceFormat === Format.ATOMESE && targetFormat === Format.METTA) {
-      return this.atomToMetta(input);
-    }
-    if (sourceFormat === Format.METTA && targetFormat === Format.ATOMESE) {
-      return this.mettaToAtom(input);
+    // Direct, lossless conversion between Atomese, MeTTa and Scheme
+    if (
+      STRUCTURED_FORMATS.has(sourceFormat) &&
+      STRUCTURED_FORMATS.has(targetFormat)
+    ) {
+      return this.convertStructured(input, sourceFormat, targetFormat);
     }
 
     // Use LLM for natural language translations
@@ -139,82 +156,54 @@ Provide a clear, natural language explanation of what this expression means.`;
     );
   }
 
-  private atomToMetta(atomese: string): TranslationResponse {
+  private convertStructured(
+    input: string,
+    sourceFormat: Format,
+    targetFormat: Format,
+  ): TranslationResponse {
     try {
-      const atom = AtomeseParser.parse(atomese);
-
-      // Simple conversion logic
-      let metta = this.convertAtomNodeToMetta(atom);
+      const atoms = this.parseAtoms(input, sourceFormat);
 
       return {
-        output: metta,
-        sourceFormat: Format.ATOMESE,
-        targetFormat: Format.METTA,
-        confidence: 0.9,
+        output: this.generateAtoms(atoms, targetFormat),
+        sourceFormat,
+        targetFormat,
+        confidence: 1,
       };
     } catch (error) {
+      if (error instanceof ParseError) throw error;
       throw new Error(
-        `Failed to convert Atomese to MeTTa: ${error instanceof Error ? error.message : "Unknown error"}`,
+        `Failed to convert ${sourceFormat} to ${targetFormat}: ${error instanceof Error ? error.message : "Unknown error"}`,
       );
     }
   }
 
-  private convertAtomNodeToMetta(atom: any): string {
-    // Basic conversion - can be enhanced
-    switch (atom.type) {
-      case "InheritanceLink":
-        if (atom.children && atom.children.length === 2) {
-          const child1 = atom.children[0].name || "?";
-          const child2 = atom.children[1].name || "?";
-          return `(: ${child1} ${child2})`;
-        }
-        break;
-      case "EvaluationLink":
-        if (atom.children && atom.children.length >= 2) {
-          const pred = atom.children[0].name || "predicate";
-          const args = atom.children
-            .slice(1)
-            .map((c: any) => c.name || "?")
-            .join(" ");
-          return `(${pred} ${args})`;
-        }
-        break;
+  private parseAtoms(input: string, format: Format): AtomNode[] {
+    switch (format) {
+      case Format.METTA:
+        return MeTTaParser.parseAll(input).map((expr) =>
+          AtomeseMeTTaConverter.toAtom(expr),
+        );
+      case Format.SCHEME:
+        return SchemeParser.parseAll(input);
+      default:
+        return AtomeseParser.parseAll(input);
     }
-    return `(${atom.type} ${atom.name || ""})`;
   }
 
-  private mettaToAtom(metta: string): TranslationResponse {
-    try {
-      const expr = MeTTaParser.parse(metta);
-
-      // Simple conversion logic
-      let atomese = this.convertMettaToAtomese(expr);
-
-      return {
-        output: atomese,
-        sourceFormat: Format.METTA,
-        targetFormat: Format.ATOMESE,
-        confidence: 0.9,
-      };
-    } catch (error) {
-      throw new Error(
-        `Failed to convert MeTTa to Atomese: ${error instanceof Error ? error.message : "Unknown error"}`,
-      );
-    }
-  }
-
-  private convertMettaToAtomese(expr: any): string {
-    // Basic conversion - can be enhanced
-    if (expr.type === "expression" && Array.isArray(expr.value)) {
-      const first = expr.value[0];
-      if (first && first.value === ":") {
-        // Type declaration -> InheritanceLink
-        const name = expr.value[1]?.value || "?";
-        const type = expr.value[2]?.value || "?";
-        return `(InheritanceLink (ConceptNode "${name}") (ConceptNode "${type}"))`;
-      }
+  private generateAtoms(atoms: AtomNode[], format: Format): string {
+    switch (format) {
+      case Format.METTA:
+        return atoms
+          .map((atom) =>
+            MeTTaParser.generate(AtomeseMeTTaConverter.toMetta(atom)),
+          )
+          .join("\n");
+      case Format.SCHEME:
+        return SchemeParser.generateAll(atoms);
+      default:
+        return atoms.map((atom) => AtomeseParser.generate(atom)).join("\n");
     }
-    return `(ConceptNode "${JSON.stringify(expr)}")`;
   }
 
   /**
@@ -0,0 +1,181 @@
+/**
+ * Truth Value Utilities
+ * Constructors, count/confidence conversion and comparison for truth values
+ */
+
+import {
+  AttentionValue,
+  CountTruthValue,
+  FuzzyTruthValue,
+  IndefiniteTruthValue,
+  SimpleTruthValue,
+  TruthValue,
+} from "./types";
+
+/**
+ * Evidence lookahead K: confidence = count / (count + K).
+ * Matches OpenCog's default.
+ */
+export const DEFAULT_K = 800;
+
+/**
+ * Convert an evidence count to a confidence
+ */
+export function countToConfidence(
+  count: number,
+  k: number = DEFAULT_K,
+): number {
+  return count / (count + k);
+}
+
+/**
+ * Convert a confidence to an evidence count
+ */
+export function confidenceToCount(
+  confidence: number,
+  k: number = DEFAULT_K,
+): number {
+  if (confidence >= 1) return Number.POSITIVE_INFINITY;
+  return (k * confidence) / (1 - confidence);
+}
+
+/**
+ * Confidence of a truth value; a count truth value's follows from its count
+ */
+export function truthValueConfidence(
+  tv: TruthValue,
+  k: number = DEFAULT_K,
+): number {
+  return tv.kind === "count" ? countToConfidence(tv.count, k) : tv.confidence;
+}
+
+/**
+ * Amount of evidence behind a truth value
+ */
+export function truthValueCount(tv: TruthValue, k: number = DEFAULT_K): number {
+  return tv.kind === "count" ? tv.count : confidenceToCount(tv.confidence, k);
+}
+
+export function simpleTV(
+  strength: number,
+  confidence: number,
+): SimpleTruthValue {
+  return { strength, confidence };
+}
+
+export function countTV(
+  strength: number,
+  count: number,
+  confidence: number = countToConfidence(count),
+): CountTruthValue {
+  return { kind: "count", strength, confidence, count };
+}
+
+/**
+ * Indefinite truth value for the interval [lower, upper].
+ * Strength is the interval midpoint; confidence shrinks as the interval
+ * widens.
+ */
+export function indefiniteTV(
+  lower: number,
+  upper: number,
+  confidenceLevel: number = 0.9,
+): IndefiniteTruthValue {
+  return {
+    kind: "indefinite",
+    lower,
+    upper,
+    confidenceLevel,
+    strength: (lower + upper) / 2,
+    confidence: confidenceLevel * (1 - Math.abs(upper - lower)),
+  };
+}
+
+export function fuzzyTV(strength: number, confidence: number): FuzzyTruthValue {
+  return { kind: "fuzzy", strength, confidence };
+}
+
+/**
+ * Check two truth values for equality, including their kind
+ */
+export function truthValuesEqual(tv1?: TruthValue, tv2?: TruthValue): boolean {
+  if (!tv1 || !tv2) return tv1 === tv2;
+  if ((tv1.kind ?? "simple") !== (tv2.kind ?? "simple")) return false;
+  if (tv1.strength !== tv2.strength || tv1.confidence !== tv2.confidence) {
+    return false;
+  }
+
+  switch (tv1.kind) {
+    case "count":
+      return tv2.kind === "count" && tv1.count === tv2.count;
+    case "indefinite":
+      return (
+        tv2.kind === "indefinite" &&
+        tv1.lower === tv2.lower &&
+        tv1.upper === tv2.upper &&
+        tv1.confidenceLevel === tv2.confidenceLevel
+      );
+    default:
+      return true;
+  }
+}
+
+/**
+ * Value forms that may trail an atom's outgoing set, with their arity
+ */
+export const VALUE_FORMS: Record<string, number> = {
+  stv: 2, // (stv strength confidence)
+  ctv: 3, // (ctv strength confidence count)
+  itv: 3, // (itv lower upper confidence-level)
+  ftv: 2, // (ftv strength confidence)
+  av: 3, // (av sti lti vlti)
+};
+
+/**
+ * Check whether a symbol names a value form
+ */
+export function isValueForm(name: string): boolean {
+  return Object.prototype.hasOwnProperty.call(VALUE_FORMS, name);
+}
+
+/**
+ * Whether an attention value is worth writing out. Zero attention is
+ * what every atom starts with, so it is left implicit.
+ */
+export function hasAttention(av?: AttentionValue): av is AttentionValue {
+  return Boolean(av && (av.sti !== 0 || av.lti !== 0 || av.vlti !== 0));
+}
+
+/**
+ * Build a truth value from the arguments of a stv/ctv/itv/ftv form
+ */
+export function truthValueFromForm(form: string, args: number[]): TruthValue {
+  const [a, b, c] = args;
+
+  switch (form) {
+    case "ctv":
+      return countTV(a, c, b);
+    case "itv":
+      return indefiniteTV(a, b, c);
+    case "ftv":
+      return fuzzyTV(a, b);
+    default:
+      return simpleTV(a, b);
+  }
+}
+
+/**
+ * Value form and arguments that rebuild a truth value exactly
+ */
+export function truthValueToForm(tv: TruthValue): [string, number[]] {
+  switch (tv.kind) {
+    case "count":
+      return ["ctv", [tv.strength, tv.confidence, tv.count]];
+    case "indefinite":
+      return ["itv", [tv.lower, tv.upper, tv.confidenceLevel]];
+    case "fuzzy":
+      return ["ftv", [tv.strength, tv.confidence]];
+    default:
+      return ["stv", [tv.strength, tv.confidence]];
+  }
+}
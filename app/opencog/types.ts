@@ -36,43 +36,157 @@ export enum MessageType {
   QUERY = "query",
   BROADCAST = "broadcast",
   COMMAND = "command",
+  ROUTING = "routing", // Orchestrator's reasoning for an assignment
 }
 
 // Atomese Types
 export interface AtomNode {
-  type: AtomType;
+  type: AtomTypeName;
   name?: string;
   value?: any;
   children?: AtomNode[];
   truthValue?: TruthValue;
+  attentionValue?: AttentionValue;
 }
 
+/**
+ * Built-in atom types. The full hierarchy, including user-registered types,
+ * lives in the `atomTypes` registry (see atom-types.ts).
+ */
 export enum AtomType {
+  // Abstract base types
+  ATOM = "Atom",
+  NODE = "Node",
+  LINK = "Link",
+  ORDERED_LINK = "OrderedLink",
+  UNORDERED_LINK = "UnorderedLink",
+  SCOPE_LINK = "ScopeLink",
+
+  // Nodes
   CONCEPT_NODE = "ConceptNode",
   PREDICATE_NODE = "PredicateNode",
   VARIABLE_NODE = "VariableNode",
+  GLOB_NODE = "GlobNode",
+  NUMBER_NODE = "NumberNode",
+  TYPE_NODE = "TypeNode",
+  ANCHOR_NODE = "AnchorNode",
+  SCHEMA_NODE = "SchemaNode",
+  GROUNDED_SCHEMA_NODE = "GroundedSchemaNode",
+  DEFINED_SCHEMA_NODE = "DefinedSchemaNode",
+  GROUNDED_PREDICATE_NODE = "GroundedPredicateNode",
+  DEFINED_PREDICATE_NODE = "DefinedPredicateNode",
+
+  // Links
   LIST_LINK = "ListLink",
+  SET_LINK = "SetLink",
+  MEMBER_LINK = "MemberLink",
+  SUBSET_LINK = "SubsetLink",
   INHERITANCE_LINK = "InheritanceLink",
+  INTENSIONAL_INHERITANCE_LINK = "IntensionalInheritanceLink",
   SIMILARITY_LINK = "SimilarityLink",
   EVALUATION_LINK = "EvaluationLink",
+  EXECUTION_LINK = "ExecutionLink",
+  EXECUTION_OUTPUT_LINK = "ExecutionOutputLink",
+  CONTEXT_LINK = "ContextLink",
   IMPLICATION_LINK = "ImplicationLink",
+  EQUIVALENCE_LINK = "EquivalenceLink",
   AND_LINK = "AndLink",
   OR_LINK = "OrLink",
   NOT_LINK = "NotLink",
+  TYPED_VARIABLE_LINK = "TypedVariableLink",
+  VARIABLE_LIST = "VariableList",
+  PRESENT_LINK = "PresentLink",
+  ABSENT_LINK = "AbsentLink",
+  STATE_LINK = "StateLink",
+  DEFINE_LINK = "DefineLink",
+  HEBBIAN_LINK = "HebbianLink",
+  ASYMMETRIC_HEBBIAN_LINK = "AsymmetricHebbianLink",
+
+  // Scope links
+  LAMBDA_LINK = "LambdaLink",
+  GET_LINK = "GetLink",
+  BIND_LINK = "BindLink",
+  FOR_ALL_LINK = "ForAllLink",
+  EXISTS_LINK = "ExistsLink",
+  IMPLICATION_SCOPE_LINK = "ImplicationScopeLink",
 }
 
-export interface TruthValue {
+/**
+ * Name of an atom type: a built-in AtomType or any registered/unknown type
+ * name, which is preserved as-is.
+ */
+export type AtomTypeName = AtomType | (string & {});
+
+/**
+ * Truth values. Every kind exposes strength and confidence so rules can treat
+ * them uniformly; see truth-value.ts for constructors and conversions.
+ */
+export type TruthValue =
+  | SimpleTruthValue
+  | CountTruthValue
+  | IndefiniteTruthValue
+  | FuzzyTruthValue;
+
+export interface SimpleTruthValue {
+  kind?: "simple"; // Omitted on plain { strength, confidence } literals
   strength: number; // 0.0 to 1.0
   confidence: number; // 0.0 to 1.0
 }
 
+export interface CountTruthValue {
+  kind: "count";
+  strength: number;
+  confidence: number;
+  count: number; // Amount of evidence behind the strength
+}
+
+export interface IndefiniteTruthValue {
+  kind: "indefinite";
+  lower: number; // Lower bound of the probability interval
+  upper: number; // Upper bound of the probability interval
+  confidenceLevel: number; // Credibility that the probability lies in [lower, upper]
+  strength: number; // Interval midpoint
+  confidence: number;
+}
+
+export interface FuzzyTruthValue {
+  kind: "fuzzy";
+  strength: number; // Degree of membership
+  confidence: number;
+}
+
+/**
+ * Short-Term Importance (STI) - Attention currency for immediate focus
+ * Long-Term Importance (LTI) - Historical significance
+ * Very-Long-Term Importance (VLTI) - Permanent importance
+ */
+export interface AttentionValue {
+  sti: number; // Short-term importance (-100 to 100)
+  lti: number; // Long-term importance (0 to 100)
+  vlti: number; // Very long-term importance (0 to 100)
+}
+
 // MeTTa Types
 export interface MeTTaExpression {
-  type: "atom" | "expression" | "variable";
-  value: string | MeTTaExpression[];
+  type: MeTTaExpressionType;
+  value: string | MeTTaExpression[]; // Strings hold unescaped contents
+  evaluate?: boolean; // `!`-prefixed top-level evaluation
   metadata?: Record<string, any>;
 }
 
+/**
+ * Kinds of MeTTa atoms. "atom" is an unclassified symbol, kept for
+ * expressions built by hand; the parser emits the specific kinds.
+ */
+export type MeTTaExpressionType =
+  | "expression"
+  | "symbol"
+  | "string"
+  | "number"
+  | "variable"
+  | "grounded"
+  | "atom";
+
 // CogServer Types
 export interface CogServerConfig {
   host: string;
@@ -6,6 +6,7 @@ import { showToast } from "../components/ui-lib";
 import { ModelConfig, Model, useAppConfig, ConfigType } from "./config";
 import { createEmptyTemplate, Template } from "./template";
 import {
+  ATTENTION_CONTEXT_TEMPLATE,
   DEFAULT_INPUT_TEMPLATE,
   DEFAULT_MODELS,
   DEFAULT_SYSTEM_TEMPLATE,
@@ -17,6 +18,8 @@ import { nanoid } from "nanoid";
 import { createPersistStore } from "../utils/store";
 import { ChatCompletionFinishReason, CompletionUsage } from "@mlc-ai/web-llm";
 import { ChatImage } from "../typing";
+import { useOpenCogStore } from "./opencog";
+import { buildAttentionContext } from "../opencog/reasoning";
 
 export type ChatMessage = RequestMessage & {
   date: string;
@@ -85,6 +88,63 @@ function createEmptySession(): ChatSession {
   };
 }
 
+/**
+ * OpenCog memory agent under which session summaries are kept
+ */
+const CHAT_MEMORY_AGENT = "chat";
+const RECALL_COUNT = 3;
+const RECALL_MIN_SCORE = 0.25;
+
+/**
+ * Keep a session's summary in OpenCog memory, one entry per session, so
+ * other sessions can recall it
+ */
+async function rememberSummary(session: ChatSession, summary: string) {
+  const { memory } = useOpenCogStore.getState();
+  if (!memory || summary.trim() === "") return;
+
+  const content = { topic: session.topic, summary };
+  const existing = (
+    await memory.query({ agentId: CHAT_MEMORY_AGENT, type: "context" })
+  ).find((entry) => entry.metadata?.sessionId === session.id);
+
+  if (existing) {
+    await memory.update(existing.id, { content, timestamp: Date.now() });
+  } else {
+    await memory.store({
+      agentId: CHAT_MEMORY_AGENT,
+      type: "context",
+      content,
+      timestamp: Date.now(),
+      importance: 0.5,
+      accessCount: 0,
+      lastAccessed: Date.now(),
+      metadata: { sessionId: session.id },
+    });
+  }
+}
+
+/**
+ * Summaries of other sessions related to the text
+ */
+async function recallSummaries(
+  session: ChatSession,
+  text: string,
+): Promise<string[]> {
+  const { memory } = useOpenCogStore.getState();
+  if (!memory) return [];
+
+  const results = await memory.similar(text, RECALL_COUNT + 1, {
+    agentId: CHAT_MEMORY_AGENT,
+    type: "context",
+    minScore: RECALL_MIN_SCORE,
+  });
+  return results
+    .filter(({ entry }) => entry.metadata?.sessionId !== session.id)
+    .slice(0, RECALL_COUNT)
+    .map(({ entry }) => `${entry.content.topic}: ${entry.content.summary}`);
+}
+
 function countMessages(msgs: ChatMessage[]) {
   return msgs.reduce(
     (pre, cur) => pre + estimateTokenLength(getMessageTextContent(cur)),
@@ -280,7 +340,11 @@ export const useChatStore = createPersistStore(
         get().summarizeSession(llm);
       },
 
-      onUserInput(content: string, llm: LLMApi, attachImages?: ChatImage[]) {
+      async onUserInput(
+        content: string,
+        llm: LLMApi,
+        attachImages?: ChatImage[],
+      ) {
         const modelConfig = useAppConfig.getState().modelConfig;
 
         const userContent = fillTemplateWith(content, useAppConfig.getState());
@@ -321,14 +385,12 @@ export const useChatStore = createPersistStore(
           model: modelConfig.model,
         });
 
-        // get recent messages
-        const recentMessages = get().getMessagesWithMemory();
-        const sendMessages = recentMessages.concat(userMessage);
-
-        log.debug("Messages: ", sendMessages);
+        // the session may change while memory is recalled below
+        const session = get().currentSession();
+        const history = { ...session, messages: session.messages };
 
         // save user's and bot's message
-        get().updateCurrentSession((session) => {
+        get().updateTargetSession(session, (session) => {
           const savedUserMessage = {
             ...userMessage,
             content: mContent,
@@ -340,6 +402,24 @@ export const useChatStore = createPersistStore(
           session.isGenerating = true;
         });
 
+        // summaries of related sessions, from OpenCog memory
+        const recalled = useAppConfig.getState().sendMemory
+          ? await recallSummaries(session, userContent).catch((error) => {
+              log.error("[Recall] ", error);
+              return [];
+            })
+          : [];
+
+        // get recent messages, from before this input
+        const recentMessages = get().getMessagesWithMemory(
+          userMessage,
+          recalled,
+          history,
+        );
+        const sendMessages = recentMessages.concat(userMessage);
+
+        log.debug("Messages: ", sendMessages);
+
         // make request
         llm.chat({
           messages: sendMessages,
@@ -354,7 +434,7 @@ export const useChatStore = createPersistStore(
             if (message) {
               botMessage.content = message;
             }
-            get().updateCurrentSession((session) => {
+            get().updateTargetSession(session, (session) => {
               session.messages = session.messages.concat();
             });
           },
@@ -369,7 +449,7 @@ export const useChatStore = createPersistStore(
               botMessage.content = message;
               get().onNewMessage(botMessage, llm);
             }
-            get().updateCurrentSession((session) => {
+            get().updateTargetSession(session, (session) => {
               session.isGenerating = false;
             });
           },
@@ -381,7 +461,7 @@ export const useChatStore = createPersistStore(
             botMessage.streaming = false;
             userMessage.isError = !isAborted;
             botMessage.isError = !isAborted;
-            get().updateCurrentSession((session) => {
+            get().updateTargetSession(session, (session) => {
               session.messages = session.messages.concat();
               session.isGenerating = false;
             });
@@ -391,9 +471,7 @@ export const useChatStore = createPersistStore(
         });
       },
 
-      getMemoryPrompt() {
-        const session = get().currentSession();
-
+      getMemoryPrompt(session: ChatSession = get().currentSession()) {
         return {
           role: "system",
           content:
@@ -404,8 +482,36 @@ export const useChatStore = createPersistStore(
         } as ChatMessage;
       },
 
-      getMessagesWithMemory() {
-        const session = get().currentSession();
+      getAttentionPrompt(messages: ChatMessage[]) {
+        const config = useAppConfig.getState();
+        const { ecanEngine, space } = useOpenCogStore.getState();
+        if (!ecanEngine) return undefined;
+
+        const atoms = buildAttentionContext(
+          ecanEngine,
+          space,
+          messages.map((message) => getMessageTextContent(message)),
+          {
+            format: config.attentionContextFormat,
+            maxAtoms: config.attentionContextSize,
+          },
+        );
+        if (atoms.length === 0) return undefined;
+
+        return createMessage({
+          role: "system",
+          content: ATTENTION_CONTEXT_TEMPLATE.replace(
+            "{{format}}",
+            config.attentionContextFormat === "metta" ? "MeTTa" : "Atomese",
+          ).replace("{{atoms}}", atoms),
+        });
+      },
+
+      getMessagesWithMemory(
+        input?: ChatMessage,
+        recalled: string[] = [],
+        session: ChatSession = get().currentSession(),
+      ) {
         const config = useAppConfig.getState();
         const modelConfig = config.modelConfig;
         const clearContextIndex = session.clearContextIndex ?? 0;
@@ -444,9 +550,18 @@ export const useChatStore = createPersistStore(
           session.memoryPrompt.length > 0 &&
           session.lastSummarizeIndex > clearContextIndex;
         const longTermMemoryPrompts = shouldSendLongTermMemory
-          ? [get().getMemoryPrompt()]
+          ? [get().getMemoryPrompt(session)]
           : [];
         const longTermMemoryStartIndex = session.lastSummarizeIndex;
+        const recalledMemoryPrompts =
+          recalled.length > 0
+            ? [
+                createMessage({
+                  role: "system",
+                  content: Locale.Store.Prompt.Recall(recalled.join("\n")),
+                }),
+              ]
+            : [];
 
         // short term memory
         const shortTermMemoryStartIndex = Math.max(
@@ -454,12 +569,14 @@ export const useChatStore = createPersistStore(
           totalMessageCount - config.historyMessageCount,
         );
 
-        // lets concat send messages, including 4 parts:
+        // lets concat send messages, including 5 parts:
         // 0. system prompt: to get close to OpenAI Web ChatGPT
-        // 1. long term memory: summarized memory messages
-        // 2. pre-defined in-context prompts
-        // 3. short term memory: latest n messages
-        // 4. newest input message
+        // 1. long term memory: summarized memory messages, and summaries of
+        //    related sessions recalled from OpenCog memory
+        // 2. attention context: atoms in ECAN's attentional focus
+        // 3. pre-defined in-context prompts
+        // 4. short term memory: latest n messages
+        // 5. newest input message
         const memoryStartIndex = shouldSendLongTermMemory
           ? Math.min(longTermMemoryStartIndex, shortTermMemoryStartIndex)
           : shortTermMemoryStartIndex;
@@ -479,10 +596,24 @@ export const useChatStore = createPersistStore(
           tokenCount += estimateTokenLength(getMessageTextContent(msg));
           reversedRecentMessages.push(msg);
         }
+
+        // attention context, stimulated by the messages being sent
+        const attentionPrompt = config.sendAttentionContext
+          ? get().getAttentionPrompt(
+              reversedRecentMessages
+                .slice()
+                .reverse()
+                .concat(input ? [input] : []),
+            )
+          : undefined;
+        const attentionPrompts = attentionPrompt ? [attentionPrompt] : [];
+
         // concat all messages
         const recentMessages = [
           ...systemPrompts,
           ...longTermMemoryPrompts,
+          ...recalledMemoryPrompts,
+          ...attentionPrompts,
           ...contextPrompts,
           ...reversedRecentMessages.reverse(),
         ];
@@ -631,6 +762,9 @@ export const useChatStore = createPersistStore(
                 session.lastSummarizeIndex = lastSummarizeIndex;
                 session.memoryPrompt = message; // Update the memory prompt for stored it in local storage
               });
+              rememberSummary(session, message).catch((err) =>
+                log.error("[Memory] ", err),
+              );
             },
             onError(err) {
               log.error("[Summarize] ", err);
@@ -678,6 +812,17 @@ export const useChatStore = createPersistStore(
         set(() => ({ sessions }));
       },
 
+      updateTargetSession(
+        targetSession: ChatSession,
+        updater: (session: ChatSession) => void,
+      ) {
+        const sessions = get().sessions;
+        const index = sessions.findIndex((s) => s.id === targetSession.id);
+        if (index < 0) return;
+        updater(sessions[index]);
+        set(() => ({ sessions }));
+      },
+
       clearAllData() {
         localStorage.clear();
         location.reload();
@@ -7,6 +7,7 @@ import {
   StoreKey,
 } from "../constant";
 import { createPersistStore } from "../utils/store";
+import type { AttentionContextFormat } from "../opencog/reasoning";
 
 export type Model = (typeof DEFAULT_MODELS)[number]["name"];
 
@@ -70,6 +71,10 @@ export type ConfigType = {
   enableInjectSystemPrompts: boolean;
   template: string;
 
+  sendAttentionContext: boolean;
+  attentionContextFormat: AttentionContextFormat;
+  attentionContextSize: number;
+
   modelClientType: ModelClient;
   models: ModelRecord[];
 
@@ -121,6 +126,10 @@ export const DEFAULT_CONFIG: ConfigType = {
   enableInjectSystemPrompts: false,
   template: DEFAULT_INPUT_TEMPLATE,
 
+  sendAttentionContext: false,
+  attentionContextFormat: "atomese",
+  attentionContextSize: 10,
+
   modelClientType: ModelClient.WEBLLM,
   models: DEFAULT_MODELS,
   cacheType: CacheType.Cache,
@@ -219,7 +228,7 @@ export const useAppConfig = createPersistStore(
   }),
   {
     name: StoreKey.Config,
-    version: 0.64,
+    version: 0.65,
     migrate: (persistedState, version) => {
       if (version < 0.64) {
         return {
@@ -228,6 +237,14 @@ export const useAppConfig = createPersistStore(
           models: DEFAULT_MODELS as any as ModelRecord[],
         };
       }
+      if (version < 0.65) {
+        return {
+          ...(persistedState as any),
+          sendAttentionContext: DEFAULT_CONFIG.sendAttentionContext,
+          attentionContextFormat: DEFAULT_CONFIG.attentionContextFormat,
+          attentionContextSize: DEFAULT_CONFIG.attentionContextSize,
+        };
+      }
       return persistedState;
     },
   },
@@ -5,7 +5,11 @@
 
 import { create } from "zustand";
 import { persist } from "zustand/middleware";
+import { nanoid } from "nanoid";
+import log from "loglevel";
 import { StoreKey } from "../constant";
+import { LLMApi } from "../client/api";
+import { useAppConfig } from "./config";
 import {
   Agent,
   Task,
@@ -18,14 +22,68 @@ import {
 import {
   initializeOpenCog,
   AgentOrchestrator,
+  ROUTING_LEARNER,
   LanguageTranslator,
   CogServerClient,
   MockCogServerClient,
+  AtomHandle,
+  AtomSpace,
+  DEFAULT_FORMAT_OPTIONS,
+  FormatOptions,
 } from "../opencog";
-import { PLNReasoner, ECANEngine, MOSESEngine } from "../opencog/reasoning";
-import { PersistentMemory, AgentLearning } from "../opencog/memory";
+import {
+  PLNReasoner,
+  BackwardChainOptions,
+  BackwardChainResult,
+  ECANEngine,
+  MOSESEngine,
+  InferenceTrace,
+  Candidate,
+  DataTable,
+  DemeStatistics,
+  FitnessTaskKind,
+  ModelExportOptions,
+  MOSESCheckpointStore,
+  MOSESRun,
+  MOSESRunResult,
+  MOSESTaskSpec,
+  MOSESWorkerClient,
+  createFitnessTask,
+  modelToAtoms,
+} from "../opencog/reasoning";
+import {
+  PersistentMemory,
+  AgentLearning,
+  BanditAlgorithm,
+  ScoredMemory,
+  ConsolidationConfig,
+  ConsolidationReport,
+  DEFAULT_CONSOLIDATION_CONFIG,
+  LLMSummarizer,
+  createPolicies,
+} from "../opencog/memory";
 import { AtomNode } from "../opencog/types";
 
+/**
+ * Named query-language string kept across sessions
+ */
+export interface SavedQuery {
+  id: string;
+  name: string;
+  query: string; // e.g. "type:InheritanceLink tv.strength>0.7 limit:20"
+  createdAt: number;
+}
+
+/**
+ * Progress of the MOSES run in the worker
+ */
+export interface MOSESRunStatus {
+  id: string;
+  status: "running" | "paused";
+  generation: number;
+  generations: number;
+}
+
 interface OpenCogState {
   // System state
   initialized: boolean;
@@ -37,6 +95,10 @@ interface OpenCogState {
   plnReasoner?: PLNReasoner;
   ecanEngine?: ECANEngine;
   mosesEngine?: MOSESEngine;
+  mosesModel?: ModelExportOptions; // Task behind the engine's best candidate
+  mosesTask?: MOSESTaskSpec; // Data the engine is learning from
+  mosesWorker?: MOSESWorkerClient;
+  mosesRun?: MOSESRunStatus;
 
   // Memory system
   memory?: PersistentMemory;
@@ -54,7 +116,9 @@ interface OpenCogState {
   agents: Agent[];
   tasks: Task[];
   messageHistory: AgentMessage[];
-  atomSpace: AtomNode[]; // Atoms for visualization
+  space: AtomSpace; // Shared indexed AtomSpace
+  atomSpace: AtomNode[]; // Snapshot of `space` for rendering
+  inferenceTraces: InferenceTrace[]; // How PLN derived each atom
 
   // Performance metrics
   performanceMetrics: {
@@ -74,6 +138,7 @@ interface OpenCogState {
       populationSize: number;
       bestFitness: number;
       averageFitness: number;
+      demes: DemeStatistics[];
     };
     memory: {
       totalMemories: number;
@@ -92,6 +157,10 @@ interface OpenCogState {
   // Configuration
   cogServerConfig?: CogServerConfig;
   useMockServer: boolean;
+  formatOptions: FormatOptions; // Pretty-printing of Atomese/MeTTa output
+  savedQueries: SavedQuery[];
+  consolidationConfig: ConsolidationConfig; // Which memories to forget
+  learningAlgorithms: Record<string, BanditAlgorithm>; // Learner name -> routing bandit
 
   // Actions
   initialize: () => Promise<void>;
@@ -101,6 +170,9 @@ interface OpenCogState {
   setShowTranslationPanel: (show: boolean) => void;
   setShowVisualizationPanel: (show: boolean) => void;
   setShowPerformancePanel: (show: boolean) => void;
+  setFormatOptions: (options: Partial<FormatOptions>) => void;
+  saveQuery: (name: string, query: string) => SavedQuery;
+  deleteSavedQuery: (id: string) => void;
 
   // Translation
   translate: (request: TranslationRequest) => Promise<TranslationResponse>;
@@ -110,12 +182,31 @@ interface OpenCogState {
   refreshTasks: () => void;
   refreshMessages: () => void;
   sendMessageToAgent: (agentId: string, content: string) => Promise<void>;
-  createTask: (description: string, capability?: string) => Promise<Task>;
+  createTask: (
+    description: string,
+    capability?: string,
+    requesterId?: string,
+  ) => Promise<Task>;
+  setLearningAlgorithm: (agentId: string, algorithm: BanditAlgorithm) => void;
 
   // Reasoning operations
   performPLNReasoning: (atoms: AtomNode[]) => Promise<AtomNode[]>;
+  queryPLN: (
+    target: AtomNode,
+    options?: BackwardChainOptions,
+  ) => Promise<BackwardChainResult>;
   runECANAttention: (steps: number) => Promise<void>;
-  evolveWithMOSES: (generations: number) => Promise<any>;
+  evolveWithMOSES: (generations: number) => Promise<Candidate>;
+  trainMOSESModel: (
+    table: DataTable,
+    target: string,
+    kind: FitnessTaskKind,
+    generations?: number,
+  ) => Promise<Candidate>;
+  insertMOSESModel: () => string[];
+  pauseMOSES: () => void;
+  resumeMOSES: () => Promise<void>;
+  cancelMOSES: () => Promise<void>;
   refreshPerformanceMetrics: () => Promise<void>;
 
   // Memory operations
@@ -126,9 +217,19 @@ interface OpenCogState {
     importance: number,
   ) => Promise<void>;
   queryMemory: (agentId: string, type?: string) => Promise<any[]>;
+  searchMemory: (
+    text: string,
+    k?: number,
+    agentId?: string,
+  ) => Promise<ScoredMemory[]>;
+  setConsolidationConfig: (config: ConsolidationConfig) => void;
+  consolidateMemory: (options?: {
+    dryRun?: boolean;
+    llm?: LLMApi; // Summarizes old experiences when config.summarize is on
+  }) => Promise<ConsolidationReport>;
 
   // Visualization operations
-  addAtom: (atom: AtomNode) => void;
+  addAtom: (atom: AtomNode) => string;
   clearAtomSpace: () => void;
 
   // CogServer
@@ -141,6 +242,8 @@ interface OpenCogState {
   ) => Promise<any>;
 }
 
+const sharedAtomSpace = new AtomSpace();
+
 export const useOpenCogStore = create<OpenCogState>()(
   persist(
     (set, get) => ({
@@ -155,9 +258,15 @@ export const useOpenCogStore = create<OpenCogState>()(
       agents: [],
       tasks: [],
       messageHistory: [],
+      space: sharedAtomSpace,
       atomSpace: [],
+      inferenceTraces: [],
       agentLearning: new Map(),
       useMockServer: true,
+      formatOptions: DEFAULT_FORMAT_OPTIONS,
+      savedQueries: [],
+      consolidationConfig: DEFAULT_CONSOLIDATION_CONFIG,
+      learningAlgorithms: {},
       performanceMetrics: {
         reasoning: {
           plnInferences: 0,
@@ -175,6 +284,7 @@ export const useOpenCogStore = create<OpenCogState>()(
           populationSize: 0,
           bestFitness: 0,
           averageFitness: 0,
+          demes: [],
         },
         memory: {
           totalMemories: 0,
@@ -198,16 +308,72 @@ export const useOpenCogStore = create<OpenCogState>()(
         const { orchestrator, translator, cogServer } = initializeOpenCog(
           state.cogServerConfig,
           state.useMockServer,
+          state.space,
         );
 
+        // Initialize memory system
+        const memory = new PersistentMemory();
+        await memory.initialize();
+
+        // Bring back the shared AtomSpace of earlier sessions. Atoms added
+        // before this point are saved once the store has the memory.
+        const savedAtoms = await memory.loadAtoms().catch((error) => {
+          log.error("[AtomSpace] failed to load atoms", error);
+          return [];
+        });
+        const saved = new Set(savedAtoms.map((atom) => state.space.add(atom)));
+
         // Initialize reasoning engines
         const plnReasoner = new PLNReasoner();
         const ecanEngine = new ECANEngine();
         const mosesEngine = new MOSESEngine();
 
-        // Initialize memory system
-        const memory = new PersistentMemory();
-        await memory.initialize();
+        for (const handle of state.space.getHandles()) {
+          ecanEngine.addAtom(handle, state.space.get(handle)!);
+        }
+
+        // Derivations of earlier sessions can still be explained
+        await memory
+          .getTraces()
+          .then((traces) => plnReasoner.restoreTraces(traces))
+          .catch((error) =>
+            log.error("[PLN] failed to load inference traces", error),
+          );
+
+        // Routing keeps learning from the tasks of earlier sessions. Each
+        // agent routes the tasks created for it with a learner of its own,
+        // stored under the agent's name since ids change every session.
+        const learners = [
+          { id: ROUTING_LEARNER, name: ROUTING_LEARNER },
+          ...orchestrator.getAgents(),
+        ].map(({ id, name }): [string, AgentLearning] => [
+          id,
+          new AgentLearning(name, memory, state.learningAlgorithms[name]),
+        ]);
+        await Promise.all(
+          learners.map(([, learning]) =>
+            learning
+              .loadStrategies()
+              .catch((error) =>
+                log.error(
+                  "[Learning] failed to load routing strategies",
+                  error,
+                ),
+              ),
+          ),
+        );
+        learners.forEach(([id, learning]) =>
+          orchestrator.setRoutingLearning(learning, id),
+        );
+
+        // Pick up a MOSES run interrupted by a page reload, paused
+        const savedRun = await mosesCheckpoints.load().catch(() => null);
+        const mosesModel = savedRun?.task
+          ? setMOSESTask(mosesEngine, savedRun.task)
+          : undefined;
+        if (savedRun?.checkpoint) {
+          mosesEngine.restoreCheckpoint(savedRun.checkpoint);
+        }
 
         set({
           initialized: true,
@@ -215,11 +381,28 @@ export const useOpenCogStore = create<OpenCogState>()(
           translator,
           cogServer,
           plnReasoner,
+          inferenceTraces: plnReasoner.getTraces(),
           ecanEngine,
           mosesEngine,
+          mosesModel,
+          mosesTask: savedRun?.task,
+          mosesRun: savedRun
+            ? {
+                id: savedRun.id,
+                status: "paused",
+                generation: savedRun.checkpoint?.generation ?? 0,
+                generations: savedRun.generations,
+              }
+            : undefined,
           memory,
+          atomSpace: state.space.getAtoms(),
+          agentLearning: new Map(learners),
           cogServerConnected: state.useMockServer,
         });
+        state.space
+          .getHandles()
+          .filter((handle) => !saved.has(handle))
+          .forEach((handle) => persistAtom(handle, state.space.get(handle)!));
 
         // Initial data refresh
         get().refreshAgents();
@@ -230,10 +413,12 @@ export const useOpenCogStore = create<OpenCogState>()(
 
       // Shutdown system
       shutdown: () => {
-        const { orchestrator, cogServer, memory } = get();
+        const { orchestrator, cogServer, memory, space, mosesWorker } = get();
         orchestrator?.shutdown();
+        mosesWorker?.terminate();
         cogServer?.disconnect();
         memory?.close();
+        space.clear();
 
         set({
           initialized: false,
@@ -243,6 +428,10 @@ export const useOpenCogStore = create<OpenCogState>()(
           plnReasoner: undefined,
           ecanEngine: undefined,
           mosesEngine: undefined,
+          mosesModel: undefined,
+          mosesTask: undefined,
+          mosesWorker: undefined,
+          mosesRun: undefined,
           memory: undefined,
           agentLearning: new Map(),
           cogServerConnected: false,
@@ -250,6 +439,7 @@ export const useOpenCogStore = create<OpenCogState>()(
           tasks: [],
           messageHistory: [],
           atomSpace: [],
+          inferenceTraces: [],
         });
       },
 
@@ -260,6 +450,29 @@ export const useOpenCogStore = create<OpenCogState>()(
       setShowVisualizationPanel: (show) =>
         set({ showVisualizationPanel: show }),
       setShowPerformancePanel: (show) => set({ showPerformancePanel: show }),
+      setFormatOptions: (options) =>
+        set({ formatOptions: { ...get().formatOptions, ...options } }),
+
+      // Saved queries; saving under an existing name replaces it
+      saveQuery: (name, query) => {
+        const saved: SavedQuery = {
+          id: nanoid(),
+          name,
+          query,
+          createdAt: Date.now(),
+        };
+        set({
+          savedQueries: [
+            ...get().savedQueries.filter((entry) => entry.name !== name),
+            saved,
+          ],
+        });
+        return saved;
+      },
+      deleteSavedQuery: (id) =>
+        set({
+          savedQueries: get().savedQueries.filter((entry) => entry.id !== id),
+        }),
 
       // Translation
       translate: async (request) => {
@@ -308,18 +521,43 @@ export const useOpenCogStore = create<OpenCogState>()(
         get().refreshMessages();
       },
 
-      createTask: async (description, capability) => {
+      createTask: async (description, capability, requesterId) => {
         const { orchestrator, initialized } = get();
 
         if (!initialized || !orchestrator) {
           throw new Error("OpenCog system not initialized");
         }
 
-        const task = await orchestrator.createTask(description, capability);
+        const task = await orchestrator.createTask(
+          description,
+          capability,
+          1,
+          requesterId,
+        );
         get().refreshTasks();
+        get().refreshMessages(); // Routing decision
         return task;
       },
 
+      setLearningAlgorithm: (agentId, algorithm) => {
+        const { agentLearning, orchestrator, learningAlgorithms } = get();
+        const learning = agentLearning?.get(agentId);
+        if (!learning) {
+          throw new Error(`No routing learning for agent ${agentId}`);
+        }
+
+        // Kept by name, like the learner's memories
+        const name =
+          agentId === ROUTING_LEARNER
+            ? ROUTING_LEARNER
+            : orchestrator?.getAgent(agentId)?.name ?? agentId;
+        learning.setAlgorithm(algorithm);
+        set({
+          agentLearning: new Map(agentLearning),
+          learningAlgorithms: { ...learningAlgorithms, [name]: algorithm },
+        });
+      },
+
       // CogServer operations
       setCogServerConfig: (config) => {
         set({ cogServerConfig: config, useMockServer: false });
@@ -372,7 +610,7 @@ export const useOpenCogStore = create<OpenCogState>()(
 
       // Reasoning operations
       performPLNReasoning: async (atoms: AtomNode[]) => {
-        const { plnReasoner } = get();
+        const { plnReasoner, memory } = get();
         if (!plnReasoner) {
           throw new Error("PLN reasoner not initialized");
         }
@@ -383,6 +621,7 @@ export const useOpenCogStore = create<OpenCogState>()(
 
         // Update metrics
         set((state) => ({
+          inferenceTraces: plnReasoner.getTraces(),
           performanceMetrics: {
             ...state.performanceMetrics,
             reasoning: {
@@ -395,31 +634,139 @@ export const useOpenCogStore = create<OpenCogState>()(
           },
         }));
 
+        // Keep the derivations across sessions
+        memory
+          ?.saveTraces(plnReasoner.getTraces())
+          .catch((error) => log.error("[PLN] failed to save traces", error));
+
         return result.derived;
       },
 
+      // Prove a target, which may contain variables, from the AtomSpace
+      queryPLN: async (target: AtomNode, options?: BackwardChainOptions) => {
+        const { plnReasoner, atomSpace } = get();
+        if (!plnReasoner) {
+          throw new Error("PLN reasoner not initialized");
+        }
+
+        const startTime = performance.now();
+        const result = await plnReasoner.query(target, options, atomSpace);
+        const endTime = performance.now();
+
+        set((state) => ({
+          performanceMetrics: {
+            ...state.performanceMetrics,
+            reasoning: {
+              ...state.performanceMetrics.reasoning,
+              inferenceTime: endTime - startTime,
+            },
+          },
+        }));
+        return result;
+      },
+
       runECANAttention: async (steps: number = 10) => {
-        const { ecanEngine } = get();
+        const { ecanEngine, space } = get();
         if (!ecanEngine) {
           throw new Error("ECAN engine not initialized");
         }
 
         for (let i = 0; i < steps; i++) {
           ecanEngine.spreadAttention();
+          if (i % 10 === 0) {
+            ecanEngine.updateLTI();
+          }
+        }
+
+        // Drop atoms the attention economy has forgotten
+        const forgotten = ecanEngine.forget();
+        if (forgotten.length > 0) {
+          forgotten.forEach((handle) => space.remove(handle));
+          set({ atomSpace: space.getAtoms() });
         }
 
         await get().refreshPerformanceMetrics();
       },
 
       evolveWithMOSES: async (generations: number = 10) => {
+        const { mosesEngine, mosesTask } = get();
+        if (!mosesEngine) {
+          throw new Error("MOSES engine not initialized");
+        }
+        if (!mosesTask) {
+          throw new Error("No MOSES task to evolve; train a model first");
+        }
+
+        return runMOSES({
+          id: nanoid(),
+          task: mosesTask,
+          generations: mosesEngine.getGeneration() + generations,
+          checkpoint:
+            mosesEngine.getPopulation().length > 0
+              ? mosesEngine.getCheckpoint()
+              : undefined,
+        });
+      },
+
+      trainMOSESModel: async (
+        table: DataTable,
+        target: string,
+        kind: FitnessTaskKind,
+        generations: number = 50,
+      ) => {
         const { mosesEngine } = get();
         if (!mosesEngine) {
           throw new Error("MOSES engine not initialized");
         }
 
-        const result = await mosesEngine.evolve(generations);
-        await get().refreshPerformanceMetrics();
-        return result;
+        const task = { table, target, kind };
+        set({ mosesModel: setMOSESTask(mosesEngine, task), mosesTask: task });
+
+        return runMOSES({ id: nanoid(), task, generations });
+      },
+
+      insertMOSESModel: () => {
+        const { mosesEngine, mosesModel, space } = get();
+        const best = mosesEngine?.getBest();
+        if (!best || !mosesModel) {
+          throw new Error("No trained MOSES model");
+        }
+
+        const handles = modelToAtoms(best, mosesModel).map((atom) =>
+          space.add(atom),
+        );
+        set({ atomSpace: space.getAtoms() });
+        return handles;
+      },
+
+      pauseMOSES: () => {
+        get().mosesWorker?.pause();
+      },
+
+      resumeMOSES: async () => {
+        const { mosesWorker } = get();
+        if (mosesWorker?.isRunning()) {
+          mosesWorker.resume();
+          return;
+        }
+
+        const savedRun = await mosesCheckpoints.load();
+        if (!savedRun) {
+          throw new Error("No paused MOSES run");
+        }
+        await runMOSES(savedRun);
+      },
+
+      cancelMOSES: async () => {
+        const { mosesWorker } = get();
+        if (mosesWorker?.isRunning()) {
+          mosesWorker.cancel();
+          return;
+        }
+
+        // A run restored after a reload is only a checkpoint
+        await mosesCheckpoints.clear();
+        set({ mosesRun: undefined });
       },
 
       refreshPerformanceMetrics: async () => {
@@ -449,6 +796,7 @@ export const useOpenCogStore = create<OpenCogState>()(
           populationSize: 0,
           bestFitness: 0,
           averageFitness: 0,
+          demes: [] as DemeStatistics[],
         };
 
         if (mosesEngine) {
@@ -458,6 +806,7 @@ export const useOpenCogStore = create<OpenCogState>()(
             populationSize: stats.populationSize,
             bestFitness: stats.bestFitness,
             averageFitness: stats.averageFitness,
+            demes: stats.demes,
           };
         }
 
@@ -551,23 +900,55 @@ export const useOpenCogStore = create<OpenCogState>()(
         return results;
       },
 
-      // Visualization operations
-      addAtom: (atom: AtomNode) => {
-        set((state) => ({
-          atomSpace: [...state.atomSpace, atom],
-        }));
+      searchMemory: async (text: string, k: number = 5, agentId?: string) => {
+        const { memory } = get();
+        if (!memory) {
+          throw new Error("Memory system not initialized");
+        }
 
-        // Also add to ECAN engine
-        const { ecanEngine } = get();
-        if (ecanEngine) {
-          ecanEngine.addAtom(atom.name || `atom_${Date.now()}`, atom);
+        return memory.similar(text, k, { agentId });
+      },
+
+      setConsolidationConfig: (config) => set({ consolidationConfig: config }),
+
+      consolidateMemory: async ({ dryRun = false, llm } = {}) => {
+        const { memory, consolidationConfig } = get();
+        if (!memory) {
+          throw new Error("Memory system not initialized");
+        }
+
+        const { modelConfig, cacheType } = useAppConfig.getState();
+        const report = await memory.consolidate({
+          policies: createPolicies(consolidationConfig),
+          dryRun,
+          summarizer:
+            consolidationConfig.summarize && llm
+              ? new LLMSummarizer(llm, {
+                  model: modelConfig.model,
+                  cache: cacheType,
+                })
+              : undefined,
+        });
+
+        if (!dryRun) {
+          await get().refreshPerformanceMetrics();
         }
+        return report;
+      },
+
+      // Visualization operations
+      addAtom: (atom: AtomNode) => {
+        const { space } = get();
+        const handle = space.add(atom);
+        set({ atomSpace: space.getAtoms() });
+        return handle;
       },
 
       clearAtomSpace: () => {
+        const { space, ecanEngine } = get();
+        space.clear();
         set({ atomSpace: [] });
 
-        const { ecanEngine } = get();
         if (ecanEngine) {
           ecanEngine.clear();
         }
@@ -583,7 +964,171 @@ export const useOpenCogStore = create<OpenCogState>()(
         showTranslationPanel: state.showTranslationPanel,
         cogServerConfig: state.cogServerConfig,
         useMockServer: state.useMockServer,
+        formatOptions: state.formatOptions,
+        savedQueries: state.savedQueries,
+        consolidationConfig: state.consolidationConfig,
+        learningAlgorithms: state.learningAlgorithms,
       }),
     },
   ),
 );
+
+const mosesCheckpoints = new MOSESCheckpointStore();
+
+/**
+ * Give the engine a task and describe the model it will learn
+ */
+function setMOSESTask(
+  engine: MOSESEngine,
+  { table, target, kind }: MOSESTaskSpec,
+): ModelExportOptions {
+  const task = createFitnessTask(table, target, kind);
+  engine.setTask(task);
+
+  return {
+    name: `${target}-model`,
+    target,
+    kind,
+    inputs: task.inputs,
+    evidence: table.rows.length,
+  };
+}
+
+/**
+ * Run MOSES in the worker, checkpointing to IndexedDB and mirroring the
+ * results into the store's engine. Falls back to the main thread where
+ * workers are unavailable.
+ */
+async function runMOSES(run: MOSESRun): Promise<Candidate> {
+  const { mosesEngine, mosesWorker, refreshPerformanceMetrics } =
+    useOpenCogStore.getState();
+  if (!mosesEngine) {
+    throw new Error("MOSES engine not initialized");
+  }
+
+  if (typeof Worker === "undefined") {
+    const best = await mosesEngine.evolve(
+      Math.max(1, run.generations - mosesEngine.getGeneration()),
+    );
+    await refreshPerformanceMetrics();
+    return best;
+  }
+
+  const worker =
+    mosesWorker ??
+    new MOSESWorkerClient(
+      new Worker(new URL("../worker/moses-worker.ts", import.meta.url), {
+        type: "module",
+      }),
+    );
+  const setRun = (update: Partial<MOSESRunStatus>) =>
+    useOpenCogStore.setState((state) => ({
+      mosesRun: state.mosesRun && { ...state.mosesRun, ...update },
+    }));
+
+  useOpenCogStore.setState({
+    mosesWorker: worker,
+    mosesRun: {
+      id: run.id,
+      status: "running",
+      generation: run.checkpoint?.generation ?? 0,
+      generations: run.generations,
+    },
+  });
+  await mosesCheckpoints.save(run);
+
+  let saved = run;
+  let result: MOSESRunResult;
+  try {
+    result = await worker.run(run, {
+      onProgress: ({ generation, statistics }) => {
+        setRun({ generation });
+        useOpenCogStore.setState((state) => ({
+          performanceMetrics: {
+            ...state.performanceMetrics,
+            evolution: {
+              generation: statistics.generation,
+              populationSize: statistics.populationSize,
+              bestFitness: statistics.bestFitness,
+              averageFitness: statistics.averageFitness,
+              demes: statistics.demes,
+            },
+          },
+        }));
+      },
+      onCheckpoint: (checkpoint) => {
+        mosesEngine.restoreCheckpoint(checkpoint);
+        saved = { ...run, checkpoint };
+        mosesCheckpoints
+          .save(saved)
+          .catch((error) =>
+            log.error("[MOSES] failed to save checkpoint", error),
+          );
+      },
+      onPause: () => setRun({ status: "paused" }),
+      onResume: () => setRun({ status: "running" }),
+    });
+  } catch (error) {
+    // Keep the last checkpoint so the run can be resumed
+    setRun({
+      status: "paused",
+      generation: saved.checkpoint?.generation ?? 0,
+    });
+    await refreshPerformanceMetrics();
+    throw error;
+  }
+
+  // Finished or cancelled, either way there is nothing to resume
+  mosesEngine.restoreCheckpoint(result.checkpoint);
+  await mosesCheckpoints.clear().catch(() => undefined);
+  useOpenCogStore.setState({ mosesRun: undefined });
+  await refreshPerformanceMetrics();
+
+  if (!result.best) {
+    throw new Error("MOSES run was cancelled");
+  }
+  return result.best;
+}
+
+// Changes to the shared AtomSpace waiting to be written; null for removed
+const pendingAtoms = new Map<AtomHandle, AtomNode | null>();
+
+/**
+ * Queue an atom to be saved, or deleted, in IndexedDB. Changes are
+ * written together once the current task ends.
+ */
+function persistAtom(handle: AtomHandle, atom: AtomNode | null): void {
+  if (!useOpenCogStore.getState().memory) return;
+  if (pendingAtoms.size === 0) {
+    setTimeout(flushAtoms, 0);
+  }
+  pendingAtoms.set(handle, atom);
+}
+
+function flushAtoms(): void {
+  const { memory } = useOpenCogStore.getState();
+  const changes = Array.from(pendingAtoms.entries());
+  pendingAtoms.clear();
+  if (!memory) return;
+
+  const saved = changes.flatMap(([, atom]) => (atom ? [atom] : []));
+  const removed = changes.flatMap(([handle, atom]) => (atom ? [] : [handle]));
+  Promise.all([
+    saved.length > 0 && memory.saveAtoms(saved),
+    removed.length > 0 && memory.deleteAtoms(removed),
+  ]).catch((error) => log.error("[AtomSpace] failed to save atoms", error));
+}
+
+// Keep the attention network and the saved copy in step with the shared
+// AtomSpace
+sharedAtomSpace.on("add", ({ handle, atom }) => {
+  useOpenCogStore.getState().ecanEngine?.addAtom(handle, atom);
+  persistAtom(handle, atom);
+});
+sharedAtomSpace.on("update", ({ handle, atom }) => {
+  persistAtom(handle, atom);
+});
+sharedAtomSpace.on("remove", ({ handle }) => {
+  useOpenCogStore.getState().ecanEngine?.removeAtom(handle);
+  persistAtom(handle, null);
+});
@@ -0,0 +1,9 @@
+import { MOSESWorkerHandler } from "../opencog/reasoning/moses-worker";
+
+const handler = new MOSESWorkerHandler((response) =>
+  self.postMessage(response),
+);
+
+self.onmessage = (msg: MessageEvent) => {
+  handler.onmessage(msg);
+};
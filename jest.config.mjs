@@ -0,0 +1,15 @@
+import nextJest from "next/jest.js";
+
+const createJestConfig = nextJest({ dir: "./" });
+
+const config = createJestConfig({
+  testEnvironment: "node",
+  testMatch: ["<rootDir>/app/**/*.test.ts"],
+});
+
+export default async () => {
+  const jestConfig = await config();
+  // nanoid is published as ES modules only
+  jestConfig.transformIgnorePatterns = ["/node_modules/(?!nanoid/)"];
+  return jestConfig;
+};